@@ -0,0 +1,109 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * Storage for the keys of the activities a bot already processed.
+ *
+ * @remarks
+ * Implement this interface to share keys between the instances of a bot, using a cache like
+ * Redis. [add()](#add) must be atomic so that two deliveries of the same activity arriving at the
+ * same time aren't both accepted.
+ */
+export interface DeduplicationStore {
+    /**
+     * Records a key unless it's already recorded. Returns `true` if the key was added and `false`
+     * if it was recorded before and hasn't expired yet.
+     * @param key Key of the activity.
+     * @param ttl Number of milliseconds the key should be kept.
+     */
+    add(key: string, ttl: number): Promise<boolean>;
+
+    /**
+     * Removes a key, so the activity can be processed again.
+     * @param key Key of the activity.
+     */
+    delete(key: string): Promise<void>;
+}
+
+/**
+ * Settings used to configure the deduplication of incoming activities.
+ */
+export interface ActivityDeduplicationSettings {
+    /**
+     * (Optional) store the keys of processed activities are saved to. Defaults to a
+     * `MemoryDeduplicationStore`.
+     */
+    store?: DeduplicationStore;
+
+    /**
+     * (Optional) number of milliseconds an activity is remembered. Deliveries retried after that
+     * are processed again. Defaults to 10 minutes.
+     */
+    ttl?: number;
+}
+
+/**
+ * Deduplication store that keeps keys in memory.
+ *
+ * @remarks
+ * Keys are only shared by the adapters of a single process and are lost when the process exits.
+ * The store is bounded: once it holds `maxKeys` keys the oldest ones are dropped.
+ */
+export class MemoryDeduplicationStore implements DeduplicationStore {
+    private readonly keys: Map<string, number> = new Map<string, number>();
+    private readonly maxKeys: number;
+
+    /**
+     * Creates a new MemoryDeduplicationStore instance.
+     * @param maxKeys (Optional) maximum number of keys kept. Defaults to `10000`.
+     */
+    constructor(maxKeys: number = 10000) {
+        if (typeof maxKeys !== 'number' || !(maxKeys >= 1)) {
+            throw new Error(`MemoryDeduplicationStore: maxKeys must be at least 1.`);
+        }
+        this.maxKeys = maxKeys;
+    }
+
+    /**
+     * Records a key unless it's already recorded.
+     * @param key Key of the activity.
+     * @param ttl Number of milliseconds the key should be kept.
+     */
+    public add(key: string, ttl: number): Promise<boolean> {
+        const now: number = Date.now();
+        this.purge(now);
+        const expires: number = this.keys.get(key);
+        if (expires !== undefined && expires > now) { return Promise.resolve(false); }
+
+        // Keys are kept in the order they were added, so the oldest ones come first.
+        this.keys.delete(key);
+        this.keys.set(key, now + ttl);
+        while (this.keys.size > this.maxKeys) {
+            this.keys.delete(this.keys.keys().next().value);
+        }
+
+        return Promise.resolve(true);
+    }
+
+    /**
+     * Removes a key.
+     * @param key Key of the activity.
+     */
+    public delete(key: string): Promise<void> {
+        this.keys.delete(key);
+
+        return Promise.resolve();
+    }
+
+    private purge(now: number): void {
+        for (const [key, expires] of this.keys) {
+            if (expires > now) { break; }
+            this.keys.delete(key);
+        }
+    }
+}
@@ -0,0 +1,335 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { Activity, ActivityTypes, Attachment, CardAction } from 'botbuilder-core';
+import {
+    ADAPTIVE_CARD,
+    ANIMATION_CARD,
+    AUDIO_CARD,
+    cardToText,
+    HERO_CARD,
+    OAUTH_CARD,
+    RECEIPT_CARD,
+    SIGNIN_CARD,
+    THUMBNAIL_CARD,
+    VIDEO_CARD
+} from './cards';
+import { ActivityValidationError } from './errors';
+
+/**
+ * Describes what a channel accepts in an outbound activity.
+ */
+export interface ChannelProfile {
+    /**
+     * (Optional) maximum number of characters in the text of a message. Longer text is split
+     * across several messages.
+     */
+    maxTextLength?: number;
+
+    /**
+     * (Optional) content types of the attachments the channel can render. A trailing `*` matches
+     * any subtype, like `image/*`. All attachments are accepted when omitted.
+     */
+    supportedAttachmentTypes?: string[];
+
+    /**
+     * (Optional) maximum number of attachments in a single message.
+     */
+    maxAttachments?: number;
+
+    /**
+     * (Optional) if `false` the channel ignores suggested actions. Defaults to `true`.
+     */
+    supportsSuggestedActions?: boolean;
+
+    /**
+     * (Optional) maximum number of suggested actions shown by the channel.
+     */
+    maxSuggestedActions?: number;
+}
+
+/**
+ * Kinds of problems reported by an `ActivityValidator`.
+ *
+ * @remarks
+ * - `textTooLong` the text is longer than the channel allows.
+ * - `unsupportedAttachment` the channel can't render an attachment.
+ * - `tooManyAttachments` the message has more attachments than the channel allows.
+ * - `unsupportedSuggestedActions` the channel ignores suggested actions.
+ * - `tooManySuggestedActions` the message has more suggested actions than the channel shows.
+ */
+export type ActivityViolationType =
+    'textTooLong' | 'unsupportedAttachment' | 'tooManyAttachments' | 'unsupportedSuggestedActions' | 'tooManySuggestedActions';
+
+/**
+ * Problem found by an `ActivityValidator` in an outbound activity.
+ */
+export interface ActivityViolation {
+    /**
+     * Kind of problem.
+     */
+    type: ActivityViolationType;
+
+    /**
+     * ID of the channel the activity was sent to.
+     */
+    channelId: string;
+
+    /**
+     * Description of the problem.
+     */
+    message: string;
+}
+
+/**
+ * Settings used to configure an `ActivityValidator`.
+ */
+export interface ActivityValidationSettings {
+    /**
+     * (Optional) if `true` activities the channel would reject raise an `ActivityValidationError`
+     * instead of being normalized. Defaults to `false`.
+     */
+    strict?: boolean;
+
+    /**
+     * (Optional) profiles used for specific channels. These are merged over the built-in
+     * `ChannelProfiles`.
+     */
+    profiles?: { [channelId: string]: ChannelProfile };
+}
+
+/**
+ * Built-in capability profiles for the common Bot Framework channels.
+ *
+ * @remarks
+ * Channels without a profile, like `webchat`, `directline` and `emulator`, accept everything.
+ */
+export const ChannelProfiles: { [channelId: string]: ChannelProfile } = {
+    msteams: {
+        maxTextLength: 28000,
+        supportedAttachmentTypes: [
+            ADAPTIVE_CARD, HERO_CARD, THUMBNAIL_CARD, SIGNIN_CARD, OAUTH_CARD, RECEIPT_CARD,
+            'application/vnd.microsoft.teams.*', 'image/*'
+        ],
+        maxAttachments: 10,
+        maxSuggestedActions: 3
+    },
+    slack: {
+        maxTextLength: 4000,
+        supportedAttachmentTypes: [HERO_CARD, THUMBNAIL_CARD, SIGNIN_CARD, OAUTH_CARD, RECEIPT_CARD, 'image/*', 'application/vnd.slack.*'],
+        maxAttachments: 20,
+        supportsSuggestedActions: false
+    },
+    facebook: {
+        maxTextLength: 2000,
+        supportedAttachmentTypes: [
+            HERO_CARD, THUMBNAIL_CARD, SIGNIN_CARD, OAUTH_CARD, RECEIPT_CARD, AUDIO_CARD, VIDEO_CARD, ANIMATION_CARD,
+            'image/*', 'audio/*', 'video/*', 'application/pdf'
+        ],
+        maxAttachments: 10,
+        maxSuggestedActions: 11
+    },
+    telegram: {
+        maxTextLength: 4096,
+        supportedAttachmentTypes: [
+            HERO_CARD, THUMBNAIL_CARD, SIGNIN_CARD, OAUTH_CARD, RECEIPT_CARD, AUDIO_CARD, VIDEO_CARD, ANIMATION_CARD,
+            'image/*', 'audio/*', 'video/*', 'application/pdf'
+        ]
+    },
+    sms: {
+        maxTextLength: 1600,
+        supportedAttachmentTypes: ['image/*'],
+        maxAttachments: 1,
+        supportsSuggestedActions: false
+    }
+};
+
+/**
+ * Validates and normalizes outbound activities against the capabilities of the channel they're
+ * sent to.
+ *
+ * @remarks
+ * Only `message` activities are checked. When normalizing, text that's too long is split across
+ * several messages, unsupported cards are downgraded to text or dropped, extra attachments are
+ * moved to follow-up messages and suggested actions are trimmed or removed. In strict mode the
+ * same problems raise an `ActivityValidationError` listing every violation.
+ *
+ * ```JavaScript
+ * const adapter = new BotFrameworkAdapter({
+ *     appId: process.env.MICROSOFT_APP_ID,
+ *     appPassword: process.env.MICROSOFT_APP_PASSWORD,
+ *     activityValidation: { profiles: { mychannel: { maxTextLength: 500 } } }
+ * });
+ * ```
+ */
+export class ActivityValidator {
+    private readonly settings: ActivityValidationSettings;
+
+    /**
+     * Creates a new ActivityValidator instance.
+     * @param settings (Optional) settings used to configure the validator.
+     */
+    constructor(settings?: ActivityValidationSettings) {
+        this.settings = { strict: false, ...settings };
+    }
+
+    /**
+     * Returns the profile used for a channel, or `undefined` if the channel accepts everything.
+     * @param channelId ID of the channel.
+     */
+    public getProfile(channelId: string): ChannelProfile {
+        const builtIn: ChannelProfile = ChannelProfiles[channelId];
+        const custom: ChannelProfile = this.settings.profiles ? this.settings.profiles[channelId] : undefined;
+
+        return builtIn || custom ? { ...builtIn, ...custom } : undefined;
+    }
+
+    /**
+     * Returns the problems the channel would have with an activity.
+     * @param activity Outbound activity to check.
+     */
+    public validate(activity: Partial<Activity>): ActivityViolation[] {
+        const violations: ActivityViolation[] = [];
+        const profile: ChannelProfile = this.getProfile(activity.channelId);
+        if (!profile || activity.type !== ActivityTypes.Message) { return violations; }
+        const add: (type: ActivityViolationType, message: string) => void = (type: ActivityViolationType, message: string): void => {
+            violations.push({ type: type, channelId: activity.channelId, message: message });
+        };
+
+        if (profile.maxTextLength && activity.text && activity.text.length > profile.maxTextLength) {
+            add('textTooLong', `text is ${ activity.text.length } characters long but the channel allows ${ profile.maxTextLength }.`);
+        }
+        const attachments: Attachment[] = activity.attachments || [];
+        attachments.forEach((attachment: Attachment) => {
+            if (!isSupported(profile, attachment)) {
+                add('unsupportedAttachment', `attachments of type '${ attachment.contentType }' are not supported.`);
+            }
+        });
+        if (profile.maxAttachments && attachments.length > profile.maxAttachments) {
+            add('tooManyAttachments', `${ attachments.length } attachments were sent but the channel allows ${ profile.maxAttachments }.`);
+        }
+        const actions: CardAction[] = activity.suggestedActions ? activity.suggestedActions.actions || [] : [];
+        if (actions.length > 0) {
+            if (profile.supportsSuggestedActions === false) {
+                add('unsupportedSuggestedActions', `suggested actions are not supported.`);
+            } else if (profile.maxSuggestedActions && actions.length > profile.maxSuggestedActions) {
+                add('tooManySuggestedActions', `${ actions.length } suggested actions were sent but the channel shows ${ profile.maxSuggestedActions }.`);
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Returns the activities that should be sent in place of an outbound activity.
+     *
+     * @remarks
+     * Activities the channel accepts are returned unchanged. Otherwise the normalized activities
+     * are returned in the order they should be sent. Attachments and suggested actions are kept
+     * on the last activity.
+     * @param activity Outbound activity to normalize.
+     */
+    public normalize(activity: Partial<Activity>): Partial<Activity>[] {
+        const violations: ActivityViolation[] = this.validate(activity);
+        if (violations.length === 0) { return [activity]; }
+        if (this.settings.strict) { throw new ActivityValidationError(violations); }
+
+        const profile: ChannelProfile = this.getProfile(activity.channelId);
+        const normalized: Partial<Activity> = { ...activity };
+        const downgraded: string[] = [];
+        const attachments: Attachment[] = [];
+        (activity.attachments || []).forEach((attachment: Attachment) => {
+            if (isSupported(profile, attachment)) {
+                attachments.push(attachment);
+            } else {
+                const text: string = cardToText(attachment);
+                if (text) { downgraded.push(text); }
+            }
+        });
+        normalized.text = [activity.text].concat(downgraded).filter((text: string) => !!text).join('\n\n') || undefined;
+        normalized.attachments = attachments.length > 0 ? attachments : undefined;
+
+        if (normalized.suggestedActions) {
+            if (profile.supportsSuggestedActions === false) {
+                normalized.suggestedActions = undefined;
+            } else if (profile.maxSuggestedActions) {
+                normalized.suggestedActions = {
+                    ...normalized.suggestedActions,
+                    actions: (normalized.suggestedActions.actions || []).slice(0, profile.maxSuggestedActions)
+                };
+            }
+        }
+
+        // Split text and attachments across as many messages as needed.
+        const chunks: string[] = splitText(normalized.text, profile.maxTextLength);
+        const batches: Attachment[][] = [];
+        const batchSize: number = profile.maxAttachments || attachments.length;
+        for (let i = 0; i < attachments.length; i += batchSize) {
+            batches.push(attachments.slice(i, i + batchSize));
+        }
+        const activities: Partial<Activity>[] = chunks.map((text: string) => ({ ...normalized, text: text, attachments: undefined }));
+        batches.forEach((batch: Attachment[], i: number) => {
+            if (i === 0 && activities.length > 0) {
+                activities[activities.length - 1].attachments = batch;
+            } else {
+                activities.push({ ...normalized, text: undefined, attachments: batch });
+            }
+        });
+        if (activities.length === 0) { activities.push(normalized); }
+        activities.forEach((part: Partial<Activity>, i: number) => {
+            if (i < activities.length - 1) {
+                delete part.suggestedActions;
+                delete part.speak;
+                part.inputHint = 'ignoringInput';
+            }
+        });
+
+        return activities;
+    }
+}
+
+/**
+ * @private
+ * Returns `true` if a profile accepts an attachment.
+ * @param profile Profile of the channel.
+ * @param attachment Attachment to check.
+ */
+function isSupported(profile: ChannelProfile, attachment: Attachment): boolean {
+    if (!profile.supportedAttachmentTypes) { return true; }
+    const contentType: string = (attachment.contentType || '').toLowerCase();
+
+    return profile.supportedAttachmentTypes.some((type: string) => {
+        type = type.toLowerCase();
+
+        return type.endsWith('*') ? contentType.startsWith(type.substr(0, type.length - 1)) : contentType === type;
+    });
+}
+
+/**
+ * @private
+ * Splits text into chunks no longer than a given length, preferring line and word breaks.
+ * @param text Text to split.
+ * @param maxLength (Optional) maximum length of a chunk.
+ */
+function splitText(text: string, maxLength?: number): string[] {
+    if (!text) { return []; }
+    if (!maxLength || text.length <= maxLength) { return [text]; }
+    const chunks: string[] = [];
+    let remaining: string = text;
+    while (remaining.length > maxLength) {
+        const window: string = remaining.substr(0, maxLength + 1);
+        let end: number = window.lastIndexOf('\n');
+        if (end <= 0) { end = window.lastIndexOf(' '); }
+        if (end <= 0) { end = maxLength; }
+        chunks.push(remaining.substr(0, end).replace(/\s+$/, ''));
+        remaining = remaining.substr(end).replace(/^\s+/, '');
+    }
+    if (remaining) { chunks.push(remaining); }
+
+    return chunks.filter((chunk: string) => chunk.length > 0);
+}
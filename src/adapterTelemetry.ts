@@ -0,0 +1,199 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * Kinds of operations reported by the `BotFrameworkAdapter`.
+ *
+ * @remarks
+ * - `inboundTurn` an activity received by `processActivity()`.
+ * - `outboundSend` an activity sent by `sendActivities()`.
+ * - `connectorCall` any other call made to the channel's connector service.
+ * - `tokenApiCall` a call made to the Bot Framework token service.
+ * - `authFailure` a received request that couldn't be authenticated.
+ */
+export type AdapterTelemetryEventType = 'inboundTurn' | 'outboundSend' | 'connectorCall' | 'tokenApiCall' | 'authFailure';
+
+/**
+ * Event emitted by the `BotFrameworkAdapter` for each operation it performs.
+ */
+export interface AdapterTelemetryEvent {
+    /**
+     * Kind of operation.
+     */
+    type: AdapterTelemetryEventType;
+
+    /**
+     * Name of the operation, like `processActivity` or `sendToConversation`.
+     */
+    name: string;
+
+    /**
+     * ID shared by all the events of a turn. This ties outbound calls to the inbound activity.
+     */
+    correlationId: string;
+
+    /**
+     * Time the operation started.
+     */
+    timestamp: Date;
+
+    /**
+     * Number of milliseconds the operation took.
+     */
+    duration: number;
+
+    /**
+     * `true` if the operation succeeded.
+     */
+    success: boolean;
+
+    /**
+     * (Optional) HTTP status code of the operation, if known.
+     */
+    statusCode?: number;
+
+    /**
+     * (Optional) ID of the channel the operation relates to.
+     */
+    channelId?: string;
+
+    /**
+     * (Optional) ID of the conversation the operation relates to.
+     */
+    conversationId?: string;
+
+    /**
+     * (Optional) error raised by a failed operation.
+     */
+    error?: any;
+}
+
+/**
+ * Destination for the telemetry events emitted by the `BotFrameworkAdapter`.
+ */
+export interface AdapterTelemetrySink {
+    /**
+     * Records an event. Implementations shouldn't throw.
+     * @param event Event to record.
+     */
+    trackEvent(event: AdapterTelemetryEvent): void;
+}
+
+/**
+ * Telemetry sink that keeps events in memory. Primarily intended for unit tests.
+ *
+ * ```JavaScript
+ * const telemetry = new MemoryTelemetrySink();
+ * const adapter = new BotFrameworkAdapter({ telemetry: telemetry });
+ *
+ * // ... run a turn
+ * const sends = telemetry.events.filter((e) => e.type === 'outboundSend');
+ * ```
+ */
+export class MemoryTelemetrySink implements AdapterTelemetrySink {
+    /**
+     * Events recorded so far, in the order they were emitted.
+     */
+    public readonly events: AdapterTelemetryEvent[] = [];
+
+    /**
+     * Records an event.
+     * @param event Event to record.
+     */
+    public trackEvent(event: AdapterTelemetryEvent): void {
+        this.events.push(event);
+    }
+
+    /**
+     * Removes all recorded events.
+     */
+    public clear(): void {
+        this.events.splice(0, this.events.length);
+    }
+}
+
+// Values of the OpenTelemetry SpanKind and SpanStatusCode enums.
+const SPAN_KIND_SERVER: number = 1;
+const SPAN_KIND_CLIENT: number = 2;
+const SPAN_STATUS_OK: number = 1;
+const SPAN_STATUS_ERROR: number = 2;
+
+/**
+ * Span created by an `OpenTelemetryTracer`.
+ *
+ * @remarks
+ * This is the subset of the OpenTelemetry `Span` interface used by `OpenTelemetrySink`.
+ */
+export interface OpenTelemetrySpan {
+    setStatus(status: { code: number; message?: string }): any;
+    end(endTime?: Date | number): void;
+}
+
+/**
+ * Tracer used by an `OpenTelemetrySink` to create spans.
+ *
+ * @remarks
+ * This is the subset of the OpenTelemetry `Tracer` interface used by `OpenTelemetrySink`, so a
+ * tracer returned by `trace.getTracer()` from `@opentelemetry/api` can be passed in directly.
+ */
+export interface OpenTelemetryTracer {
+    startSpan(name: string, options?: { kind?: number; startTime?: Date | number; attributes?: { [key: string]: any } }): OpenTelemetrySpan;
+}
+
+/**
+ * Telemetry sink that records each event as an OpenTelemetry span.
+ *
+ * @remarks
+ * Spans are named after the event, like `botframework.outboundSend sendToConversation`, and
+ * carry the correlation ID, channel ID, conversation ID and status code as attributes.
+ *
+ * ```JavaScript
+ * const { trace } = require('@opentelemetry/api');
+ *
+ * const adapter = new BotFrameworkAdapter({
+ *     appId: process.env.MICROSOFT_APP_ID,
+ *     appPassword: process.env.MICROSOFT_APP_PASSWORD,
+ *     telemetry: new OpenTelemetrySink(trace.getTracer('my-bot'))
+ * });
+ * ```
+ */
+export class OpenTelemetrySink implements AdapterTelemetrySink {
+    private readonly tracer: OpenTelemetryTracer;
+
+    /**
+     * Creates a new OpenTelemetrySink instance.
+     * @param tracer OpenTelemetry tracer used to create spans.
+     */
+    constructor(tracer: OpenTelemetryTracer) {
+        if (!tracer) { throw new Error(`OpenTelemetrySink: missing tracer.`); }
+        this.tracer = tracer;
+    }
+
+    /**
+     * Records an event as a span.
+     * @param event Event to record.
+     */
+    public trackEvent(event: AdapterTelemetryEvent): void {
+        const attributes: { [key: string]: any } = { 'botframework.correlation_id': event.correlationId };
+        if (event.channelId) { attributes['botframework.channel_id'] = event.channelId; }
+        if (event.conversationId) { attributes['botframework.conversation_id'] = event.conversationId; }
+        if (event.statusCode !== undefined) { attributes['http.status_code'] = event.statusCode; }
+
+        const span: OpenTelemetrySpan = this.tracer.startSpan(`botframework.${ event.type } ${ event.name }`, {
+            kind: event.type === 'inboundTurn' || event.type === 'authFailure' ? SPAN_KIND_SERVER : SPAN_KIND_CLIENT,
+            startTime: event.timestamp,
+            attributes: attributes
+        });
+        if (event.success) {
+            span.setStatus({ code: SPAN_STATUS_OK });
+        } else {
+            span.setStatus({ code: SPAN_STATUS_ERROR, message: event.error ? String(event.error.message || event.error) : undefined });
+        }
+        span.end(new Date(event.timestamp.getTime() + event.duration));
+    }
+}
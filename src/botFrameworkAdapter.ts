@@ -6,10 +6,22 @@
  * Licensed under the MIT License.
  */
 
-import { Activity, ActivityTypes, BotAdapter, ChannelAccount, ConversationAccount, ConversationParameters, ConversationReference, ConversationsResult, ResourceResponse, TurnContext } from 'botbuilder-core';
-import { ChannelValidation, ConnectorClient, EmulatorApiClient, GovernmentConstants, JwtTokenValidation, MicrosoftAppCredentials, SimpleCredentialProvider, TokenApiClient, TokenApiModels } from 'botframework-connector';
+import { Activity, ActivityTypes, BotAdapter, ChannelAccount, ConnectorClientOptions, ConversationAccount, ConversationParameters, ConversationReference, ConversationsGetConversationPagedMembersOptionalParams, ConversationsResult, PagedMembersResult, ResourceResponse, TurnContext } from 'botbuilder-core';
+import { ChannelValidation, ClaimsIdentity, ConnectorClient, EmulatorApiClient, GovernmentConstants, ICredentialProvider, JwtTokenValidation, MicrosoftAppCredentials, SimpleCredentialProvider, TokenApiClient, TokenApiModels } from 'botframework-connector';
+import * as crypto from 'crypto';
+import { HttpClient } from 'ms-rest-js';
 import * as os from 'os';
-
+import { URL } from 'url';
+import { ActivityDeduplicationSettings, DeduplicationStore, MemoryDeduplicationStore } from './activityDeduplication';
+import { ActivityValidationSettings, ActivityValidator } from './activityValidator';
+import { AdapterTelemetryEventType, AdapterTelemetrySink } from './adapterTelemetry';
+import { ConnectorClientPool, ConnectorClientPoolSettings } from './connectorClientPool';
+import { ConversationReferenceFilter, ConversationReferenceMiddleware, ConversationReferenceStore } from './conversationReferenceStore';
+import { ActivityParseError, ActivityTimestampError, AuthenticationError, BotFrameworkAdapterError, BotLogicError, InvokeNotHandledError, UntrustedServiceUrlError } from './errors';
+import { OfflineConnector } from './offlineConnector';
+import { RetryPolicy, RetryPolicySettings } from './retryPolicy';
+import { JobStore, ScheduledJob, ScheduledJobHandler, Scheduler } from './scheduler';
+import { SendQueue, SendQueueSettings } from './sendQueue';
 
 /**
  * Express or Restify Request object.
@@ -29,6 +41,37 @@ export interface WebResponse {
     status(status: number): any;
 }
 
+/**
+ * Logger used by a `BotFrameworkAdapter` to report problems.
+ *
+ * @remarks
+ * The global `console` object can be used as a logger.
+ */
+export interface BotFrameworkAdapterLogger {
+    warn(message?: any, ...optionalParams: any[]): void;
+    error(message?: any, ...optionalParams: any[]): void;
+}
+
+/**
+ * Response returned to the caller when `processActivity()` fails.
+ */
+export interface TurnErrorResponse {
+    /**
+     * (Optional) status code to return. Defaults to the `statusCode` of the error.
+     */
+    status?: number;
+
+    /**
+     * (Optional) body to return. Defaults to an object containing the name and message of the error.
+     */
+    body?: any;
+
+    /**
+     * (Optional) if `false` the error won't be rethrown by `processActivity()`. Defaults to `true`.
+     */
+    rethrow?: boolean;
+}
+
 /**
  * Settings used to configure a `BotFrameworkAdapter` instance.
  */
@@ -54,6 +97,150 @@ export interface BotFrameworkAdapterSettings {
      * (Optional) The channel service option for this bot to validate connections from Azure or other channel locations
      */
     channelService?: string;
+    /**
+     * (Optional) policy used to retry connector calls that fail with a `429` or `5xx` status code.
+     * Failed calls aren't retried unless a policy is provided.
+     */
+    retryPolicy?: RetryPolicySettings;
+    /**
+     * (Optional) outbound queue settings used to pace the activities sent to each conversation.
+     * Activities are sent as fast as the connector allows unless a queue is configured.
+     */
+    sendQueue?: SendQueueSettings;
+    /**
+     * (Optional) logger used to report errors. Defaults to `console`.
+     */
+    logger?: BotFrameworkAdapterLogger;
+    /**
+     * (Optional) handler called when `processActivity()` fails. It can change the status code and
+     * body returned to the caller and decide whether the error should be rethrown.
+     */
+    onTurnErrorResponse?(error: BotFrameworkAdapterError, request?: Partial<Activity>): TurnErrorResponse | Promise<TurnErrorResponse>;
+    /**
+     * (Optional) sink that receives an event for every inbound turn, outbound send, connector and
+     * token service call, and authentication failure.
+     */
+    telemetry?: AdapterTelemetrySink;
+    /**
+     * (Optional) in-process fake that receives all connector and token service calls instead of
+     * the network. Intended for unit tests.
+     */
+    offlineConnector?: OfflineConnector;
+    /**
+     * (Optional) settings used to check outbound messages against the capabilities of the channel
+     * they're sent to. Activities are sent as is unless this is configured.
+     */
+    activityValidation?: ActivityValidationSettings;
+    /**
+     * (Optional) store the reference of every incoming conversation is saved to. Required by
+     * `broadcast()`.
+     */
+    conversationReferenceStore?: ConversationReferenceStore;
+    /**
+     * (Optional) maximum number of conversations `broadcast()` continues at the same time.
+     * Defaults to `10`.
+     */
+    broadcastConcurrency?: number;
+    /**
+     * (Optional) store the jobs created by `schedule()` are saved to. Defaults to a `MemoryJobStore`.
+     */
+    jobStore?: JobStore;
+    /**
+     * (Optional) provider used to look up the credentials of every bot registration served by the
+     * adapter, like a `MultiTenantCredentialProvider`. When set, `appId` and `appPassword` are only
+     * used for calls that can't be tied to one of the provider's registrations.
+     */
+    credentialProvider?: ICredentialProvider;
+    /**
+     * (Optional) settings of the pool connector and token service clients are kept in. A new
+     * client is created for every call unless a pool is configured.
+     */
+    clientPool?: ConnectorClientPoolSettings;
+    /**
+     * (Optional) hosts the adapter is allowed to call, like `*.botframework.com` or
+     * `http://localhost:3978`. A `*` matches any run of characters other than a dot and a host
+     * without a port matches any port. Only `https:` URLs are trusted, unless the pattern is
+     * written as an `http://` URL. The path of patterns written as URLs is ignored. Calls to other
+     * hosts fail with an `UntrustedServiceUrlError` before any token is sent.
+     * Every host is trusted unless a list is provided.
+     */
+    trustedServiceUrls?: string[];
+    /**
+     * (Optional) settings used to skip activities the bot already processed, like deliveries the
+     * channel retried. Activities are processed every time they're received unless this is configured.
+     */
+    deduplication?: ActivityDeduplicationSettings;
+    /**
+     * (Optional) maximum number of milliseconds between the timestamp of a received activity and
+     * the current time. Activities outside that window, or without a timestamp, are rejected with
+     * an `ActivityTimestampError`. Timestamps aren't checked unless this is configured.
+     */
+    maxClockSkew?: number;
+    /**
+     * (Optional) maximum number of members `deleteConversationMembers()` removes at the same time.
+     * Defaults to `10`.
+     */
+    memberConcurrency?: number;
+}
+
+/**
+ * Outcome of a call to `BotFrameworkAdapter.broadcast()`.
+ */
+export interface BroadcastResult {
+    /**
+     * Number of conversations that matched the filter.
+     */
+    count: number;
+
+    /**
+     * Conversations for which the bot's logic, or sending, failed.
+     */
+    failures: { reference: Partial<ConversationReference>; error: any }[];
+}
+
+/**
+ * Member a bulk member operation failed for.
+ */
+export interface ConversationMemberFailure {
+    /**
+     * ID of the member.
+     */
+    memberId: string;
+
+    /**
+     * Error the operation failed with.
+     */
+    error: any;
+}
+
+/**
+ * Outcome of a call to `BotFrameworkAdapter.deleteConversationMembers()`.
+ */
+export interface DeleteConversationMembersResult {
+    /**
+     * Number of members that were removed.
+     */
+    count: number;
+
+    /**
+     * Members that couldn't be removed.
+     */
+    failures: ConversationMemberFailure[];
+}
+
+/**
+ * Outcome of a call to `BotFrameworkAdapter.resolveConversationMembers()`.
+ */
+export interface ResolveConversationMembersResult {
+    /**
+     * Accounts of the members that were found, in the order their IDs were passed.
+     */
+    members: ChannelAccount[];
+
+    /**
+     * Members that couldn't be found or looked up.
+     */
+    failures: ConversationMemberFailure[];
 }
 
 /**
@@ -84,6 +271,12 @@ const USER_AGENT: string = `Microsoft-BotFramework/3.1 BotBuilder/${pjson.versio
 const OAUTH_ENDPOINT: string = 'https://api.botframework.com';
 const US_GOV_OAUTH_ENDPOINT: string = 'https://api.botframework.azure.us';
 const INVOKE_RESPONSE_KEY: symbol = Symbol('invokeResponse');
+const CORRELATION_ID_KEY: symbol = Symbol('correlationId');
+const APP_ID_KEY: symbol = Symbol('appId');
+
+// Claims that can hold the app id of the bot a request was sent to. Channels use the audience
+// and the emulator uses the app id (v1 tokens) or authorized party (v2 tokens).
+const APP_ID_CLAIMS: string[] = ['aud', 'appid', 'azp'];
 
 /**
  * A BotAdapter class that connects your bot to Bot Framework channels and the Emulator.
@@ -106,10 +299,29 @@ const INVOKE_RESPONSE_KEY: symbol = Symbol('invokeResponse');
  * ```
  */
 export class BotFrameworkAdapter extends BotAdapter {
+    /**
+     * Scheduler used to run the jobs created by [schedule()](#schedule). Use it to register job
+     * handlers, list and cancel jobs.
+     */
+    public readonly scheduler: Scheduler;
+
+    /**
+     * Pool the connector and token service clients are kept in, if the `clientPool` setting was
+     * provided. Use it to read the pool counters or to clear the pool.
+     */
+    public readonly clientPool: ConnectorClientPool;
     protected readonly credentials: MicrosoftAppCredentials;
-    protected readonly credentialsProvider: SimpleCredentialProvider;
+    protected readonly credentialsProvider: ICredentialProvider;
     protected readonly settings: BotFrameworkAdapterSettings;
+    protected readonly retryPolicy: RetryPolicy;
+    protected readonly sendQueue: SendQueue;
+    protected readonly logger: BotFrameworkAdapterLogger;
+    protected readonly telemetry: AdapterTelemetrySink;
+    protected readonly activityValidator: ActivityValidator;
+    protected readonly deduplicationStore: DeduplicationStore;
     private isEmulatingOAuthCards: boolean;
+    private readonly appCredentials: Map<string, MicrosoftAppCredentials> = new Map<string, MicrosoftAppCredentials>();
+    private readonly trustedHosts: TrustedHostPattern[];
 
     /**
      * Creates a new BotFrameworkAdapter instance.
@@ -122,7 +334,23 @@ export class BotFrameworkAdapter extends BotAdapter {
      *      "appPassword": "Password assigned to your bot in the [Bot Framework Portal](https://dev.botframework.com/).",
      *      "openIdMetadata": "The Open ID Metadata Endpoint for your bot to use.",
      *      "oAuthEndpoint": "The OAuth API Endpoint for your bot to use.",
-     *      "channelService": "(Optional) The channel service option for this bot to validate connections from Azure or other channel locations"
+     *      "channelService": "(Optional) The channel service option for this bot to validate connections from Azure or other channel locations",
+     *      "retryPolicy": "(Optional) The policy used to retry throttled or failed connector calls.",
+     *      "sendQueue": "(Optional) The outbound queue settings used to pace sends to each conversation.",
+     *      "logger": "(Optional) The logger used to report errors. Defaults to `console`.",
+     *      "onTurnErrorResponse": "(Optional) A handler that decides what's returned to the caller when processActivity() fails.",
+     *      "telemetry": "(Optional) A sink that receives an event for every inbound turn and connector call.",
+     *      "offlineConnector": "(Optional) An in-process fake that receives all connector and token calls. Intended for unit tests.",
+     *      "activityValidation": "(Optional) The settings used to validate and normalize outbound messages for each channel.",
+     *      "conversationReferenceStore": "(Optional) The store the reference of every incoming conversation is saved to.",
+     *      "broadcastConcurrency": "(Optional) The maximum number of conversations broadcast() continues at once. Defaults to 10.",
+     *      "jobStore": "(Optional) The store jobs created by schedule() are saved to. Defaults to memory.",
+     *      "credentialProvider": "(Optional) The provider used to look up the credentials of each bot registration served by the adapter.",
+     *      "clientPool": "(Optional) The settings of the pool connector and token clients are reused from.",
+     *      "trustedServiceUrls": "(Optional) The host patterns, like `*.botframework.com`, the adapter is allowed to call.",
+     *      "deduplication": "(Optional) The settings used to skip activities that were already processed.",
+     *      "maxClockSkew": "(Optional) The maximum number of milliseconds between an activity's timestamp and the current time.",
+     *      "memberConcurrency": "(Optional) The maximum number of members deleteConversationMembers() removes at once. Defaults to 10."
      *  }
      * ```
      * @param settings (optional) configuration settings for the adapter.
@@ -131,14 +359,48 @@ export class BotFrameworkAdapter extends BotAdapter {
         super();
         this.settings = { appId: '', appPassword: '', ...settings };
         this.credentials = new MicrosoftAppCredentials(this.settings.appId, this.settings.appPassword || '');
-        this.credentialsProvider = new SimpleCredentialProvider(this.credentials.appId, this.credentials.appPassword);
+        this.credentialsProvider = this.settings.credentialProvider ||
+            new SimpleCredentialProvider(this.credentials.appId, this.credentials.appPassword);
+        this.retryPolicy = new RetryPolicy(this.settings.retryPolicy || { maxAttempts: 1 });
+        if (this.settings.sendQueue) {
+            this.sendQueue = new SendQueue(this.settings.sendQueue);
+        }
+        this.logger = this.settings.logger || console;
+        this.telemetry = this.settings.telemetry;
+        if (this.settings.activityValidation) {
+            this.activityValidator = new ActivityValidator(this.settings.activityValidation);
+        }
+        if (this.settings.conversationReferenceStore) {
+            this.use(new ConversationReferenceMiddleware(this.settings.conversationReferenceStore));
+        }
+        if (this.settings.deduplication) {
+            const ttl: number = this.settings.deduplication.ttl;
+            if (ttl !== undefined && (typeof ttl !== 'number' || !(ttl > 0))) {
+                throw new Error(`BotFrameworkAdapter: deduplication.ttl must be a positive number.`);
+            }
+            this.deduplicationStore = this.settings.deduplication.store || new MemoryDeduplicationStore();
+        }
+        const maxClockSkew: number = this.settings.maxClockSkew;
+        if (maxClockSkew !== undefined && (typeof maxClockSkew !== 'number' || !(maxClockSkew >= 0))) {
+            throw new Error(`BotFrameworkAdapter: maxClockSkew must be a non-negative number.`);
+        }
+        this.scheduler = new Scheduler(this, { jobStore: this.settings.jobStore, logger: this.logger });
+        if (this.settings.clientPool && !this.settings.offlineConnector) {
+            this.clientPool = new ConnectorClientPool({ logger: this.logger, ...this.settings.clientPool });
+        }
         this.isEmulatingOAuthCards = false;
         if (this.settings.openIdMetadata) {
             ChannelValidation.OpenIdMetadataEndpoint = this.settings.openIdMetadata;
         }
-        if (JwtTokenValidation.isGovernment(this.settings.channelService)) {
-            this.credentials.oAuthEndpoint = GovernmentConstants.ToChannelFromBotLoginUrl;
-            this.credentials.oAuthScope = GovernmentConstants.ToChannelFromBotOAuthScope;
+        this.configureCredentials(this.credentials);
+        if (this.settings.trustedServiceUrls) {
+            if (!Array.isArray(this.settings.trustedServiceUrls)) {
+                throw new Error(`BotFrameworkAdapter: trustedServiceUrls must be an array of host patterns.`);
+            }
+            this.trustedHosts = this.settings.trustedServiceUrls.map(parseHostPattern);
+        }
+        if (this.clientPool && this.settings.clientPool.prefetchToken) {
+            this.clientPool.prefetchToken(this.credentials);
         }
     }
 
@@ -180,12 +442,14 @@ export class BotFrameworkAdapter extends BotAdapter {
      * @param logic A function handler that will be called to perform the bots logic after the the adapters middleware has been run.
      */
     public async continueConversation(reference: Partial<ConversationReference>, logic: (context: TurnContext) => Promise<void>): Promise<void> {
+        this.checkServiceUrl(reference.serviceUrl, 'continueConversation');
         const request: Partial<Activity> = TurnContext.applyConversationReference(
             { type: 'event', name: 'continueConversation' },
             reference,
             true
         );
         const context: TurnContext = this.createContext(request);
+        context.turnState.set(APP_ID_KEY, await this.findAppId(reference.bot));
 
         await this.runMiddleware(context, logic as any);
     }
@@ -226,9 +490,13 @@ export class BotFrameworkAdapter extends BotAdapter {
         if (!reference.serviceUrl) { throw new Error(`BotFrameworkAdapter.createConversation(): missing serviceUrl.`); }
 
         // Create conversation
+        const correlationId: string = createCorrelationId();
         const parameters: ConversationParameters = { bot: reference.bot, members: [reference.user] } as ConversationParameters;
-        const client: ConnectorClient = this.createConnectorClient(reference.serviceUrl);
-        const response = await client.conversations.createConversation(parameters);
+        const appId: string = await this.findAppId(reference.bot);
+        const client: ConnectorClient = this.createConnectorClient(reference.serviceUrl, appId);
+        const response = await this.trackCall('connectorCall', 'createConversation', correlationId, reference, () =>
+            this.retryPolicy.execute(() => client.conversations.createConversation(parameters), false)
+        );
 
         // Initialize request and copy over new conversation ID and updated serviceUrl.
         const request: Partial<Activity> = TurnContext.applyConversationReference(
@@ -241,9 +509,75 @@ export class BotFrameworkAdapter extends BotAdapter {
 
         // Create context and run middleware
         const context: TurnContext = this.createContext(request);
+        context.turnState.set(CORRELATION_ID_KEY, correlationId);
+        context.turnState.set(APP_ID_KEY, appId);
         await this.runMiddleware(context, logic as any);
     }
 
+    /**
+     * Proactively continues every stored conversation matching a filter.
+     *
+     * @remarks
+     * References are read from the `conversationReferenceStore` passed to the adapter, which saves
+     * the reference of every incoming conversation. [continueConversation()](#continueconversation)
+     * is called for each matching reference, with at most `broadcastConcurrency` conversations in
+     * flight at once. A failure in one conversation doesn't stop the others and is reported in the
+     * returned result.
+     *
+     * ```JavaScript
+     * const result = await adapter.broadcast((reference) => reference.channelId === 'msteams', async (context) => {
+     *     await context.sendActivity(`The service will be down for maintenance tonight.`);
+     * });
+     * console.log(`notified ${ result.count - result.failures.length } of ${ result.count } conversations.`);
+     * ```
+     * @param filter Predicate used to select references, or `undefined` to continue every stored conversation.
+     * @param logic A function handler that will be called to perform the bots logic for each conversation.
+     */
+    public async broadcast(filter: ConversationReferenceFilter, logic: (context: TurnContext) => Promise<void>): Promise<BroadcastResult> {
+        if (!this.settings.conversationReferenceStore) {
+            throw new Error(`BotFrameworkAdapter.broadcast(): missing conversationReferenceStore`);
+        }
+        const references: Partial<ConversationReference>[] = await this.settings.conversationReferenceStore.findReferences(filter);
+        const results = await forEachConcurrent(references, this.settings.broadcastConcurrency || 10, (reference: Partial<ConversationReference>) =>
+            this.continueConversation(reference, logic)
+        );
+        const failures: { reference: Partial<ConversationReference>; error: any }[] = [];
+        results.forEach((result: { error?: any }, i: number) => {
+            if (result.error) { failures.push({ reference: references[i], error: result.error }); }
+        });
+
+        return { count: references.length, failures: failures };
+    }
+
+    /**
+     * Schedules a proactive job that continues a conversation at a future time or on a recurrence.
+     *
+     * @remarks
+     * `when` can be a `Date`, a delay in milliseconds, or a 5 field cron expression like
+     * `0 9 * * 1-5` for recurring jobs. Jobs are saved to the `jobStore` passed to the adapter.
+     * Only jobs using a handler name registered with `adapter.scheduler.registerHandler()` can run
+     * again after a restart; call `adapter.scheduler.start()` at startup to pick them up.
+     *
+     * ```JavaScript
+     * const reference = TurnContext.getConversationReference(context.activity);
+     * await adapter.schedule(reference, 24 * 60 * 60 * 1000, async (ctx) => {
+     *    await ctx.sendActivity(`How did it go yesterday?`);
+     * });
+     * ```
+     * @param reference A `ConversationReference` saved during a previous incoming activity.
+     * @param when Time the job runs, delay in milliseconds or cron expression.
+     * @param logic Name of a registered job handler or a function handler that performs the bots logic.
+     * @param data (Optional) data saved with the job and passed to its handler.
+     */
+    public schedule(
+        reference: Partial<ConversationReference>,
+        when: Date | number | string,
+        logic: string | ScheduledJobHandler,
+        data?: any
+    ): Promise<ScheduledJob> {
+        return this.scheduler.schedule(reference, when, logic, data);
+    }
+
     /**
      * Deletes an activity that was previously sent to a channel.
      *
@@ -262,60 +596,89 @@ export class BotFrameworkAdapter extends BotAdapter {
             throw new Error(`BotFrameworkAdapter.deleteActivity(): missing conversation or conversation.id`);
         }
         if (!reference.activityId) { throw new Error(`BotFrameworkAdapter.deleteActivity(): missing activityId`); }
-        const client: ConnectorClient = this.createConnectorClient(reference.serviceUrl);
-        await client.conversations.deleteActivity(reference.conversation.id, reference.activityId);
+        const client: ConnectorClient = this.createConnectorClient(reference.serviceUrl, this.getTurnAppId(context));
+        await this.trackCall('connectorCall', 'deleteActivity', this.getCorrelationId(context), reference, () =>
+            this.retryPolicy.execute(() => client.conversations.deleteActivity(reference.conversation.id, reference.activityId))
+        );
     }
 
     /**
-     * Deletes a member from the current conversation.
+     * Deletes a member from a conversation.
      *
      * @remarks
      * Remove a member's identity information from the conversation.
      *
+     * A `ConversationReference` can be passed instead of a context to remove members outside of a
+     * turn, like from a scheduled job.
+     *
      * Note that this method does not apply to all channels.
-     * @param context Context for the current turn of conversation with the user.
+     * @param contextOrReference Context for the current turn of conversation with the user, or reference of the conversation.
      * @param memberId ID of the member to delete from the conversation.
      */
-    public async deleteConversationMember(context: TurnContext, memberId: string): Promise<void> {
-        if (!context.activity.serviceUrl) { throw new Error(`BotFrameworkAdapter.deleteConversationMember(): missing serviceUrl`); }
-        if (!context.activity.conversation || !context.activity.conversation.id) {
-            throw new Error(`BotFrameworkAdapter.deleteConversationMember(): missing conversation or conversation.id`);
-        }
-        const serviceUrl: string = context.activity.serviceUrl;
-        const conversationId: string = context.activity.conversation.id;
-        const client: ConnectorClient = this.createConnectorClient(serviceUrl);
-        await client.conversations.deleteConversationMember(conversationId, memberId);
+    public async deleteConversationMember(contextOrReference: TurnContext | Partial<ConversationReference>, memberId: string): Promise<void> {
+        const target: ConversationTarget = await this.getConversationTarget(contextOrReference, 'deleteConversationMember');
+        await this.trackCall('connectorCall', 'deleteConversationMember', target.correlationId, target.address, () =>
+            this.retryPolicy.execute(() => target.client.conversations.deleteConversationMember(target.conversationId, memberId))
+        );
     }
 
     /**
-     * Lists the members of a given activity as specified in a TurnContext.
+     * Deletes several members from a conversation.
+     *
+     * @remarks
+     * At most `memberConcurrency` members are removed at once. A failure for one member doesn't
+     * stop the others and is reported in the returned result.
+     *
+     * ```JavaScript
+     * const result = await adapter.deleteConversationMembers(reference, ['29:user1', '29:user2']);
+     * result.failures.forEach((failure) => console.warn(`couldn't remove ${ failure.memberId }: ${ failure.error }`));
+     * ```
+     * @param contextOrReference Context for the current turn of conversation with the user, or reference of the conversation.
+     * @param memberIds IDs of the members to delete from the conversation.
+     */
+    public async deleteConversationMembers(
+        contextOrReference: TurnContext | Partial<ConversationReference>,
+        memberIds: string[]
+    ): Promise<DeleteConversationMembersResult> {
+        const target: ConversationTarget = await this.getConversationTarget(contextOrReference, 'deleteConversationMembers');
+        const results = await forEachConcurrent(memberIds, this.settings.memberConcurrency || 10, (memberId: string) =>
+            this.trackCall('connectorCall', 'deleteConversationMember', target.correlationId, target.address, () =>
+                this.retryPolicy.execute(() => target.client.conversations.deleteConversationMember(target.conversationId, memberId))
+            )
+        );
+        const failures: ConversationMemberFailure[] = [];
+        results.forEach((result: { error?: any }, i: number) => {
+            if (result.error) { failures.push({ memberId: memberIds[i], error: result.error }); }
+        });
+
+        return { count: memberIds.length - failures.length, failures: failures };
+    }
+
+    /**
+     * Lists the members of a given activity.
      *
      * @remarks
      * Returns an array of ChannelAccount objects representing the users involved in a given activity.
      *
      * This is different from `getConversationMembers()` in that it will return only those users
      * directly involved in the activity, not all members of the conversation.
-     * @param context Context for the current turn of conversation with the user.
-     * @param activityId (Optional) activity ID to enumerate. If not specified the current activities ID will be used.
+     * @param contextOrReference Context for the current turn of conversation with the user, or reference of the conversation.
+     * @param activityId (Optional) activity ID to enumerate. If not specified the ID of the current activity, or the `activityId` of the reference, will be used.
      */
-    public async getActivityMembers(context: TurnContext, activityId?: string): Promise<ChannelAccount[]> {
-        if (!activityId) { activityId = context.activity.id; }
-        if (!context.activity.serviceUrl) { throw new Error(`BotFrameworkAdapter.getActivityMembers(): missing serviceUrl`); }
-        if (!context.activity.conversation || !context.activity.conversation.id) {
-            throw new Error(`BotFrameworkAdapter.getActivityMembers(): missing conversation or conversation.id`);
-        }
+    public async getActivityMembers(contextOrReference: TurnContext | Partial<ConversationReference>, activityId?: string): Promise<ChannelAccount[]> {
+        const target: ConversationTarget = await this.getConversationTarget(contextOrReference, 'getActivityMembers');
+        if (!activityId) { activityId = target.activityId; }
         if (!activityId) {
             throw new Error(`BotFrameworkAdapter.getActivityMembers(): missing both activityId and context.activity.id`);
         }
-        const serviceUrl: string = context.activity.serviceUrl;
-        const conversationId: string = context.activity.conversation.id;
-        const client: ConnectorClient = this.createConnectorClient(serviceUrl);
 
-        return await client.conversations.getActivityMembers(conversationId, activityId);
+        return await this.trackCall('connectorCall', 'getActivityMembers', target.correlationId, target.address, () =>
+            target.client.conversations.getActivityMembers(target.conversationId, activityId)
+        );
     }
 
     /**
-     * Lists the members of the current conversation as specified in a TurnContext.
+     * Lists the members of a conversation.
      *
      * @remarks
      * Returns an array of ChannelAccount objects representing the users currently involved in the conversation
@@ -323,18 +686,93 @@ export class BotFrameworkAdapter extends BotAdapter {
      *
      * This is different from `getActivityMembers()` in that it will return all
      * members of the conversation, not just those directly involved in the activity.
-     * @param context Context for the current turn of conversation with the user.
+     *
+     * Large group chats should be listed with [getConversationPagedMembers()](#getconversationpagedmembers).
+     * @param contextOrReference Context for the current turn of conversation with the user, or reference of the conversation.
      */
-    public async getConversationMembers(context: TurnContext): Promise<ChannelAccount[]> {
-        if (!context.activity.serviceUrl) { throw new Error(`BotFrameworkAdapter.getConversationMembers(): missing serviceUrl`); }
-        if (!context.activity.conversation || !context.activity.conversation.id) {
-            throw new Error(`BotFrameworkAdapter.getConversationMembers(): missing conversation or conversation.id`);
-        }
-        const serviceUrl: string = context.activity.serviceUrl;
-        const conversationId: string = context.activity.conversation.id;
-        const client: ConnectorClient = this.createConnectorClient(serviceUrl);
+    public async getConversationMembers(contextOrReference: TurnContext | Partial<ConversationReference>): Promise<ChannelAccount[]> {
+        const target: ConversationTarget = await this.getConversationTarget(contextOrReference, 'getConversationMembers');
 
-        return await client.conversations.getConversationMembers(conversationId);
+        return await this.trackCall('connectorCall', 'getConversationMembers', target.correlationId, target.address, () =>
+            target.client.conversations.getConversationMembers(target.conversationId)
+        );
+    }
+
+    /**
+     * Lists the members of a conversation one page at a time.
+     *
+     * @remarks
+     * Each page includes a `continuationToken` that can be used to fetch the next page. The token
+     * is missing from the last page.
+     *
+     * ```JavaScript
+     * let continuationToken;
+     * do {
+     *     const page = await adapter.getConversationPagedMembers(reference, 100, continuationToken);
+     *     page.members.forEach((member) => console.log(member.name));
+     *     continuationToken = page.continuationToken;
+     * } while (continuationToken);
+     * ```
+     * @param contextOrReference Context for the current turn of conversation with the user, or reference of the conversation.
+     * @param pageSize (Optional) suggested number of members per page. Defaults to the channel's page size.
+     * @param continuationToken (Optional) token used to fetch the next page. This should be left as `undefined` to retrieve the first page.
+     */
+    public async getConversationPagedMembers(
+        contextOrReference: TurnContext | Partial<ConversationReference>,
+        pageSize?: number,
+        continuationToken?: string
+    ): Promise<PagedMembersResult> {
+        const target: ConversationTarget = await this.getConversationTarget(contextOrReference, 'getConversationPagedMembers');
+
+        return await this.getMembersPage(target, pageSize, continuationToken);
+    }
+
+    /**
+     * Looks up the accounts of several members of a conversation.
+     *
+     * @remarks
+     * The members of the conversation are listed page by page until every ID is found. IDs that
+     * aren't members of the conversation are reported in the returned result. If listing a page
+     * fails, the IDs that weren't found yet are reported with that error.
+     * @param contextOrReference Context for the current turn of conversation with the user, or reference of the conversation.
+     * @param memberIds IDs of the members to look up.
+     */
+    public async resolveConversationMembers(
+        contextOrReference: TurnContext | Partial<ConversationReference>,
+        memberIds: string[]
+    ): Promise<ResolveConversationMembersResult> {
+        const target: ConversationTarget = await this.getConversationTarget(contextOrReference, 'resolveConversationMembers');
+        const found: Map<string, ChannelAccount> = new Map<string, ChannelAccount>();
+        const pending: Set<string> = new Set<string>(memberIds);
+        let error: any;
+        let continuationToken: string;
+        do {
+            let page: PagedMembersResult;
+            try {
+                page = await this.getMembersPage(target, undefined, continuationToken);
+            } catch (err) {
+                error = err;
+                break;
+            }
+            (page.members || []).forEach((member: ChannelAccount) => {
+                if (pending.delete(member.id)) { found.set(member.id, member); }
+            });
+            continuationToken = page.continuationToken;
+        } while (continuationToken && pending.size > 0);
+
+        const result: ResolveConversationMembersResult = { members: [], failures: [] };
+        memberIds.forEach((memberId: string) => {
+            if (found.has(memberId)) {
+                result.members.push(found.get(memberId));
+            } else {
+                result.failures.push({
+                    memberId: memberId,
+                    error: error || new Error(`BotFrameworkAdapter.resolveConversationMembers(): '${ memberId }' is not a member of the conversation`)
+                });
+            }
+        });
+
+        return result;
     }
 
     /**
@@ -347,10 +785,13 @@ export class BotFrameworkAdapter extends BotAdapter {
      * @param continuationToken (Optional) token used to fetch the next page of results from the channel server. This should be left as `undefined` to retrieve the first page of results.
      */
     public async getConversations(contextOrServiceUrl: TurnContext | string, continuationToken?: string): Promise<ConversationsResult> {
-        const url: string = typeof contextOrServiceUrl === 'object' ? contextOrServiceUrl.activity.serviceUrl : contextOrServiceUrl;
-        const client: ConnectorClient = this.createConnectorClient(url);
+        const context: TurnContext = typeof contextOrServiceUrl === 'object' ? contextOrServiceUrl : undefined;
+        const url: string = context ? context.activity.serviceUrl : contextOrServiceUrl as string;
+        const client: ConnectorClient = this.createConnectorClient(url, this.getTurnAppId(context));
 
-        return await client.conversations.getConversations(continuationToken ? { continuationToken: continuationToken } : undefined);
+        return await this.trackCall('connectorCall', 'getConversations', this.getCorrelationId(context), {}, () =>
+            client.conversations.getConversations(continuationToken ? { continuationToken: continuationToken } : undefined)
+        );
     }
 
     /**
@@ -366,9 +807,11 @@ export class BotFrameworkAdapter extends BotAdapter {
         this.checkEmulatingOAuthCards(context);
         const userId: string = context.activity.from.id;
         const url: string = this.oauthApiUrl(context);
-        const client: TokenApiClient = this.createTokenApiClient(url);
+        const client: TokenApiClient = this.createTokenApiClient(url, this.getTurnAppId(context));
 
-        const result: TokenApiModels.UserTokenGetTokenResponse = await client.userToken.getToken(userId, connectionName, { code: magicCode });
+        const result: TokenApiModels.UserTokenGetTokenResponse = await this.trackCall('tokenApiCall', 'getToken', this.getCorrelationId(context), context.activity, () =>
+            client.userToken.getToken(userId, connectionName, { code: magicCode })
+        );
         if (!result || !result.token || result._response.status == 404) {
             return undefined;
         } else {
@@ -388,8 +831,10 @@ export class BotFrameworkAdapter extends BotAdapter {
         this.checkEmulatingOAuthCards(context);
         const userId: string = context.activity.from.id;
         const url: string = this.oauthApiUrl(context);
-        const client: TokenApiClient = this.createTokenApiClient(url);
-        await client.userToken.signOut(userId, { connectionName: connectionName } );
+        const client: TokenApiClient = this.createTokenApiClient(url, this.getTurnAppId(context));
+        await this.trackCall('tokenApiCall', 'signOut', this.getCorrelationId(context), context.activity, () =>
+            client.userToken.signOut(userId, { connectionName: connectionName })
+        );
     }
 
     /**
@@ -401,7 +846,7 @@ export class BotFrameworkAdapter extends BotAdapter {
         this.checkEmulatingOAuthCards(context);
         const conversation: Partial<ConversationReference> = TurnContext.getConversationReference(context.activity);
         const url: string = this.oauthApiUrl(context);
-        const client: TokenApiClient = this.createTokenApiClient(url);
+        const client: TokenApiClient = this.createTokenApiClient(url, this.getTurnAppId(context));
         const state: any = {
             ConnectionName: connectionName,
             Conversation: conversation,
@@ -409,7 +854,9 @@ export class BotFrameworkAdapter extends BotAdapter {
         };
 
         const finalState: string = Buffer.from(JSON.stringify(state)).toString('base64');
-        return (await client.botSignIn.getSignInUrl(finalState, null))._response.bodyAsText;
+        return (await this.trackCall('tokenApiCall', 'getSignInUrl', this.getCorrelationId(context), context.activity, () =>
+            client.botSignIn.getSignInUrl(finalState, null)
+        ))._response.bodyAsText;
     }
 
     /**
@@ -426,9 +873,11 @@ export class BotFrameworkAdapter extends BotAdapter {
         this.checkEmulatingOAuthCards(context);
         const userId: string = context.activity.from.id;
         const url: string = this.oauthApiUrl(context);
-        const client: TokenApiClient = this.createTokenApiClient(url);
+        const client: TokenApiClient = this.createTokenApiClient(url, this.getTurnAppId(context));
 
-        return (await client.userToken.getAadTokens(userId, connectionName, { resourceUrls: resourceUrls }))._response.parsedBody;
+        return (await this.trackCall('tokenApiCall', 'getAadTokens', this.getCorrelationId(context), context.activity, () =>
+            client.userToken.getAadTokens(userId, connectionName, { resourceUrls: resourceUrls })
+        ))._response.parsedBody;
     }
 
     /**
@@ -439,7 +888,13 @@ export class BotFrameworkAdapter extends BotAdapter {
     public async emulateOAuthCards(contextOrServiceUrl: TurnContext | string, emulate: boolean): Promise<void> {
         this.isEmulatingOAuthCards = emulate;
         const url: string = this.oauthApiUrl(contextOrServiceUrl);
-        await EmulatorApiClient.emulateOAuthCards(this.credentials as MicrosoftAppCredentials,  url, emulate);
+        this.checkServiceUrl(url, 'emulateOAuthCards');
+        const context: TurnContext = typeof contextOrServiceUrl === 'object' ? contextOrServiceUrl : undefined;
+        await this.trackCall('tokenApiCall', 'emulateOAuthCards', this.getCorrelationId(context), context ? context.activity : {}, () =>
+            this.settings.offlineConnector ?
+                this.settings.offlineConnector.emulateOAuthCards(url, emulate) :
+                EmulatorApiClient.emulateOAuthCards(this.getAppCredentials(this.getTurnAppId(context)), url, emulate)
+        );
     }
 
     /**
@@ -460,6 +915,10 @@ export class BotFrameworkAdapter extends BotAdapter {
      *   will be rejected if the senders identity can't be verified.
      * - The activity will be parsed from the body of the incoming request. An error will be returned
      *   if the activity can't be parsed.
+     * - When `maxClockSkew` is configured, activities whose timestamp is too far from the current
+     *   time are rejected. When `deduplication` is configured, an activity that was already
+     *   processed is answered with a `200` status code without running any middleware. The key of
+     *   an activity whose turn fails is released so the channel can retry it.
      * - A `TurnContext` instance will be created for the received activity and wrapped with a
      *   [Revocable Proxy](https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Proxy/revocable).
      * - The context will be routed through any middleware registered with the adapter using
@@ -477,6 +936,11 @@ export class BotFrameworkAdapter extends BotAdapter {
      *   `revoked()` and any future calls to the context will result in a `TypeError: Cannot perform
      *   'set' on a proxy that has been revoked` being thrown.
      *
+     * If any of these steps fail, the request is answered with the status code of a matching
+     * `BotFrameworkAdapterError` (`ActivityParseError`, `AuthenticationError`, `ActivityTimestampError`,
+     * `BotLogicError` or `InvokeNotHandledError`) and that error is then thrown. The `onTurnErrorResponse` setting can be
+     * used to change what's returned to the caller and whether the error is thrown.
+     *
      * > [!TIP]
      * > Note: If you see the error `TypeError: Cannot perform 'set' on a proxy that has been revoked`
      * > appearing in your bot's console output, the likely cause is that an async function was used
@@ -500,47 +964,86 @@ export class BotFrameworkAdapter extends BotAdapter {
     public async processActivity(req: WebRequest, res: WebResponse, logic: (context: TurnContext) => Promise<any>): Promise<void> {
         let body: any;
         let status: number;
+        let request: Activity;
+        let error: BotFrameworkAdapterError;
+        let deduplicationKey: string;
+        let duplicate: boolean = false;
+        const start: Date = new Date();
+        const correlationId: string = createCorrelationId();
         try {
             // Parse body of request
-            status = 400;
-            const request = await parseRequest(req);
+            request = await parseRequest(req).catch((err: any) => { throw new ActivityParseError(err); });
 
-            // Authenticate the incoming request
-            status = 401;
+            // Authenticate the incoming request and find the bot registration it was sent to
             const authHeader: string = req.headers.authorization || req.headers.Authorization || '';
-            await this.authenticateRequest(request, authHeader);
-
-            // Process received activity
-            status = 500;
-            const context: TurnContext = this.createContext(request);
-            await this.runMiddleware(context, logic);
-
-            // Retrieve cached invoke response.
-            if (request.type === ActivityTypes.Invoke) {
-                const invokeResponse: any = context.turnState.get(INVOKE_RESPONSE_KEY);
-                if (invokeResponse && invokeResponse.value) {
-                    const value: InvokeResponse = invokeResponse.value;
-                    status = value.status;
-                    body = value.body;
+            const appId: string = await this.authenticateRequest(request, authHeader)
+                .then((identity: ClaimsIdentity | void) => this.findAppId(request.recipient, identity || undefined))
+                .catch((err: any) => { throw new AuthenticationError(err); });
+
+            // Reject stale activities and skip the ones already processed
+            this.checkTimestamp(request);
+            deduplicationKey = this.deduplicationStore ? getDeduplicationKey(request) : undefined;
+            duplicate = deduplicationKey ? !(await this.markProcessed(deduplicationKey)) : false;
+
+            if (duplicate) {
+                status = 200;
+            } else {
+                // Process received activity
+                const context: TurnContext = this.createContext(request);
+                context.turnState.set(CORRELATION_ID_KEY, correlationId);
+                context.turnState.set(APP_ID_KEY, appId);
+                await this.runMiddleware(context, logic).catch((err: any) => { throw new BotLogicError(err); });
+
+                // Retrieve cached invoke response.
+                if (request.type === ActivityTypes.Invoke) {
+                    const invokeResponse: any = context.turnState.get(INVOKE_RESPONSE_KEY);
+                    if (invokeResponse && invokeResponse.value) {
+                        const value: InvokeResponse = invokeResponse.value;
+                        status = value.status;
+                        body = value.body;
+                    } else {
+                        throw new InvokeNotHandledError();
+                    }
                 } else {
-                    status = 501;
+                    status = 200;
                 }
-            } else {
-                status = 200;
             }
         } catch (err) {
-            body = err.toString();
+            error = err instanceof BotFrameworkAdapterError ? err : new BotLogicError(err);
+        }
+
+        // Let the channel retry a failed turn
+        if (error && deduplicationKey && !duplicate) {
+            await this.deduplicationStore.delete(deduplicationKey).catch((err: any) => {
+                this.logger.error(`BotFrameworkAdapter.processActivity(): failed to release deduplication key '${ deduplicationKey }'.`, err);
+            });
         }
 
-        // Return status 
+        // Decide what to return for a failed request
+        let rethrow: boolean = false;
+        if (error) {
+            const response: TurnErrorResponse = await this.getTurnErrorResponse(error, request);
+            status = response.status;
+            body = response.body;
+            rethrow = response.rethrow;
+        }
+
+        // Return status
         res.status(status);
-        if (body) { res.send(body) }
+        if (body) { res.send(body); }
         res.end();
 
-        // Check for an error
-        if (status >= 400) {
-            console.warn(`BotFrameworkAdapter.processActivity(): ${status} ERROR - ${body.toString()}`);
-            throw new Error(body.toString());
+        // Report the turn and any error
+        this.trackEvent('inboundTurn', duplicate ? 'duplicateActivity' : 'processActivity', correlationId, request || {}, start, !error, status, error);
+        if (error instanceof AuthenticationError) {
+            this.trackEvent('authFailure', 'authenticateRequest', correlationId, request, start, false, status, error.innerError);
+        }
+        if (error) {
+            this.logger.warn(
+                `BotFrameworkAdapter.processActivity(): ${ error.statusCode } ERROR - ${ error.message }`,
+                error.innerError || ''
+            );
+            if (rethrow) { throw error; }
         }
     }
 
@@ -551,6 +1054,9 @@ export class BotFrameworkAdapter extends BotAdapter {
      * The activities will be sent one after another in the order in which they're received. A response object will be returned for each
      * sent activity. For `message` activities this will contain the id of the delivered message.
      *
+     * When `activityValidation` is configured, messages are first checked against the channel's profile. A message
+     * that had to be split is still answered by a single response object, the one for its last part.
+     *
      * Instead of calling these methods directly on the adapter, calling `TurnContext.sendActivities()` or `TurnContext.sendActivity()`
      * is the preferred way of sending activities as that will ensure that outgoing activities have been properly addressed
      * and that any interested middleware has been notified.
@@ -581,21 +1087,30 @@ export class BotFrameworkAdapter extends BotAdapter {
                     if (!activity.conversation || !activity.conversation.id) {
                         throw new Error(`BotFrameworkAdapter.sendActivity(): missing conversation id.`);
                     }
-                    const client: ConnectorClient = this.createConnectorClient(activity.serviceUrl);
+                    const client: ConnectorClient = this.createConnectorClient(activity.serviceUrl, this.getTurnAppId(context));
                     if (activity.type === 'trace' && activity.channelId !== 'emulator') {
                         // Just eat activity
                         responses.push({} as ResourceResponse);
-                    } else if (activity.replyToId) {
-                        responses.push(await client.conversations.replyToActivity(
-                            activity.conversation.id,
-                            activity.replyToId,
-                            activity as Activity
-                        ));
                     } else {
-                        responses.push(await client.conversations.sendToConversation(
-                            activity.conversation.id,
-                            activity as Activity
-                        ));
+                        // Messages the channel can't handle may be split into several activities.
+                        // Only the response for the last one is returned.
+                        const parts: Partial<Activity>[] = this.activityValidator ? this.activityValidator.normalize(activity) : [activity];
+                        let response: ResourceResponse;
+                        for (const part of parts) {
+                            if (part.replyToId) {
+                                response = await this.enqueueSend(context, part, 'replyToActivity', () => client.conversations.replyToActivity(
+                                    part.conversation.id,
+                                    part.replyToId,
+                                    part as Activity
+                                ));
+                            } else {
+                                response = await this.enqueueSend(context, part, 'sendToConversation', () => client.conversations.sendToConversation(
+                                    part.conversation.id,
+                                    part as Activity
+                                ));
+                            }
+                        }
+                        responses.push(response);
                     }
                     break;
             }
@@ -620,46 +1135,131 @@ export class BotFrameworkAdapter extends BotAdapter {
             throw new Error(`BotFrameworkAdapter.updateActivity(): missing conversation or conversation.id`);
         }
         if (!activity.id) { throw new Error(`BotFrameworkAdapter.updateActivity(): missing activity.id`); }
-        const client: ConnectorClient = this.createConnectorClient(activity.serviceUrl);
-        await client.conversations.updateActivity(
-            activity.conversation.id,
-            activity.id,
-            activity as Activity
+        const client: ConnectorClient = this.createConnectorClient(activity.serviceUrl, this.getTurnAppId(context));
+        await this.trackCall('connectorCall', 'updateActivity', this.getCorrelationId(context), activity, () =>
+            this.retryPolicy.execute(() => client.conversations.updateActivity(
+                activity.conversation.id,
+                activity.id,
+                activity as Activity
+            ))
+        );
+    }
+
+    /**
+     * Returns `true` if the adapter is allowed to call a service URL.
+     *
+     * @remarks
+     * Every URL is trusted unless `trustedServiceUrls` is configured. Otherwise the host of the
+     * URL must match one of the listed patterns, and plain `http:` URLs must match a pattern
+     * written as an `http://` URL. The token service the adapter is configured to use is always
+     * trusted.
+     *
+     * Use this method to check conversation references before saving them.
+     * @param serviceUrl Service URL to check.
+     */
+    public isTrustedServiceUrl(serviceUrl: string): boolean {
+        if (!this.trustedHosts) { return true; }
+        let target: URL;
+        try {
+            target = new URL(serviceUrl);
+        } catch (err) {
+            return false;
+        }
+        if (target.protocol !== 'https:' && target.protocol !== 'http:') { return false; }
+        if (!this.isEmulatingOAuthCards && serviceUrl === this.oauthApiUrl(serviceUrl)) { return true; }
+        const hostname: string = target.hostname.toLowerCase();
+        const port: string = target.port || (target.protocol === 'https:' ? '443' : '80');
+
+        return this.trustedHosts.some((pattern: TrustedHostPattern) =>
+            (target.protocol === 'https:' || pattern.allowHttp) && pattern.host.test(hostname) && (!pattern.port || pattern.port.test(port))
         );
     }
 
     /**
      * Allows for the overriding of authentication in unit tests.
+     *
+     * @remarks
+     * The returned claims are used to find the bot registration the request was sent to when a
+     * `credentialProvider` is configured. The recipient of the request is used otherwise.
      * @param request Received request.
      * @param authHeader Received authentication header.
      */
-    protected async authenticateRequest(request: Partial<Activity>, authHeader: string): Promise<void> {
+    protected async authenticateRequest(request: Partial<Activity>, authHeader: string): Promise<ClaimsIdentity | void> {
         const claims = await JwtTokenValidation.authenticateRequest(
             request as Activity, authHeader,
             this.credentialsProvider,
             this.settings.channelService
         );
         if (!claims.isAuthenticated) { throw new Error('Unauthorized Access. Request is not authorized'); }
+
+        return claims;
     }
 
     /**
      * Allows for mocking of the connector client in unit tests.
      * @param serviceUrl Clients service url.
+     * @param appId (Optional) app id of the bot registration making the calls. Defaults to the adapter's `appId`.
      */
-    protected createConnectorClient(serviceUrl: string): ConnectorClient {
-        const client: ConnectorClient = new ConnectorClient(this.credentials, { baseUri: serviceUrl, userAgent: USER_AGENT} );
+    protected createConnectorClient(serviceUrl: string, appId?: string): ConnectorClient {
+        this.checkServiceUrl(serviceUrl, 'createConnectorClient');
+        const credentials: MicrosoftAppCredentials = this.getAppCredentials(appId);
+        if (this.settings.offlineConnector) {
+            return this.settings.offlineConnector.createConnectorClient(serviceUrl, credentials);
+        }
+        if (this.clientPool) {
+            return this.clientPool.getClient('connector', serviceUrl, credentials, (httpClient: HttpClient) => {
+                const options: ConnectorClientOptions = { baseUri: serviceUrl, httpClient: httpClient };
+
+                return new ConnectorClient(credentials, options);
+            });
+        }
+        const client: ConnectorClient = new ConnectorClient(credentials, { baseUri: serviceUrl, userAgent: USER_AGENT} );
         return client;
     }
 
     /**
      * Allows for mocking of the OAuth API Client in unit tests.
      * @param serviceUrl Clients service url.
+     * @param appId (Optional) app id of the bot registration making the calls. Defaults to the adapter's `appId`.
      */
-    protected createTokenApiClient(serviceUrl: string): TokenApiClient {
-        const client = new TokenApiClient(this.credentials, { baseUri: serviceUrl, userAgent: USER_AGENT} );
+    protected createTokenApiClient(serviceUrl: string, appId?: string): TokenApiClient {
+        this.checkServiceUrl(serviceUrl, 'createTokenApiClient');
+        const credentials: MicrosoftAppCredentials = this.getAppCredentials(appId);
+        if (this.settings.offlineConnector) {
+            return this.settings.offlineConnector.createTokenApiClient(serviceUrl, credentials);
+        }
+        if (this.clientPool) {
+            return this.clientPool.getClient('token', serviceUrl, credentials, (httpClient: HttpClient) => {
+                const options: TokenApiModels.TokenApiClientOptions = { baseUri: serviceUrl, httpClient: httpClient };
+
+                return new TokenApiClient(credentials, options);
+            });
+        }
+        const client = new TokenApiClient(credentials, { baseUri: serviceUrl, userAgent: USER_AGENT} );
         return client;
     }
 
+    /**
+     * Returns the credentials used to call the channel on behalf of a bot registration.
+     *
+     * @remarks
+     * Credentials of the registrations found through the `credentialProvider` are created once
+     * per app id. Their password is read from the provider each time a token is needed, so a
+     * password the provider refreshed is picked up by the next call.
+     * @param appId (Optional) app id of the bot registration. Defaults to the adapter's `appId`.
+     */
+    protected getAppCredentials(appId?: string): MicrosoftAppCredentials {
+        if (!appId || !this.settings.credentialProvider || appId === this.credentials.appId) { return this.credentials; }
+        let credentials: MicrosoftAppCredentials = this.appCredentials.get(appId);
+        if (!credentials) {
+            credentials = new ProvidedAppCredentials(appId, this.credentialsProvider);
+            this.configureCredentials(credentials);
+            this.appCredentials.set(appId, credentials);
+        }
+
+        return credentials;
+    }
+
     /**
      * Allows for mocking of the OAuth Api URL in unit tests.
      * @param contextOrServiceUrl The URL of the channel server to query or a TurnContext.  This can be retrieved from `context.activity.serviceUrl`.
@@ -679,6 +1279,7 @@ export class BotFrameworkAdapter extends BotAdapter {
     protected checkEmulatingOAuthCards(context: TurnContext): void {
         if (!this.isEmulatingOAuthCards &&
             context.activity.channelId === 'emulator' &&
+            !this.settings.credentialProvider &&
             (!this.credentials.appId || !this.credentials.appPassword)) {
             this.isEmulatingOAuthCards = true;
         }
@@ -691,6 +1292,320 @@ export class BotFrameworkAdapter extends BotAdapter {
     protected createContext(request: Partial<Activity>): TurnContext {
         return new TurnContext(this as any, request);
     }
+
+    /**
+     * Builds the response returned to the caller when `processActivity()` fails.
+     * @param error Error raised while processing the request.
+     * @param request (Optional) received activity, if it could be parsed.
+     */
+    private async getTurnErrorResponse(error: BotFrameworkAdapterError, request?: Partial<Activity>): Promise<TurnErrorResponse> {
+        const response: TurnErrorResponse = {
+            status: error.statusCode,
+            body: error instanceof InvokeNotHandledError ? undefined : { error: { code: error.name, message: error.message } },
+            rethrow: true
+        };
+        if (this.settings.onTurnErrorResponse) {
+            try {
+                return { ...response, ...(await this.settings.onTurnErrorResponse(error, request)) };
+            } catch (err) {
+                this.logger.error(`BotFrameworkAdapter.processActivity(): onTurnErrorResponse failed.`, err);
+            }
+        }
+
+        return response;
+    }
+
+    /**
+     * Sends an activity through the outbound queue, if one is configured, retrying it as needed.
+     *
+     * @remarks
+     * Sends are `POST` requests and aren't retried after a `5xx` unless the retry policy allows it.
+     * @param context Context for the current turn of conversation with the user.
+     * @param activity Activity being sent.
+     * @param name Name of the connector operation used to send the activity.
+     * @param send Function that performs the send.
+     */
+    private enqueueSend(
+        context: TurnContext,
+        activity: Partial<Activity>,
+        name: string,
+        send: () => Promise<ResourceResponse>
+    ): Promise<ResourceResponse> {
+        const correlationId: string = this.getCorrelationId(context);
+        const task: () => Promise<ResourceResponse> = (): Promise<ResourceResponse> =>
+            this.trackCall('outboundSend', name, correlationId, activity, () => this.retryPolicy.execute(send, false));
+
+        return this.sendQueue ? this.sendQueue.enqueue(activity.conversation.id, task) : task();
+    }
+
+    /**
+     * Rejects received activities whose timestamp is outside the `maxClockSkew` window.
+     * @param request Received activity.
+     */
+    private checkTimestamp(request: Partial<Activity>): void {
+        if (this.settings.maxClockSkew === undefined) { return; }
+        const timestamp: number = request.timestamp instanceof Date ? request.timestamp.getTime() : NaN;
+        if (isNaN(timestamp)) { throw new ActivityTimestampError(new Error(`missing or invalid timestamp.`)); }
+        const skew: number = Math.abs(Date.now() - timestamp);
+        if (skew > this.settings.maxClockSkew) {
+            throw new ActivityTimestampError(new Error(`timestamp ${ request.timestamp.toISOString() } is ${ skew }ms away from the current time.`));
+        }
+    }
+
+    /**
+     * Records a received activity in the deduplication store. Returns `false` if it was already
+     * processed. Activities are processed if the store fails.
+     * @param key Key of the activity.
+     */
+    private async markProcessed(key: string): Promise<boolean> {
+        const ttl: number = this.settings.deduplication.ttl || 10 * 60 * 1000;
+        try {
+            return await this.deduplicationStore.add(key, ttl);
+        } catch (err) {
+            this.logger.error(`BotFrameworkAdapter.processActivity(): deduplication store failed, processing '${ key }'.`, err);
+
+            return true;
+        }
+    }
+
+    /**
+     * Rejects calls to service URLs that aren't trusted, before any client or token is created.
+     * @param serviceUrl Service URL about to be called.
+     * @param operation Name of the method making the call, used when logging the violation.
+     */
+    private checkServiceUrl(serviceUrl: string, operation: string): void {
+        if (this.isTrustedServiceUrl(serviceUrl)) { return; }
+        this.logger.warn(`BotFrameworkAdapter.${ operation }(): blocked a call to the untrusted service URL '${ serviceUrl }'.`);
+        throw new UntrustedServiceUrlError(serviceUrl);
+    }
+
+    /**
+     * Finds the app id of the bot registration an activity was sent to or a conversation belongs to.
+     *
+     * @remarks
+     * Without a `credentialProvider` this is always the adapter's `appId`. Otherwise the claims of
+     * the request and the id of the bot are checked against the provider, in that order. Teams
+     * prefixes the bot id with `28:`, which is removed before the check.
+     * @param bot (Optional) account of the bot, like the recipient of a request.
+     * @param identity (Optional) claims of an authenticated request.
+     */
+    private async findAppId(bot?: Partial<ChannelAccount>, identity?: ClaimsIdentity): Promise<string> {
+        if (!this.settings.credentialProvider) { return this.credentials.appId; }
+        const candidates: string[] = identity ? APP_ID_CLAIMS.map((claim: string) => identity.getClaimValue(claim)) : [];
+        if (bot && bot.id) { candidates.push(bot.id, bot.id.replace(/^\d+:/, '')); }
+        for (const candidate of candidates) {
+            if (candidate && await this.credentialsProvider.isValidAppId(candidate)) { return candidate; }
+        }
+
+        return this.credentials.appId;
+    }
+
+    /**
+     * Returns the conversation a member operation applies to, checking that it's complete.
+     * @param contextOrReference Context for the current turn of conversation with the user, or reference of the conversation.
+     * @param method Name of the calling method, used in error messages.
+     */
+    private async getConversationTarget(
+        contextOrReference: TurnContext | Partial<ConversationReference>,
+        method: string
+    ): Promise<ConversationTarget> {
+        const context: TurnContext = (contextOrReference as TurnContext).activity ? contextOrReference as TurnContext : undefined;
+        const address: Partial<Activity> | Partial<ConversationReference> = context ? context.activity : contextOrReference as Partial<ConversationReference>;
+        if (!address.serviceUrl) { throw new Error(`BotFrameworkAdapter.${ method }(): missing serviceUrl`); }
+        if (!address.conversation || !address.conversation.id) {
+            throw new Error(`BotFrameworkAdapter.${ method }(): missing conversation or conversation.id`);
+        }
+        const appId: string = context ? this.getTurnAppId(context) : await this.findAppId((address as Partial<ConversationReference>).bot);
+
+        return {
+            client: this.createConnectorClient(address.serviceUrl, appId),
+            conversationId: address.conversation.id,
+            activityId: context ? context.activity.id : (address as Partial<ConversationReference>).activityId,
+            correlationId: this.getCorrelationId(context),
+            address: address
+        };
+    }
+
+    /**
+     * Fetches a page of the members of a conversation.
+     * @param target Conversation to list.
+     * @param pageSize (Optional) suggested number of members per page.
+     * @param continuationToken (Optional) token of the page to fetch.
+     */
+    private getMembersPage(target: ConversationTarget, pageSize?: number, continuationToken?: string): Promise<PagedMembersResult> {
+        const options: Partial<ConversationsGetConversationPagedMembersOptionalParams> = {};
+        if (pageSize) { options.pageSize = pageSize; }
+        if (continuationToken) { options.continuationToken = continuationToken; }
+
+        return this.trackCall('connectorCall', 'getConversationPagedMembers', target.correlationId, target.address, () =>
+            target.client.conversations.getConversationPagedMembers(target.conversationId, options as ConversationsGetConversationPagedMembersOptionalParams)
+        );
+    }
+
+    /**
+     * Returns the app id found for a turn, if any.
+     * @param context (Optional) context for the current turn of conversation with the user.
+     */
+    private getTurnAppId(context?: TurnContext): string | undefined {
+        return context && context.turnState ? context.turnState.get(APP_ID_KEY) : undefined;
+    }
+
+    /**
+     * Points credentials at the government cloud when the adapter is configured for it.
+     * @param credentials Credentials to configure.
+     */
+    private configureCredentials(credentials: MicrosoftAppCredentials): void {
+        if (JwtTokenValidation.isGovernment(this.settings.channelService)) {
+            credentials.oAuthEndpoint = GovernmentConstants.ToChannelFromBotLoginUrl;
+            credentials.oAuthScope = GovernmentConstants.ToChannelFromBotOAuthScope;
+        }
+    }
+
+    /**
+     * Returns the ID used to correlate the telemetry events of a turn, assigning one if needed.
+     * @param context (Optional) context for the current turn of conversation with the user.
+     */
+    private getCorrelationId(context?: TurnContext): string {
+        if (!context || !context.turnState) { return createCorrelationId(); }
+        let correlationId: string = context.turnState.get(CORRELATION_ID_KEY);
+        if (!correlationId) {
+            correlationId = createCorrelationId();
+            context.turnState.set(CORRELATION_ID_KEY, correlationId);
+        }
+
+        return correlationId;
+    }
+
+    /**
+     * Runs a call to the connector or token service and reports it to the telemetry sink.
+     * @param type Kind of call being made.
+     * @param name Name of the operation being called.
+     * @param correlationId ID of the turn the call is made for.
+     * @param address Activity or conversation reference the call relates to.
+     * @param call Function that performs the call.
+     */
+    private async trackCall<T>(
+        type: AdapterTelemetryEventType,
+        name: string,
+        correlationId: string,
+        address: Partial<Activity> | Partial<ConversationReference>,
+        call: () => Promise<T>
+    ): Promise<T> {
+        if (!this.telemetry) { return await call(); }
+        const start: Date = new Date();
+        try {
+            const result: T = await call();
+            const response: any = result && (result as any)._response;
+            this.trackEvent(type, name, correlationId, address, start, true, response ? response.status : undefined);
+
+            return result;
+        } catch (err) {
+            this.trackEvent(type, name, correlationId, address, start, false, err ? err.statusCode : undefined, err);
+            throw err;
+        }
+    }
+
+    /**
+     * Sends an event to the telemetry sink, if one is configured.
+     */
+    private trackEvent(
+        type: AdapterTelemetryEventType,
+        name: string,
+        correlationId: string,
+        address: Partial<Activity> | Partial<ConversationReference>,
+        start: Date,
+        success: boolean,
+        statusCode?: number,
+        error?: any
+    ): void {
+        if (!this.telemetry) { return; }
+        try {
+            this.telemetry.trackEvent({
+                type: type,
+                name: name,
+                correlationId: correlationId,
+                timestamp: start,
+                duration: new Date().getTime() - start.getTime(),
+                success: success,
+                statusCode: statusCode,
+                channelId: address.channelId,
+                conversationId: address.conversation ? address.conversation.id : undefined,
+                error: error
+            });
+        } catch (err) {
+            this.logger.error(`BotFrameworkAdapter: telemetry sink failed.`, err);
+        }
+    }
+}
+
+/**
+ * @private
+ * Returns the key used to recognize deliveries of the same activity, or `undefined` if the
+ * activity can't be identified.
+ * @param activity Received activity.
+ */
+function getDeduplicationKey(activity: Partial<Activity>): string {
+    if (!activity.id || !activity.channelId || !activity.conversation || !activity.conversation.id) { return undefined; }
+
+    return `${ activity.channelId }/${ activity.conversation.id }/${ activity.id }`;
+}
+
+/**
+ * @private
+ * Compiles a trusted host pattern like `*.botframework.com` or `localhost:3978`.
+ * @param pattern Host pattern to compile.
+ */
+function parseHostPattern(pattern: string): TrustedHostPattern {
+    if (typeof pattern !== 'string' || !pattern.trim()) {
+        throw new Error(`BotFrameworkAdapter: invalid trustedServiceUrls pattern '${ pattern }'.`);
+    }
+    // A `*` never matches across dots, so `*.botframework.com` can't match `evil.example/.botframework.com`.
+    const toRegExp: (glob: string) => RegExp = (glob: string): RegExp => new RegExp(
+        `^${ glob.split('*').map((part: string) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^.]+') }$`
+    );
+    // Patterns written as URLs, like `https://*.botframework.com/`, are reduced to their host.
+    const allowHttp: boolean = /^http:\/\//i.test(pattern.trim());
+    const authority: string = pattern.trim().replace(/^[a-z]+:\/\//i, '').split('/')[0];
+    const separator: number = authority.lastIndexOf(':');
+    const host: string = (separator >= 0 ? authority.substr(0, separator) : authority).toLowerCase();
+    const port: string = separator >= 0 ? authority.substr(separator + 1) : undefined;
+
+    return { host: toRegExp(host), port: port ? toRegExp(port) : undefined, allowHttp: allowHttp };
+}
+
+/**
+ * @private
+ * Compiled trusted host pattern.
+ */
+interface TrustedHostPattern {
+    host: RegExp;
+    port?: RegExp;
+    allowHttp: boolean;
+}
+
+/**
+ * @private
+ * Credentials of a bot registration whose password is read from a credential provider.
+ */
+class ProvidedAppCredentials extends MicrosoftAppCredentials {
+    private readonly provider: ICredentialProvider;
+
+    constructor(appId: string, provider: ICredentialProvider) {
+        super(appId, '');
+        this.provider = provider;
+    }
+
+    public async getToken(forceRefresh: boolean = false): Promise<string> {
+        const password: string = await this.provider.getAppPassword(this.appId);
+        if (!password) { throw new Error(`BotFrameworkAdapter: no password found for app id '${ this.appId }'.`); }
+        if (password !== this.appPassword) {
+            // Tokens cached for the previous password are dropped.
+            forceRefresh = forceRefresh || !!this.appPassword;
+            this.appPassword = password;
+        }
+
+        return super.getToken(forceRefresh);
+    }
 }
 
 /**
@@ -732,8 +1647,63 @@ function parseRequest(req: WebRequest): Promise<Activity> {
     });
 }
 
+/**
+ * @private
+ * Conversation a member operation applies to.
+ */
+interface ConversationTarget {
+    client: ConnectorClient;
+    conversationId: string;
+    activityId?: string;
+    correlationId: string;
+    address: Partial<Activity> | Partial<ConversationReference>;
+}
+
+/**
+ * @private
+ * Creates a new random ID used to correlate the telemetry events of a turn.
+ */
+function createCorrelationId(): string {
+    return crypto.randomBytes(16).toString('hex');
+}
+
 function delay(timeout: number): Promise<void> {
     return new Promise((resolve, reject) => {
         setTimeout(resolve, timeout);
     });
-}
\ No newline at end of file
+}
+
+/**
+ * @private
+ * Calls an async handler for every item with at most `concurrency` calls running at once.
+ * Failures don't stop the remaining items. The settled results are returned in item order.
+ * @param items Items to process.
+ * @param concurrency Maximum number of handlers running at the same time.
+ * @param handler Handler called for each item.
+ */
+function forEachConcurrent<T, R>(
+    items: T[],
+    concurrency: number,
+    handler: (item: T, index: number) => Promise<R>
+): Promise<{ value?: R; error?: any }[]> {
+    const results: { value?: R; error?: any }[] = new Array(items.length);
+    let next: number = 0;
+    const worker: () => Promise<void> = (): Promise<void> => {
+        if (next >= items.length) { return Promise.resolve(); }
+        const index: number = next++;
+
+        return Promise.resolve()
+            .then(() => handler(items[index], index))
+            .then(
+                (value: R) => { results[index] = { value: value }; },
+                (err: any) => { results[index] = { error: err }; }
+            )
+            .then(worker);
+    };
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.max(1, Math.min(concurrency, items.length)); i++) {
+        workers.push(worker());
+    }
+
+    return Promise.all(workers).then(() => results);
+}
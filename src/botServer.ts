@@ -0,0 +1,311 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { TurnContext } from 'botbuilder-core';
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { BotFrameworkAdapter, WebRequest, WebResponse } from './botFrameworkAdapter';
+
+/**
+ * Options used to configure a `BotServer` instance.
+ */
+export interface BotServerOptions {
+    /**
+     * (Optional) port to listen on. Defaults to `process.env.port`, `process.env.PORT` or `3978`.
+     */
+    port?: number;
+
+    /**
+     * (Optional) host name or IP address to listen on. Defaults to all interfaces.
+     */
+    host?: string;
+
+    /**
+     * (Optional) path that activities are posted to. Defaults to `/api/messages`.
+     */
+    messagesPath?: string;
+
+    /**
+     * (Optional) path of the health check route. Defaults to `/health`.
+     */
+    healthCheckPath?: string;
+
+    /**
+     * (Optional) maximum size of a request body in bytes. Larger requests are rejected with a
+     * `413` status code. Defaults to `1048576` (1 MB).
+     */
+    maxBodySize?: number;
+
+    /**
+     * (Optional) maximum number of milliseconds [close()](#close) will wait for in-flight turns to
+     * complete. Defaults to `10000`.
+     */
+    shutdownTimeout?: number;
+
+    /**
+     * (Optional) TLS options. When provided the server will be created using Node's `https`
+     * module instead of `http`.
+     */
+    https?: https.ServerOptions;
+}
+
+/**
+ * Minimal web server that routes incoming requests to a `BotFrameworkAdapter`.
+ *
+ * @remarks
+ * The server is built on Node's `http` (or `https`) module and removes the need for a web
+ * framework like Express or Restify in simple bots. It exposes the following routes:
+ *
+ * - `POST /api/messages` passes the received activity to the adapters `processActivity()` method.
+ * - `GET /health` returns a `200` status code while the server is running and a `503` once
+ *   it's shutting down.
+ *
+ * Calling [close()](#close) stops accepting new requests and waits for any turns that are still
+ * being processed before closing the underlying server.
+ *
+ * ```JavaScript
+ * const { BotFrameworkAdapter, createBotServer } = require('botbuilder');
+ *
+ * const adapter = new BotFrameworkAdapter({
+ *    appId: process.env.MICROSOFT_APP_ID,
+ *    appPassword: process.env.MICROSOFT_APP_PASSWORD
+ * });
+ *
+ * const server = createBotServer(adapter, async (context) => {
+ *     await context.sendActivity(`Hello World`);
+ * });
+ * server.listen().then(() => console.log(`listening on port ${server.port}`));
+ *
+ * process.on('SIGTERM', () => server.close());
+ * ```
+ */
+export class BotServer {
+    /**
+     * Underlying Node.js server.
+     */
+    public readonly server: http.Server | https.Server;
+
+    private readonly adapter: BotFrameworkAdapter;
+    private readonly logic: (context: TurnContext) => Promise<any>;
+    private readonly options: BotServerOptions;
+    private readonly inFlight: Set<Promise<void>> = new Set<Promise<void>>();
+    private readonly sockets: Set<net.Socket> = new Set<net.Socket>();
+    private closing: Promise<void>;
+
+    /**
+     * Creates a new BotServer instance.
+     * @param adapter Adapter used to process incoming activities.
+     * @param logic Function handler that will be called to perform the bots logic.
+     * @param options (Optional) options used to configure the server.
+     */
+    constructor(adapter: BotFrameworkAdapter, logic: (context: TurnContext) => Promise<any>, options?: BotServerOptions) {
+        if (!adapter) { throw new Error(`BotServer: missing adapter.`); }
+        if (!logic) { throw new Error(`BotServer: missing logic.`); }
+        this.adapter = adapter;
+        this.logic = logic;
+        this.options = {
+            port: Number(process.env.port || process.env.PORT) || 3978,
+            messagesPath: '/api/messages',
+            healthCheckPath: '/health',
+            maxBodySize: 1048576,
+            shutdownTimeout: 10000,
+            ...options
+        };
+
+        const listener: (req: http.IncomingMessage, res: http.ServerResponse) => void =
+            (req: http.IncomingMessage, res: http.ServerResponse): void => this.onRequest(req, res);
+        this.server = this.options.https ? https.createServer(this.options.https, listener) : http.createServer(listener);
+        this.server.on('connection', (socket: net.Socket) => {
+            this.sockets.add(socket);
+            socket.on('close', () => this.sockets.delete(socket));
+        });
+    }
+
+    /**
+     * Port the server is listening on, once [listen()](#listen) has completed.
+     */
+    public get port(): number {
+        const address: any = this.server.address();
+
+        return address && typeof address === 'object' ? address.port : undefined;
+    }
+
+    /**
+     * Starts listening for incoming requests.
+     */
+    public listen(): Promise<void> {
+        return new Promise<void>((resolve: any, reject: any): void => {
+            this.server.once('error', reject);
+            this.server.listen(this.options.port, this.options.host, () => {
+                this.server.removeListener('error', reject);
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stops accepting new requests, waits for in-flight turns to complete and closes the server.
+     *
+     * @remarks
+     * Turns that haven't completed within `shutdownTimeout` milliseconds are abandoned.
+     */
+    public close(): Promise<void> {
+        if (!this.closing) {
+            this.closing = waitFor(Array.from(this.inFlight), this.options.shutdownTimeout).then(() =>
+                new Promise<void>((resolve: any): void => {
+                    this.server.close(() => resolve());
+                    this.sockets.forEach((socket: net.Socket) => socket.destroy());
+                })
+            );
+        }
+
+        return this.closing;
+    }
+
+    private onRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const path: string = (req.url || '').split('?')[0];
+        if (path === this.options.healthCheckPath && req.method === 'GET') {
+            sendJson(res, this.closing ? 503 : 200, { status: this.closing ? 'stopping' : 'ok' });
+        } else if (path === this.options.messagesPath) {
+            if (req.method !== 'POST') {
+                res.setHeader('Allow', 'POST');
+                sendJson(res, 405);
+            } else if (this.closing) {
+                sendJson(res, 503);
+            } else {
+                const turn: Promise<void> = this.processRequest(req, res);
+                this.inFlight.add(turn);
+                turn.then(() => this.inFlight.delete(turn));
+            }
+        } else {
+            sendJson(res, 404);
+        }
+    }
+
+    private processRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        return readBody(req, this.options.maxBodySize).then((body: any) => {
+            // The body has already been read so the adapter will never need to listen for events.
+            const request: WebRequest = { body: body, headers: req.headers, on: (): any => undefined };
+            const response: WebResponse = {
+                status: (status: number): any => res.statusCode = status,
+                send: (data: any): any => {
+                    if (typeof data !== 'string' && !Buffer.isBuffer(data)) {
+                        res.setHeader('Content-Type', 'application/json');
+                        data = JSON.stringify(data);
+                    }
+                    res.write(data);
+                },
+                end: (): any => res.end()
+            };
+
+            return this.adapter.processActivity(request, response, this.logic).catch(() => {
+                // The adapter has already returned the error to the caller.
+            });
+        }, (err: any) => {
+            sendJson(res, err.statusCode || 400);
+        });
+    }
+}
+
+/**
+ * Creates a web server that routes incoming activities to a `BotFrameworkAdapter`.
+ *
+ * @remarks
+ * This is a shortcut for `new BotServer(adapter, logic, options)`. The returned server needs to be
+ * started by calling its `listen()` method.
+ * @param adapter Adapter used to process incoming activities.
+ * @param logic Function handler that will be called to perform the bots logic.
+ * @param options (Optional) options used to configure the server.
+ */
+export function createBotServer(
+    adapter: BotFrameworkAdapter,
+    logic: (context: TurnContext) => Promise<any>,
+    options?: BotServerOptions
+): BotServer {
+    return new BotServer(adapter, logic, options);
+}
+
+/**
+ * @private
+ * @param res Outgoing response.
+ * @param status Status code to return.
+ * @param body (Optional) body to return.
+ */
+function sendJson(res: http.ServerResponse, status: number, body?: any): void {
+    res.statusCode = status;
+    if (body) {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+    } else {
+        res.end();
+    }
+}
+
+/**
+ * @private
+ * Reads and parses the JSON body of a request, rejecting bodies larger than `limit` bytes.
+ * @param req Incoming request.
+ * @param limit Maximum number of bytes to read.
+ */
+function readBody(req: http.IncomingMessage, limit: number): Promise<any> {
+    return new Promise((resolve: any, reject: any): void => {
+        const tooLarge: any = { statusCode: 413 };
+        if (Number(req.headers['content-length']) > limit) {
+            req.resume();
+
+            return reject(tooLarge);
+        }
+
+        const chunks: Buffer[] = [];
+        let length: number = 0;
+        let failed: boolean = false;
+        req.on('data', (chunk: Buffer) => {
+            if (failed) { return; }
+            length += chunk.length;
+            if (length > limit) {
+                failed = true;
+                reject(tooLarge);
+            } else {
+                chunks.push(chunk);
+            }
+        });
+        req.on('end', () => {
+            if (failed) { return; }
+            let body: any;
+            try {
+                body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+            } catch (err) {
+                body = undefined;
+            }
+            if (body && typeof body === 'object') {
+                resolve(body);
+            } else {
+                reject({ statusCode: 400 });
+            }
+        });
+        req.on('error', (err: any) => {
+            failed = true;
+            reject({ statusCode: 400 });
+        });
+    });
+}
+
+/**
+ * @private
+ * @param promises Promises to wait for.
+ * @param timeout Maximum number of milliseconds to wait.
+ */
+function waitFor(promises: Promise<any>[], timeout: number): Promise<void> {
+    let timer: any;
+    const expired: Promise<void> = new Promise<void>((resolve: any): void => {
+        timer = setTimeout(resolve, timeout);
+    });
+
+    return Promise.race([Promise.all(promises).then(() => undefined), expired]).then(() => clearTimeout(timer));
+}
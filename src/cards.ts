@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import { Attachment, CardAction } from 'botbuilder-core';
+
+/**
+ * @private
+ * Content types of the Bot Framework cards.
+ */
+export const ADAPTIVE_CARD: string = 'application/vnd.microsoft.card.adaptive';
+export const ANIMATION_CARD: string = 'application/vnd.microsoft.card.animation';
+export const AUDIO_CARD: string = 'application/vnd.microsoft.card.audio';
+export const HERO_CARD: string = 'application/vnd.microsoft.card.hero';
+export const OAUTH_CARD: string = 'application/vnd.microsoft.card.oauth';
+export const RECEIPT_CARD: string = 'application/vnd.microsoft.card.receipt';
+export const SIGNIN_CARD: string = 'application/vnd.microsoft.card.signin';
+export const THUMBNAIL_CARD: string = 'application/vnd.microsoft.card.thumbnail';
+export const VIDEO_CARD: string = 'application/vnd.microsoft.card.video';
+
+/**
+ * @private
+ * Returns a plain text version of a card, or `undefined` if it can't be downgraded.
+ * @param attachment Attachment containing the card.
+ */
+export function cardToText(attachment: Attachment): string {
+    const content: any = attachment.content;
+    if (!content || typeof content !== 'object') { return undefined; }
+    if (attachment.contentType === ADAPTIVE_CARD) {
+        if (content.fallbackText) { return content.fallbackText; }
+        const texts: string[] = [];
+        const walk: (element: any) => void = (element: any): void => {
+            if (!element || typeof element !== 'object') { return; }
+            if (element.type === 'TextBlock' && element.text) { texts.push(element.text); }
+            ['body', 'items', 'columns', 'actions'].forEach((key: string) => {
+                if (Array.isArray(element[key])) { element[key].forEach(walk); }
+            });
+            if (element.type && element.type.startsWith('Action.') && element.title) { texts.push(element.title); }
+        };
+        walk(content);
+
+        return texts.length > 0 ? texts.join('\n') : undefined;
+    }
+    const lines: string[] = [content.title, content.subtitle, content.text].filter((text: string) => !!text);
+    (content.buttons || []).forEach((button: CardAction) => {
+        if (button.type === 'openUrl' || button.type === 'signin') {
+            lines.push(`${ button.title || button.value }: ${ button.value }`);
+        } else if (button.title) {
+            lines.push(button.title);
+        }
+    });
+
+    return lines.length > 0 ? lines.join('\n') : undefined;
+}
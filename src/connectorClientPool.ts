@@ -0,0 +1,385 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import { MicrosoftAppCredentials } from 'botframework-connector';
+import * as http from 'http';
+import * as https from 'https';
+import { DefaultHttpClient, HttpClient, HttpHeaders, HttpOperationResponse, RestError, WebResource } from 'ms-rest-js';
+import * as url from 'url';
+import * as zlib from 'zlib';
+import { BotFrameworkAdapterLogger } from './botFrameworkAdapter';
+
+/**
+ * Settings used to configure a `ConnectorClientPool` instance.
+ */
+export interface ConnectorClientPoolSettings {
+    /**
+     * (Optional) maximum number of clients kept in the pool. The least recently used client is
+     * dropped when the pool is full. Defaults to `100`.
+     */
+    maxClients?: number;
+
+    /**
+     * (Optional) if `false` the pooled clients open a new connection for every request. Defaults
+     * to `true`, which keeps connections to each service open and reuses them.
+     */
+    keepAlive?: boolean;
+
+    /**
+     * (Optional) maximum number of connections opened to a single host. Defaults to no limit.
+     */
+    maxSockets?: number;
+
+    /**
+     * (Optional) if `true` the bot's access token is fetched as soon as its credentials are used
+     * and refreshed before it expires, so sends don't wait for the token service. Tokens whose
+     * expiration can't be read are refreshed every 30 minutes. Defaults to `false`.
+     */
+    prefetchToken?: boolean;
+
+    /**
+     * (Optional) number of milliseconds a prefetched token is refreshed before the credentials
+     * stop using it, which they do 5 minutes before it expires. Defaults to `60000`.
+     */
+    tokenRefreshMargin?: number;
+
+    /**
+     * (Optional) logger used to report failed token refreshes. Defaults to `console`.
+     */
+    logger?: BotFrameworkAdapterLogger;
+}
+
+/**
+ * Counters reported by `ConnectorClientPool.getStats()`.
+ */
+export interface ConnectorClientPoolStats {
+    /**
+     * Number of clients currently in the pool.
+     */
+    size: number;
+
+    /**
+     * Maximum number of clients kept in the pool.
+     */
+    maxClients: number;
+
+    /**
+     * Number of requests for a client that were served from the pool.
+     */
+    hits: number;
+
+    /**
+     * Number of requests for a client that created a new one.
+     */
+    misses: number;
+
+    /**
+     * Number of clients dropped because the pool was full.
+     */
+    evictions: number;
+
+    /**
+     * Number of tokens prefetched or refreshed.
+     */
+    tokenRefreshes: number;
+
+    /**
+     * Number of token refreshes that failed.
+     */
+    tokenRefreshFailures: number;
+}
+
+// Delay before a failed token refresh is retried.
+const TOKEN_RETRY_DELAY: number = 30 * 1000;
+
+// Delay before refreshing a token whose expiration isn't known.
+const TOKEN_REFRESH_INTERVAL: number = 30 * 60 * 1000;
+
+// MicrosoftAppCredentials stops using a cached token this long before it expires.
+const CREDENTIALS_EXPIRY_MARGIN: number = 5 * 60 * 1000;
+
+/**
+ * Pool of the connector and token service clients used by a `BotFrameworkAdapter`.
+ *
+ * @remarks
+ * Clients are kept per service URL and app id, so the activities sent during a turn and the
+ * member lookups made against the same channel share one client. The pool is bounded by
+ * `maxClients` and drops the least recently used client once it's full.
+ *
+ * Pooled clients share HTTP agents that keep connections open between requests. When
+ * `prefetchToken` is enabled the access token of each app id is fetched when its credentials are
+ * first used and refreshed in the background before it expires.
+ *
+ * Pass the settings to the adapter using the `clientPool` setting and read the counters of the
+ * pool through `adapter.clientPool.getStats()`.
+ *
+ * ```JavaScript
+ * const adapter = new BotFrameworkAdapter({
+ *     appId: process.env.MICROSOFT_APP_ID,
+ *     appPassword: process.env.MICROSOFT_APP_PASSWORD,
+ *     clientPool: { maxClients: 50, prefetchToken: true }
+ * });
+ * ```
+ */
+export class ConnectorClientPool {
+    private readonly clients: Map<string, any> = new Map<string, any>();
+    private readonly tokenTimers: Map<string, any> = new Map<string, any>();
+    private readonly httpClient: KeepAliveHttpClient;
+    private readonly maxClients: number;
+    private readonly prefetch: boolean;
+    private readonly tokenRefreshMargin: number;
+    private readonly logger: BotFrameworkAdapterLogger;
+    private readonly stats: ConnectorClientPoolStats;
+
+    /**
+     * Creates a new ConnectorClientPool instance.
+     * @param settings (Optional) settings used to configure the pool.
+     */
+    constructor(settings?: ConnectorClientPoolSettings) {
+        const options: ConnectorClientPoolSettings = { ...settings };
+        this.maxClients = options.maxClients !== undefined ? options.maxClients : 100;
+        if (typeof this.maxClients !== 'number' || !(this.maxClients >= 1)) {
+            throw new Error(`ConnectorClientPool: maxClients must be at least 1.`);
+        }
+        this.prefetch = !!options.prefetchToken;
+        this.tokenRefreshMargin = options.tokenRefreshMargin !== undefined ? options.tokenRefreshMargin : 60 * 1000;
+        if (typeof this.tokenRefreshMargin !== 'number' || !(this.tokenRefreshMargin >= 0)) {
+            throw new Error(`ConnectorClientPool: tokenRefreshMargin must be a non-negative number.`);
+        }
+        if (options.maxSockets !== undefined && (typeof options.maxSockets !== 'number' || !(options.maxSockets >= 1))) {
+            throw new Error(`ConnectorClientPool: maxSockets must be at least 1.`);
+        }
+        this.logger = options.logger || console;
+        this.httpClient = new KeepAliveHttpClient(options.keepAlive !== false, options.maxSockets);
+        this.stats = { size: 0, maxClients: this.maxClients, hits: 0, misses: 0, evictions: 0, tokenRefreshes: 0, tokenRefreshFailures: 0 };
+    }
+
+    /**
+     * Returns the pooled client of a kind for a service URL and credentials, creating it if needed.
+     * @param kind Kind of client, like `connector` or `token`.
+     * @param serviceUrl Service URL the client targets.
+     * @param credentials Credentials the client uses.
+     * @param create Function called to create a missing client. It's passed the HTTP client pooled clients should use.
+     */
+    public getClient<T>(kind: string, serviceUrl: string, credentials: MicrosoftAppCredentials, create: (httpClient: HttpClient) => T): T {
+        const key: string = `${ kind } ${ credentials.appId || '' } ${ serviceUrl }`;
+        if (this.clients.has(key)) {
+            // Move the client to the end of the map, which holds the most recently used clients.
+            const pooled: T = this.clients.get(key);
+            this.clients.delete(key);
+            this.clients.set(key, pooled);
+            this.stats.hits++;
+
+            return pooled;
+        }
+
+        const client: T = create(this.httpClient);
+        this.stats.misses++;
+        this.clients.set(key, client);
+        while (this.clients.size > this.maxClients) {
+            this.clients.delete(this.clients.keys().next().value);
+            this.stats.evictions++;
+        }
+        if (this.prefetch) { this.prefetchToken(credentials); }
+
+        return client;
+    }
+
+    /**
+     * Fetches the access token of some credentials and keeps refreshing it before it expires.
+     *
+     * @remarks
+     * Called automatically for the credentials of new clients when `prefetchToken` is enabled.
+     * Credentials without an app id, like the ones used with the emulator, are ignored.
+     * @param credentials Credentials to fetch the token of.
+     */
+    public prefetchToken(credentials: MicrosoftAppCredentials): void {
+        if (!credentials || !credentials.appId || this.tokenTimers.has(credentials.appId)) { return; }
+        this.tokenTimers.set(credentials.appId, undefined);
+        this.refreshToken(credentials, false);
+    }
+
+    /**
+     * Returns the counters of the pool.
+     */
+    public getStats(): ConnectorClientPoolStats {
+        return { ...this.stats, size: this.clients.size };
+    }
+
+    /**
+     * Drops every pooled client, stops refreshing tokens and closes idle connections.
+     */
+    public clear(): void {
+        this.clients.clear();
+        this.tokenTimers.forEach((timer: any) => { if (timer) { clearTimeout(timer); } });
+        this.tokenTimers.clear();
+        this.httpClient.destroy();
+    }
+
+    private refreshToken(credentials: MicrosoftAppCredentials, forceRefresh: boolean): void {
+        Promise.resolve().then(() => credentials.getToken(forceRefresh)).then((token: string) => {
+            this.stats.tokenRefreshes++;
+            const expiration: number = getTokenExpiration(token);
+            this.scheduleRefresh(credentials, isNaN(expiration)
+                ? TOKEN_REFRESH_INTERVAL
+                : expiration - CREDENTIALS_EXPIRY_MARGIN - this.tokenRefreshMargin - Date.now());
+        }, (err: any) => {
+            this.stats.tokenRefreshFailures++;
+            this.logger.warn(`ConnectorClientPool: failed to refresh the token of app id '${ credentials.appId }'.`, err);
+            this.scheduleRefresh(credentials, TOKEN_RETRY_DELAY);
+        });
+    }
+
+    private scheduleRefresh(credentials: MicrosoftAppCredentials, delay: number): void {
+        // The pool may have been cleared while the token was being fetched.
+        if (!this.tokenTimers.has(credentials.appId)) { return; }
+        const timer: any = setTimeout(() => this.refreshToken(credentials, true), Math.max(delay, 1000));
+        if (timer.unref) { timer.unref(); }
+        this.tokenTimers.set(credentials.appId, timer);
+    }
+}
+
+/**
+ * @private
+ * Returns the time an access token expires, read from the `exp` claim of the JWT, or `NaN` if
+ * it can't be read.
+ * @param token Access token returned by the credentials.
+ */
+function getTokenExpiration(token: string): number {
+    let expiration: number = NaN;
+    const parts: string[] = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length === 3) {
+        try {
+            const claims: any = JSON.parse(Buffer.from(parts[1].replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8'));
+            expiration = claims && typeof claims.exp === 'number' ? claims.exp * 1000 : NaN;
+        } catch (err) {
+            expiration = NaN;
+        }
+    }
+
+    return expiration;
+}
+
+/**
+ * @private
+ * HTTP client sending requests through shared agents, so connections are reused between requests.
+ *
+ * The default client of ms-rest-js 1.0 sends every request through its own axios instance and has
+ * no option to pass an agent, so this client sends the requests itself.
+ *
+ * Compressed responses are decompressed like the default client does. Requests that go through a
+ * proxy, configured with the `HTTP_PROXY` or `HTTPS_PROXY` environment variables, multipart
+ * uploads and requests reporting their progress are left to the default client.
+ */
+class KeepAliveHttpClient implements HttpClient {
+    private readonly httpAgent: http.Agent;
+    private readonly httpsAgent: https.Agent;
+    private readonly fallback: HttpClient = new DefaultHttpClient();
+
+    constructor(keepAlive: boolean, maxSockets?: number) {
+        const options: http.AgentOptions = { keepAlive: keepAlive };
+        if (maxSockets !== undefined) { options.maxSockets = maxSockets; }
+        this.httpAgent = new http.Agent(options);
+        this.httpsAgent = new https.Agent(options);
+    }
+
+    public sendRequest(request: WebResource): Promise<HttpOperationResponse> {
+        if (request.formData || request.onUploadProgress || request.onDownloadProgress || getProxy(request.url)) {
+            return this.fallback.sendRequest(request);
+        }
+
+        return new Promise((resolve: (response: HttpOperationResponse) => void, reject: (err: any) => void): void => {
+            const abortSignal: any = request.abortSignal;
+            let onAbort: () => void;
+            const done: (response: HttpOperationResponse) => void = (response: HttpOperationResponse): void => {
+                if (onAbort) { abortSignal.removeEventListener('abort', onAbort); }
+                resolve(response);
+            };
+            const fail: (err: any) => void = (err: any): void => {
+                if (onAbort) { abortSignal.removeEventListener('abort', onAbort); }
+                reject(err instanceof RestError ? err : new RestError(err.message, RestError.REQUEST_SEND_ERROR, undefined, request));
+            };
+            if (abortSignal && abortSignal.aborted) {
+                return fail(new RestError('The request was aborted', RestError.REQUEST_ABORTED_ERROR, undefined, request));
+            }
+
+            const target: url.UrlWithStringQuery = url.parse(request.url);
+            const secure: boolean = target.protocol === 'https:';
+            const options: http.RequestOptions = {
+                protocol: target.protocol,
+                hostname: target.hostname,
+                port: target.port,
+                path: target.path,
+                method: request.method,
+                headers: request.headers.rawHeaders(),
+                agent: secure ? this.httpsAgent : this.httpAgent
+            };
+            const req: http.ClientRequest = (secure ? https : http).request(options, (res: http.IncomingMessage) => {
+                const headers: HttpHeaders = new HttpHeaders();
+                Object.keys(res.headers).forEach((name: string) => {
+                    const value: string | string[] = res.headers[name];
+                    headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+                });
+                let body: NodeJS.ReadableStream = res;
+                if (res.statusCode !== 204 && request.method !== 'HEAD' && ['gzip', 'compress', 'deflate'].indexOf(headers.get('content-encoding')) >= 0) {
+                    body = res.pipe(zlib.createUnzip());
+                    headers.remove('content-encoding');
+                }
+                const response: HttpOperationResponse = { request: request, status: res.statusCode, headers: headers };
+                if (request.streamResponseBody) {
+                    response.readableStreamBody = body;
+
+                    return done(response);
+                }
+                const chunks: Buffer[] = [];
+                body.on('data', (chunk: Buffer) => chunks.push(chunk));
+                body.on('error', fail);
+                body.on('end', () => {
+                    response.bodyAsText = Buffer.concat(chunks).toString('utf8');
+                    done(response);
+                });
+            });
+            req.on('error', fail);
+            if (request.timeout > 0) {
+                req.setTimeout(request.timeout, () => {
+                    req.abort();
+                    fail(new RestError(`The request timed out after ${ request.timeout }ms`, RestError.REQUEST_SEND_ERROR, undefined, request));
+                });
+            }
+            if (abortSignal) {
+                onAbort = (): void => {
+                    req.abort();
+                    fail(new RestError('The request was aborted', RestError.REQUEST_ABORTED_ERROR, undefined, request));
+                };
+                abortSignal.addEventListener('abort', onAbort);
+            }
+
+            const body: any = typeof request.body === 'function' ? request.body() : request.body;
+            if (body && typeof body.pipe === 'function') {
+                body.pipe(req);
+            } else {
+                req.end(body === undefined || body === null ? undefined : body);
+            }
+        });
+    }
+
+    public destroy(): void {
+        this.httpAgent.destroy();
+        this.httpsAgent.destroy();
+    }
+}
+
+/**
+ * @private
+ * Returns the proxy configured for a request URL, if any.
+ * @param requestUrl URL of the request.
+ */
+function getProxy(requestUrl: string): string {
+    const name: string = `${ requestUrl.toLowerCase().startsWith('https:') ? 'https' : 'http' }_proxy`;
+
+    return process.env[name] || process.env[name.toUpperCase()];
+}
@@ -0,0 +1,292 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import * as fs from 'async-file';
+import { ActivityTypes, ChannelAccount, ConversationReference, Middleware, TurnContext } from 'botbuilder-core';
+import * as filenamify from 'filenamify';
+import * as path from 'path';
+
+/**
+ * Predicate used to select stored conversation references.
+ */
+export type ConversationReferenceFilter = (reference: Partial<ConversationReference>) => boolean;
+
+/**
+ * Storage for the conversation references used to proactively message users.
+ *
+ * @remarks
+ * References are keyed by channel and conversation ID, so saving a reference for a conversation
+ * replaces the one previously stored for it.
+ */
+export interface ConversationReferenceStore {
+    /**
+     * Saves a reference, replacing any reference stored for the same conversation.
+     * @param reference Reference to save.
+     */
+    saveReference(reference: Partial<ConversationReference>): Promise<void>;
+
+    /**
+     * Returns the reference stored for a conversation, or `undefined` if there's none.
+     * @param channelId ID of the channel.
+     * @param conversationId ID of the conversation.
+     */
+    getReference(channelId: string, conversationId: string): Promise<Partial<ConversationReference>>;
+
+    /**
+     * Returns all the stored references matching a filter.
+     * @param filter (Optional) predicate used to select references. All references are returned when omitted.
+     */
+    findReferences(filter?: ConversationReferenceFilter): Promise<Partial<ConversationReference>[]>;
+
+    /**
+     * Deletes the reference stored for a conversation.
+     * @param channelId ID of the channel.
+     * @param conversationId ID of the conversation.
+     */
+    deleteReference(channelId: string, conversationId: string): Promise<void>;
+}
+
+/**
+ * Conversation reference store that keeps references in memory.
+ *
+ * @remarks
+ * References are lost when the process exits, so this should only be used for unit tests or
+ * non-production environments.
+ */
+export class MemoryConversationReferenceStore implements ConversationReferenceStore {
+    private readonly references: Map<string, Partial<ConversationReference>> = new Map<string, Partial<ConversationReference>>();
+
+    /**
+     * Saves a reference, replacing any reference stored for the same conversation.
+     * @param reference Reference to save.
+     */
+    public saveReference(reference: Partial<ConversationReference>): Promise<void> {
+        checkReference(reference);
+        this.references.set(getKey(reference.channelId, reference.conversation.id), copyReference(reference));
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Returns the reference stored for a conversation, or `undefined` if there's none.
+     * @param channelId ID of the channel.
+     * @param conversationId ID of the conversation.
+     */
+    public getReference(channelId: string, conversationId: string): Promise<Partial<ConversationReference>> {
+        const reference: Partial<ConversationReference> = this.references.get(getKey(channelId, conversationId));
+
+        return Promise.resolve(reference ? copyReference(reference) : undefined);
+    }
+
+    /**
+     * Returns all the stored references matching a filter.
+     * @param filter (Optional) predicate used to select references.
+     */
+    public findReferences(filter?: ConversationReferenceFilter): Promise<Partial<ConversationReference>[]> {
+        const references: Partial<ConversationReference>[] = [];
+        this.references.forEach((reference: Partial<ConversationReference>) => {
+            const copy: Partial<ConversationReference> = copyReference(reference);
+            if (!filter || filter(copy)) { references.push(copy); }
+        });
+
+        return Promise.resolve(references);
+    }
+
+    /**
+     * Deletes the reference stored for a conversation.
+     * @param channelId ID of the channel.
+     * @param conversationId ID of the conversation.
+     */
+    public deleteReference(channelId: string, conversationId: string): Promise<void> {
+        this.references.delete(getKey(channelId, conversationId));
+
+        return Promise.resolve();
+    }
+}
+
+/**
+ * Conversation reference store that keeps each reference in a JSON file.
+ *
+ * @remarks
+ * References are stored as `<folder>/<channelId>/<conversationId>.json`.
+ *
+ * ```javascript
+ * const { BotFrameworkAdapter, FileConversationReferenceStore } = require('botbuilder');
+ *
+ * const adapter = new BotFrameworkAdapter({
+ *     appId: process.env.MICROSOFT_APP_ID,
+ *     appPassword: process.env.MICROSOFT_APP_PASSWORD,
+ *     conversationReferenceStore: new FileConversationReferenceStore(__dirname + '/references/')
+ * });
+ * ```
+ */
+export class FileConversationReferenceStore implements ConversationReferenceStore {
+    private rootFolder: string;
+
+    /**
+     * Creates a new FileConversationReferenceStore instance.
+     * @param folder Root folder where references will be stored.
+     */
+    constructor(folder: string) {
+        if (!folder) {
+            throw new Error('Missing folder.');
+        }
+
+        this.rootFolder = folder;
+    }
+
+    /**
+     * Saves a reference, replacing any reference stored for the same conversation.
+     * @param reference Reference to save.
+     */
+    public saveReference(reference: Partial<ConversationReference>): Promise<void> {
+        checkReference(reference);
+        const channelFolder: string = this.getChannelFolder(reference.channelId);
+        const json: string = JSON.stringify(reference, null, '\t');
+
+        return fs.exists(channelFolder)
+            .then((exists: boolean) => { if (!exists) { return fs.mkdirp(channelFolder); } })
+            .then(() => fs.writeFile(this.getReferenceFile(reference.channelId, reference.conversation.id), json, 'utf8'));
+    }
+
+    /**
+     * Returns the reference stored for a conversation, or `undefined` if there's none.
+     * @param channelId ID of the channel.
+     * @param conversationId ID of the conversation.
+     */
+    public getReference(channelId: string, conversationId: string): Promise<Partial<ConversationReference>> {
+        const referenceFile: string = this.getReferenceFile(channelId, conversationId);
+
+        return fs.exists(referenceFile).then((exists: boolean) => {
+            if (!exists) { return undefined; }
+
+            return fs.readFile(referenceFile, 'utf8').then((json: string) => JSON.parse(json));
+        });
+    }
+
+    /**
+     * Returns all the stored references matching a filter.
+     * @param filter (Optional) predicate used to select references.
+     */
+    public findReferences(filter?: ConversationReferenceFilter): Promise<Partial<ConversationReference>[]> {
+        return fs.exists(this.rootFolder).then((exists: boolean) => {
+            if (!exists) { return []; }
+
+            return fs.readdir(this.rootFolder)
+                .then((channels: string[]) => Promise.all(channels.map((channel: string) => {
+                    const channelFolder: string = path.join(this.rootFolder, channel);
+
+                    return fs.stat(channelFolder).then((stats: any) => {
+                        if (!stats.isDirectory()) { return []; }
+
+                        return fs.readdir(channelFolder).then((files: string[]) => files
+                            .filter((f: string) => f.endsWith('.json'))
+                            .map((f: string) => path.join(channelFolder, f)));
+                    });
+                })))
+                .then((folders: string[][]) => Promise.all([].concat(...folders).map((f: string) => fs.readFile(f, 'utf8'))))
+                .then((jsons: string[]) => jsons
+                    .map((json: string) => JSON.parse(json))
+                    .filter((reference: Partial<ConversationReference>) => !filter || filter(reference)));
+        });
+    }
+
+    /**
+     * Deletes the reference stored for a conversation.
+     * @param channelId ID of the channel.
+     * @param conversationId ID of the conversation.
+     */
+    public deleteReference(channelId: string, conversationId: string): Promise<void> {
+        const referenceFile: string = this.getReferenceFile(channelId, conversationId);
+
+        return fs.exists(referenceFile).then((exists: boolean) => {
+            if (exists) { return fs.unlink(referenceFile); }
+        });
+    }
+
+    private getChannelFolder(channelId: string): string {
+        return path.join(this.rootFolder, filenamify(channelId));
+    }
+
+    private getReferenceFile(channelId: string, conversationId: string): string {
+        return path.join(this.getChannelFolder(channelId), `${ filenamify(conversationId) }.json`);
+    }
+}
+
+/**
+ * Middleware that saves a conversation reference for every incoming activity.
+ *
+ * @remarks
+ * The reference for a conversation is deleted when the bot is removed from it. Turns started by
+ * `continueConversation()` already come from a stored reference and are skipped.
+ *
+ * ```javascript
+ * const { ConversationReferenceMiddleware, MemoryConversationReferenceStore } = require('botbuilder');
+ *
+ * adapter.use(new ConversationReferenceMiddleware(new MemoryConversationReferenceStore()));
+ * ```
+ */
+export class ConversationReferenceMiddleware implements Middleware {
+    private readonly store: ConversationReferenceStore;
+
+    /**
+     * Creates a new ConversationReferenceMiddleware instance.
+     * @param store Store the references are saved to.
+     */
+    constructor(store: ConversationReferenceStore) {
+        if (!store) { throw new Error(`ConversationReferenceMiddleware: missing store.`); }
+        this.store = store;
+    }
+
+    /**
+     * Saves the reference of the incoming activity before continuing the turn.
+     * @param context Context for the current turn of conversation with the user.
+     * @param next Function to call to continue the turn.
+     */
+    public async onTurn(context: TurnContext, next: () => Promise<void>): Promise<void> {
+        const activity: any = context.activity;
+        if (activity && activity.channelId && activity.conversation && activity.conversation.id) {
+            const botRemoved: boolean = activity.type === ActivityTypes.ConversationUpdate &&
+                activity.recipient && (activity.membersRemoved || []).some((m: ChannelAccount) => m.id === activity.recipient.id);
+            if (botRemoved) {
+                await this.store.deleteReference(activity.channelId, activity.conversation.id);
+            } else if (activity.type && !(activity.type === ActivityTypes.Event && activity.name === 'continueConversation')) {
+                await this.store.saveReference(TurnContext.getConversationReference(activity));
+            }
+        }
+        await next();
+    }
+}
+
+/**
+ * @private
+ * @param reference Reference being saved.
+ */
+function checkReference(reference: Partial<ConversationReference>): void {
+    if (!reference) { throw new Error(`ConversationReferenceStore.saveReference(): missing reference`); }
+    if (!reference.channelId) { throw new Error(`ConversationReferenceStore.saveReference(): missing channelId`); }
+    if (!reference.conversation || !reference.conversation.id) {
+        throw new Error(`ConversationReferenceStore.saveReference(): missing conversation or conversation.id`);
+    }
+}
+
+/**
+ * @private
+ * @param channelId ID of the channel.
+ * @param conversationId ID of the conversation.
+ */
+function getKey(channelId: string, conversationId: string): string {
+    return `${ channelId }/${ conversationId }`;
+}
+
+/**
+ * @private
+ * @param reference Reference to copy.
+ */
+function copyReference(reference: Partial<ConversationReference>): Partial<ConversationReference> {
+    return JSON.parse(JSON.stringify(reference));
+}
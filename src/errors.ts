@@ -0,0 +1,152 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { ActivityViolation } from './activityValidator';
+
+/**
+ * Base class for the errors raised by the `BotFrameworkAdapter` while processing a request.
+ *
+ * @remarks
+ * The message of these errors is safe to return to the caller. Details about what actually went
+ * wrong are kept in `innerError` and should only be logged.
+ */
+export class BotFrameworkAdapterError extends Error {
+    /**
+     * HTTP status code that should be returned to the caller.
+     */
+    public readonly statusCode: number;
+
+    /**
+     * (Optional) underlying error that caused this error.
+     */
+    public readonly innerError?: any;
+
+    /**
+     * Creates a new BotFrameworkAdapterError instance.
+     * @param message Message that's safe to return to the caller.
+     * @param statusCode HTTP status code that should be returned to the caller.
+     * @param innerError (Optional) underlying error that caused this error.
+     */
+    constructor(message: string, statusCode: number, innerError?: any) {
+        super(message);
+        this.name = this.constructor.name;
+        this.statusCode = statusCode;
+        this.innerError = innerError;
+    }
+}
+
+/**
+ * Raised when the body of a request isn't a valid activity. Maps to a `400` status code.
+ */
+export class ActivityParseError extends BotFrameworkAdapterError {
+    /**
+     * Creates a new ActivityParseError instance.
+     * @param innerError (Optional) underlying error that caused this error.
+     */
+    constructor(innerError?: any) {
+        super(`The request body is not a valid activity.`, 400, innerError);
+    }
+}
+
+/**
+ * Raised when the identity of the sender of a request can't be verified. Maps to a `401` status code.
+ */
+export class AuthenticationError extends BotFrameworkAdapterError {
+    /**
+     * Creates a new AuthenticationError instance.
+     * @param innerError (Optional) underlying error that caused this error.
+     */
+    constructor(innerError?: any) {
+        super(`Unauthorized Access. Request is not authorized.`, 401, innerError);
+    }
+}
+
+/**
+ * Raised when the bots logic, or any middleware, fails while processing a turn. Maps to a `500`
+ * status code.
+ */
+export class BotLogicError extends BotFrameworkAdapterError {
+    /**
+     * Creates a new BotLogicError instance.
+     * @param innerError (Optional) underlying error that caused this error.
+     */
+    constructor(innerError?: any) {
+        super(`The bot encountered an error while processing the activity.`, 500, innerError);
+    }
+}
+
+/**
+ * Raised when the bot didn't return an `invokeResponse` for a received `invoke` activity. Maps to
+ * a `501` status code.
+ */
+export class InvokeNotHandledError extends BotFrameworkAdapterError {
+    /**
+     * Creates a new InvokeNotHandledError instance.
+     */
+    constructor() {
+        super(`The bot didn't return a response for the invoke activity.`, 501);
+    }
+}
+
+/**
+ * Raised in strict mode when an outbound activity has content the channel would reject.
+ *
+ * @remarks
+ * The error is raised by the bot's own sends, so when a turn fails with it `processActivity()`
+ * returns a `500` status code, with the error as the `innerError` of a `BotLogicError`. Its own
+ * `400` status code only describes the rejected activity.
+ */
+export class ActivityValidationError extends BotFrameworkAdapterError {
+    /**
+     * Problems found in the activity.
+     */
+    public readonly violations: ActivityViolation[];
+
+    /**
+     * Creates a new ActivityValidationError instance.
+     * @param violations Problems found in the activity.
+     */
+    constructor(violations: ActivityViolation[]) {
+        super(`The activity is not supported by the channel: ${ violations.map((v: ActivityViolation) => v.message).join(' ') }`, 400);
+        this.violations = violations;
+    }
+}
+
+/**
+ * Raised when the adapter is asked to call a service URL that isn't in its `trustedServiceUrls`
+ * list. Maps to a `403` status code.
+ */
+export class UntrustedServiceUrlError extends BotFrameworkAdapterError {
+    /**
+     * Service URL that was rejected.
+     */
+    public readonly serviceUrl: string;
+
+    /**
+     * Creates a new UntrustedServiceUrlError instance.
+     * @param serviceUrl Service URL that was rejected.
+     */
+    constructor(serviceUrl: string) {
+        super(`The service URL is not trusted.`, 403);
+        this.serviceUrl = serviceUrl;
+    }
+}
+
+/**
+ * Raised when the timestamp of a received activity is missing or too far from the current time.
+ * Maps to a `400` status code.
+ */
+export class ActivityTimestampError extends BotFrameworkAdapterError {
+    /**
+     * Creates a new ActivityTimestampError instance.
+     * @param innerError (Optional) underlying error that caused this error.
+     */
+    constructor(innerError?: any) {
+        super(`The activity timestamp is outside the accepted window.`, 400, innerError);
+    }
+}
@@ -6,10 +6,253 @@
  * Licensed under the MIT License.
  */
 import * as fs from 'async-file';
-import { Activity, PagedResult, TranscriptInfo, TranscriptStore } from 'botbuilder-core';
+import { Activity, ActivityTypes, PagedResult, TranscriptInfo, TranscriptStore } from 'botbuilder-core';
+import * as crypto from 'crypto';
 import * as filenamify from 'filenamify';
 import * as path from 'path';
 import * as rimraf from 'rimraf';
+import { decryptTranscriptFile, encryptTranscriptFile, TranscriptKeyProvider } from './transcriptKeyProvider';
+
+/**
+ * Limits enforced by `FileTranscriptStore.prune()`.
+ */
+export interface TranscriptRetentionLimits {
+    /**
+     * (Optional) age in milliseconds after which activities are deleted.
+     */
+    maxAge?: number;
+
+    /**
+     * (Optional) number of conversations kept per channel. The conversations with the oldest last
+     * activity are deleted first.
+     */
+    maxConversationsPerChannel?: number;
+}
+
+/**
+ * Retention policy of a `FileTranscriptStore`.
+ */
+export interface TranscriptRetentionPolicy extends TranscriptRetentionLimits {
+    /**
+     * (Optional) total size in bytes of the activity files kept across all channels. The
+     * conversations with the oldest last activity are deleted first.
+     */
+    maxTotalBytes?: number;
+
+    /**
+     * (Optional) limits for specific channels, merged over the limits of the policy.
+     */
+    channels?: { [channelId: string]: TranscriptRetentionLimits };
+
+    /**
+     * (Optional) interval in milliseconds at which `prune()` is run automatically. Errors raised
+     * by automatic runs are ignored and the next run tries again.
+     */
+    pruneInterval?: number;
+}
+
+/**
+ * Settings used to configure a `FileTranscriptStore`.
+ */
+export interface FileTranscriptStoreSettings {
+    /**
+     * (Optional) retention policy enforced by `prune()`.
+     */
+    retention?: TranscriptRetentionPolicy;
+
+    /**
+     * (Optional) provider of the keys used to encrypt activity files. When set, activities are
+     * encrypted with AES-256-GCM using the provider's current key. Files encrypted with earlier
+     * keys can still be read, and unencrypted files are rejected unless `allowPlaintext` is set.
+     */
+    keyProvider?: TranscriptKeyProvider;
+
+    /**
+     * (Optional) if `true` unencrypted files, like the ones written before `keyProvider` was set,
+     * can still be read. Defaults to `false`.
+     */
+    allowPlaintext?: boolean;
+
+    /**
+     * (Optional) if `true` a search index is maintained as activities are logged, so they can be
+     * found by text or user with `searchTranscripts()`. Defaults to `false`.
+     */
+    search?: boolean;
+
+    /**
+     * (Optional) number of items returned per page. Defaults to 20.
+     */
+    pageSize?: number;
+}
+
+/**
+ * Paging options of the `FileTranscriptStore` read methods.
+ */
+export interface TranscriptPageOptions {
+    /**
+     * (Optional) number of items returned per page. Defaults to the `pageSize` of the store.
+     */
+    pageSize?: number;
+}
+
+/**
+ * Options of `FileTranscriptStore.getTranscriptActivities()`.
+ */
+export interface TranscriptReadOptions extends TranscriptPageOptions {
+    /**
+     * (Optional) if `true` deleted activities are returned as `messageDelete` tombstones.
+     * Defaults to `false`.
+     */
+    includeDeleted?: boolean;
+
+    /**
+     * (Optional) if `true` activities that were updated or deleted are replaced by their full
+     * history: the original activity followed by the `messageUpdate` and `messageDelete` events
+     * logged for it. Pages can then hold more items than the page size. Defaults to `false`.
+     */
+    includeHistory?: boolean;
+}
+
+/**
+ * Conversation listed by `FileTranscriptStore.listTranscripts()`.
+ */
+export interface FileTranscriptInfo extends TranscriptInfo {
+    /**
+     * Time of the last activity of the conversation.
+     */
+    lastUpdated: Date;
+
+    /**
+     * Number of activities in the conversation.
+     */
+    activityCount: number;
+}
+
+/**
+ * Options for `FileTranscriptStore.listTranscripts()`.
+ */
+export interface TranscriptListOptions extends TranscriptPageOptions {
+    /**
+     * (Optional) order of the conversations. Defaults to `id`.
+     */
+    sortBy?: 'id' | 'created' | 'lastUpdated';
+
+    /**
+     * (Optional) if `true` conversations are listed in descending order. Defaults to `false`.
+     */
+    descending?: boolean;
+
+    /**
+     * (Optional) only list conversations with activities on or after this time.
+     */
+    startDate?: Date;
+
+    /**
+     * (Optional) only list conversations with activities on or before this time.
+     */
+    endDate?: Date;
+}
+
+/**
+ * Query passed to `FileTranscriptStore.searchTranscripts()`. All the conditions set must match.
+ */
+export interface TranscriptSearchQuery {
+    /**
+     * (Optional) words that must all appear in the activity text. Case is ignored.
+     */
+    text?: string;
+
+    /**
+     * (Optional) id of a user the activity was sent by or to.
+     */
+    userId?: string;
+
+    /**
+     * (Optional) activity type, like `message`.
+     */
+    type?: string;
+
+    /**
+     * (Optional) conversation to search in.
+     */
+    conversationId?: string;
+
+    /**
+     * (Optional) earliest time to include.
+     */
+    startDate?: Date;
+
+    /**
+     * (Optional) latest time to include.
+     */
+    endDate?: Date;
+}
+
+/**
+ * Activity found by `FileTranscriptStore.searchTranscripts()`.
+ */
+export interface TranscriptSearchResult {
+    /**
+     * Channel Id.
+     */
+    channelId: string;
+
+    /**
+     * Id of the conversation, as returned by `listTranscripts()`.
+     */
+    conversationId: string;
+
+    /**
+     * Id of the activity.
+     */
+    activityId: string;
+
+    /**
+     * Time the activity was logged with.
+     */
+    timestamp: Date;
+}
+
+/**
+ * Options for `FileTranscriptStore.prune()`.
+ */
+export interface TranscriptPruneOptions {
+    /**
+     * (Optional) if `true` nothing is deleted and the result lists what would have been. Defaults
+     * to `false`.
+     */
+    dryRun?: boolean;
+
+    /**
+     * (Optional) time used to compute the age of activities. Defaults to now.
+     */
+    now?: Date;
+}
+
+/**
+ * Outcome of `FileTranscriptStore.prune()`.
+ */
+export interface TranscriptPruneResult {
+    /**
+     * `true` if nothing was actually deleted.
+     */
+    dryRun: boolean;
+
+    /**
+     * Number of activities deleted, including those of deleted conversations.
+     */
+    deletedActivities: number;
+
+    /**
+     * Conversations deleted entirely, and the limit that caused it.
+     */
+    deletedConversations: { channelId: string; conversationId: string; reason: 'maxAge' | 'maxConversationsPerChannel' | 'maxTotalBytes' }[];
+
+    /**
+     * Number of bytes freed.
+     */
+    freedBytes: number;
+}
 
 /**
  * The file transcript store stores transcripts in file system with each activity as a file.
@@ -25,23 +268,70 @@ import * as rimraf from 'rimraf';
  *
  * adapter.use(new TranscriptLoggerMiddleware(new FileTranscriptStore(__dirname + '/transcripts/')));
  * ```
+ *
+ * Continuation tokens are opaque. They record the position of the last item returned, so paging
+ * continues from the right place even if that item has since been deleted. Tokens issued by
+ * earlier versions, which hold the id of the last item, are still accepted.
+ *
+ * `messageUpdate` and `messageDelete` activities, like the ones logged by the
+ * `TranscriptLoggerMiddleware` when a bot calls `updateActivity()` or `deleteActivity()`, change
+ * the activity they refer to instead of being added to the transcript. The activity file is
+ * rewritten with the latest content, or replaced by a tombstone once deleted, and every version
+ * is kept in the `.history` folder of the conversation.
+ *
+ * Each conversation folder also contains a `.index` file listing its activity files. It's updated
+ * as activities are logged and lets pages be looked up without listing the whole folder. A
+ * missing index, like for transcripts logged by older versions, is rebuilt on first read.
+ *
+ * Activity files can be encrypted by passing a key provider, like a `MemoryTranscriptKeyProvider`.
+ * File names, which hold the activity timestamp and id, aren't encrypted.
+ *
+ * With `search` enabled, the words of the activity text, the ids of its sender and recipient and its
+ * type are added to an inverted index in the `.search` folder, which `searchTranscripts()` uses
+ * to find activities across a channel. Terms are saved as hashes, but a hash can be matched to a
+ * guessed word, so encrypted stores should only enable search when that's acceptable. Transcripts
+ * logged before search was enabled are added by `rebuildSearchIndex()`.
+ *
+ * Transcripts can be deleted automatically by passing a retention policy:
+ * ```javascript
+ * const store = new FileTranscriptStore(__dirname + '/transcripts/', {
+ *     retention: {
+ *         maxAge: 90 * 24 * 60 * 60 * 1000,
+ *         channels: { sms: { maxAge: 7 * 24 * 60 * 60 * 1000 } },
+ *         pruneInterval: 60 * 60 * 1000
+ *     }
+ * });
+ * ```
  */
 export class FileTranscriptStore implements TranscriptStore {
 
     private static readonly PageSize: number = 20;
+    private static readonly IndexFile: string = '.index';
+    private static readonly SearchFolder: string = '.search';
+    private static readonly HistoryFolder: string = '.history';
 
     private rootFolder: string;
+    private settings: FileTranscriptStoreSettings;
+    private indexCache: Map<string, { size: number; files: string[] }> = new Map<string, { size: number; files: string[] }>();
+    private locks: Map<string, Promise<void>> = new Map<string, Promise<void>>();
 
     /**
      * Creates an instance of FileTranscriptStore.
      * @param folder Root folder where transcript will be stored.
+     * @param settings (Optional) settings used to configure the store.
      */
-    constructor(folder: string) {
+    constructor(folder: string, settings?: FileTranscriptStoreSettings) {
         if (!folder) {
             throw new Error('Missing folder.');
         }
 
         this.rootFolder = folder;
+        this.settings = { ...settings };
+        if (this.settings.pageSize !== undefined) { this.getPageSize(); }
+        if (this.settings.retention && this.settings.retention.pruneInterval > 0) {
+            const timer: any = setInterval(() => { this.prune().catch(() => undefined); }, this.settings.retention.pruneInterval);
+            if (timer.unref) { timer.unref(); }
+        }
     }
 
     /**
@@ -54,9 +344,17 @@ export class FileTranscriptStore implements TranscriptStore {
         }
 
         const conversationFolder: string = this.getTranscriptFolder(activity.channelId, activity.conversation.id);
+        if (activity.type === ActivityTypes.MessageUpdate || activity.type === ActivityTypes.MessageDelete) {
+            return this.withLock(conversationFolder, () => this.applyChange(activity, conversationFolder)
+                .then((change: { previous: Activity; activity: Activity; fileName: string }) =>
+                    this.replaceInSearchIndex(change.previous, change.activity, change.fileName)));
+        }
+
         const activityFileName: string = this.getActivityFilename(activity);
 
-        return this.saveActivity(activity, conversationFolder, activityFileName);
+        return this.withLock(conversationFolder, () => this.saveActivity(activity, conversationFolder, activityFileName)
+            .then(() => this.addToIndex(conversationFolder, activityFileName)))
+            .then(() => this.settings.search ? this.addToSearchIndex(activity, activityFileName) : undefined);
     }
 
     /**
@@ -65,90 +363,108 @@ export class FileTranscriptStore implements TranscriptStore {
      * @param conversationId Conversation Id.
      * @param continuationToken (Optional) Continuation token to page through results.
      * @param startDate (Optional) Earliest time to include.
+     * @param options (Optional) paging options and whether to include deleted activities or
+     * the history of changed ones.
      */
     public getTranscriptActivities(
         channelId: string,
         conversationId: string,
         continuationToken?: string,
-        startDate?: Date
+        startDate?: Date,
+        options?: TranscriptReadOptions
     ): Promise<PagedResult<Activity>> {
         if (!channelId) { throw new Error('Missing channelId'); }
 
         if (!conversationId) { throw new Error('Missing conversationId'); }
 
+        const pageSize: number = this.getPageSize(options);
         const pagedResult: PagedResult<Activity> = { items: [], continuationToken: undefined };
         const transcriptFolder: string = this.getTranscriptFolder(channelId, conversationId);
 
-        return fs.exists(transcriptFolder).then((exists: boolean) => {
-            if (!exists) { return pagedResult; }
-
-            return fs.readdir(transcriptFolder)
-                .then((files: string[]) => files
-                    .filter((f: string) => f.endsWith('.json'))     // .json only
-                    .sort()                                         // sorted
-                    .filter(withDateFilter(startDate)))             // >= startDate
-                .then((files: string[]) => {                        // get proper page
-                    if (continuationToken) {
-                        return files
-                            .filter(withContinuationToken(continuationToken))
-                            .slice(1, FileTranscriptStore.PageSize + 1);
+        return this.readIndex(transcriptFolder)
+            .then((files: string[]) => {                            // get proper page
+                let start: number = findFirstFile(files, startDate);
+                if (continuationToken) {
+                    const position: ContinuationPosition = parseContinuationToken(continuationToken);
+                    if (position) {
+                        start = Math.max(start, findFileAfter(files, `${ position.k }-${ position.id }.json`));
                     } else {
-                        return files.slice(0, FileTranscriptStore.PageSize);
-                    }
-                })
-                .then((files: string[]) => files.map((activityFilename: string) =>
-                    fs.readFile(path.join(transcriptFolder, activityFilename), 'utf8')))
-                .then((reads: any[]) => Promise.all(reads))
-                .then((jsons: string[]) => {
-                    const items: Activity[] = jsons.map(parseActivity);
-                    pagedResult.items = items;
-                    if (pagedResult.items.length === FileTranscriptStore.PageSize) {
-                        pagedResult.continuationToken = pagedResult.items[pagedResult.items.length - 1].id;
+                        const last: number = findTokenFile(files, start, continuationToken);
+                        start = last < 0 ? files.length : last + 1;
                     }
+                }
 
-                    return pagedResult;
-                });
-        });
+                const page: string[] = files.slice(start, start + pageSize);
+                if (page.length === pageSize) {
+                    const last: string = page[page.length - 1];
+                    pagedResult.continuationToken = createContinuationToken({ k: last.split('-')[0], id: getFileId(last) });
+                }
+
+                return page;
+            })
+            .then((files: string[]) => this.readActivities(transcriptFolder, files))
+            .then((items: Activity[]) => this.applyReadOptions(transcriptFolder, items, options || {}))
+            .then((items: Activity[]) => {
+                pagedResult.items = items;
+
+                return pagedResult;
+            });
     }
 
     /**
-     * List all the logged conversations for a given channelId.
+     * Streams all the activities of a conversation, in the order they were sent.
+     *
+     * @remarks
+     * Activities are read a page at a time, so this can be used on transcripts too large to be
+     * loaded at once.
+     *
+     * ```javascript
+     * for await (const activity of store.streamTranscriptActivities('msteams', conversationId)) {
+     *     console.log(activity.text);
+     * }
+     * ```
      * @param channelId Channel Id.
-     * @param continuationToken (Optional) Continuation token to page through results.
+     * @param conversationId Conversation Id.
+     * @param startDate (Optional) Earliest time to include.
      */
-    public listTranscripts(channelId: string, continuationToken?: string): Promise<PagedResult<TranscriptInfo>> {
+    public async *streamTranscriptActivities(channelId: string, conversationId: string, startDate?: Date): AsyncIterableIterator<Activity> {
         if (!channelId) { throw new Error('Missing channelId'); }
 
-        const pagedResult: PagedResult<TranscriptInfo> = { items: [], continuationToken: undefined };
-        const channelFolder: string = this.getChannelFolder(channelId);
-
-        return fs.exists(channelFolder).then((exists: boolean) => {
-            if (!exists) { return pagedResult; }
-
-            return fs.readdir(channelFolder)
-                .then((dirs: string[]) => {
-                    let items: string[] = [];
-                    if (continuationToken) {
-                        items = dirs
-                            .filter(skipWhileExpression((di: string) => di !== continuationToken))
-                            .slice(1, FileTranscriptStore.PageSize + 1);
-                    } else {
-                        items = dirs.slice(0, FileTranscriptStore.PageSize);
-                    }
+        if (!conversationId) { throw new Error('Missing conversationId'); }
 
-                    pagedResult.items = items.map((i: string) => ({
-                        channelId: channelId,
-                        id: i,
-                        created: null
-                    }));
+        const transcriptFolder: string = this.getTranscriptFolder(channelId, conversationId);
+        const files: string[] = await this.readIndex(transcriptFolder);
+        const pageSize: number = this.getPageSize();
+        for (let i = findFirstFile(files, startDate); i < files.length; i += pageSize) {
+            const activities: Activity[] = await this.readActivities(transcriptFolder, files.slice(i, i + pageSize));
+            for (const activity of activities) {
+                if (activity.type !== ActivityTypes.MessageDelete) { yield activity; }
+            }
+        }
+    }
 
-                    if (pagedResult.items.length === FileTranscriptStore.PageSize) {
-                        pagedResult.continuationToken = pagedResult.items[pagedResult.items.length - 1].id;
-                    }
+    /**
+     * List all the logged conversations for a given channelId.
+     *
+     * @remarks
+     * `created` and `lastUpdated` are the times of the first and last activities of each
+     * conversation, or the times the folder was created and changed if it has no activities.
+     *
+     * ```javascript
+     * const recent = await store.listTranscripts('msteams', undefined, { sortBy: 'lastUpdated', descending: true });
+     * ```
+     * @param channelId Channel Id.
+     * @param continuationToken (Optional) Continuation token to page through results.
+     * @param options (Optional) sort order and date range of the conversations.
+     */
+    public listTranscripts(
+        channelId: string,
+        continuationToken?: string,
+        options?: TranscriptListOptions
+    ): Promise<PagedResult<FileTranscriptInfo>> {
+        if (!channelId) { throw new Error('Missing channelId'); }
 
-                    return pagedResult;
-                });
-        });
+        return this.listConversations(channelId, continuationToken, this.getPageSize(options), { sortBy: 'id', ...options });
     }
 
     /**
@@ -162,19 +478,579 @@ export class FileTranscriptStore implements TranscriptStore {
         if (!conversationId) { throw new Error('Missing conversationId'); }
 
         const transcriptFolder: string = this.getTranscriptFolder(channelId, conversationId);
+        const conversation: string = this.sanitizeKey(conversationId);
+
+        return this.withLock(transcriptFolder, () => new Promise((resolve: any): void =>
+            rimraf(transcriptFolder, resolve))
+            .then(() => { this.indexCache.delete(transcriptFolder); })
+            .then(() => this.removeFromSearchIndex(this.getSearchFolder(channelId), (c: string) => c === conversation)));
+    }
+
+    /**
+     * Finds the activities of a channel matching a query, oldest first.
+     *
+     * @remarks
+     * Queries using `text`, `userId` or `type` need the `search` setting. Queries using only
+     * `conversationId` and dates work on any store.
+     *
+     * Activities are matched on their latest content: the text of updated activities is replaced
+     * in the index and deleted activities are only found by their type and users. Deleted
+     * activities are skipped unless `includeDeleted` or `includeHistory` is set.
+     *
+     * ```javascript
+     * const result = await store.searchTranscripts('msteams', { userId: 'user-id', text: 'refund' });
+     * result.items.forEach((item) => console.log(`${ item.conversationId }: ${ item.activityId }`));
+     * ```
+     * @param channelId Channel Id.
+     * @param query Conditions the activities must match.
+     * @param continuationToken (Optional) Continuation token to page through results.
+     * @param options (Optional) paging options and whether to include deleted activities.
+     */
+    public async searchTranscripts(
+        channelId: string,
+        query: TranscriptSearchQuery,
+        continuationToken?: string,
+        options?: TranscriptReadOptions
+    ): Promise<PagedResult<TranscriptSearchResult>> {
+        if (!channelId) { throw new Error('Missing channelId'); }
+
+        if (!query) { throw new Error('Missing query'); }
+
+        const pageSize: number = this.getPageSize(options);
+        const channelFolder: string = this.getChannelFolder(channelId);
+        const terms: string[] = getSearchTerms(query);
+        const candidates: Map<string, Set<string>> = new Map<string, Set<string>>();
+        if (terms.length > 0) {
+            if (!this.settings.search) {
+                throw new Error(`FileTranscriptStore.searchTranscripts(): the search setting is needed to query text, users or types.`);
+            }
+            let matches: Set<string>;
+            for (const term of terms) {
+                const postings: Set<string> = await this.readPostings(channelId, term);
+                matches = matches ? new Set(Array.from(matches).filter((key: string) => postings.has(key))) : postings;
+                if (matches.size === 0) { break; }
+            }
+            matches.forEach((key: string) => {
+                const [conversation, file]: string[] = key.split('\t');
+                if (!candidates.has(conversation)) { candidates.set(conversation, new Set<string>()); }
+                candidates.get(conversation).add(file);
+            });
+        } else {
+            for (const conversation of await listFolders(channelFolder)) {
+                candidates.set(conversation, undefined);
+            }
+        }
+
+        // The index of each conversation filters out activities deleted since they were indexed.
+        const conversationFilter: string = query.conversationId ? this.sanitizeKey(query.conversationId) : undefined;
+        const startTicks: string = query.startDate ? padTicks(getTicks(query.startDate)) : undefined;
+        const endTicks: string = query.endDate ? padTicks(getTicks(query.endDate)) : undefined;
+        const includeDeleted: boolean = !!(options && (options.includeDeleted || options.includeHistory));
+        const results: { key: string; conversation: string; file: string }[] = [];
+        for (const [conversation, matched] of Array.from(candidates.entries())) {
+            if (conversationFilter && conversation !== conversationFilter) { continue; }
+            const conversationFolder: string = path.join(channelFolder, conversation);
+            const files: string[] = (await this.readIndex(conversationFolder)).filter((file: string) => {
+                const ticks: string = padTicks(file.split('-')[0]);
+
+                return !((matched && !matched.has(file)) || (startTicks && ticks < startTicks) || (endTicks && ticks > endTicks));
+            });
+            const deleted: Set<string> = includeDeleted ? new Set<string>() : await this.findDeletedFiles(conversationFolder, files);
+            files.filter((file: string) => !deleted.has(file)).forEach((file: string) => {
+                results.push({ key: `${ padTicks(file.split('-')[0]) }/${ file }/${ conversation }`, conversation: conversation, file: file });
+            });
+        }
+        results.sort((a: { key: string }, b: { key: string }) => a.key < b.key ? -1 : a.key > b.key ? 1 : 0);
+
+        const position: ContinuationPosition = continuationToken ? parseContinuationToken(continuationToken) : undefined;
+        const after: string = position ? position.k : continuationToken;
+        const start: number = after ? results.findIndex((r: { key: string }) => r.key > after) : 0;
+        const page: { key: string; conversation: string; file: string }[] = start < 0 ? [] : results.slice(start, start + pageSize);
+        const pagedResult: PagedResult<TranscriptSearchResult> = {
+            items: page.map((r: { conversation: string; file: string }) => ({
+                channelId: channelId,
+                conversationId: r.conversation,
+                activityId: getFileId(r.file),
+                timestamp: readDate(r.file.split('-')[0])
+            })),
+            continuationToken: undefined
+        };
+        if (page.length === pageSize) {
+            pagedResult.continuationToken = createContinuationToken({ k: page[page.length - 1].key });
+        }
+
+        return pagedResult;
+    }
 
-        return new Promise((resolve: any): void =>
-            rimraf(transcriptFolder, resolve));
+    /**
+     * Rebuilds the search index from the logged activities.
+     *
+     * @remarks
+     * Use this to add transcripts logged before the `search` setting was enabled. Entries are
+     * removed as conversations are deleted, so the index doesn't need to be rebuilt for that.
+     * Activities logged while the index is rebuilt may be missed.
+     * @param channelId (Optional) channel to rebuild. Defaults to all channels.
+     */
+    public async rebuildSearchIndex(channelId?: string): Promise<void> {
+        const channels: string[] = channelId ? [this.sanitizeKey(channelId)] : await listFolders(this.rootFolder);
+        for (const channel of channels) {
+            await new Promise((resolve: any): void => rimraf(path.join(this.rootFolder, FileTranscriptStore.SearchFolder, channel), resolve));
+            for (const conversation of await listFolders(path.join(this.rootFolder, channel))) {
+                const conversationFolder: string = path.join(this.rootFolder, channel, conversation);
+                const files: string[] = await this.readIndex(conversationFolder);
+                for (let i = 0; i < files.length; i += FileTranscriptStore.PageSize) {
+                    const page: string[] = files.slice(i, i + FileTranscriptStore.PageSize);
+                    const activities: Activity[] = await this.readActivities(conversationFolder, page);
+                    for (const activity of activities) {
+                        await this.addToSearchIndex(activity, this.getActivityFilename(activity));
+                    }
+                }
+            }
+        }
     }
 
-    private saveActivity(activity: Activity, transcriptPath: string, activityFilename: string): Promise<void> {
+    /**
+     * Deletes the activities and conversations that exceed the retention policy of the store.
+     *
+     * @remarks
+     * Activities older than `maxAge` are deleted first, along with conversations left empty. Then,
+     * the conversations with the oldest last activity are deleted until each channel is within
+     * `maxConversationsPerChannel` and the store is within `maxTotalBytes`. Ages are based on the
+     * activity timestamps encoded in the file names. The search postings of deleted activities are
+     * removed too.
+     * @param options (Optional) options for this run.
+     */
+    public async prune(options?: TranscriptPruneOptions): Promise<TranscriptPruneResult> {
+        const retention: TranscriptRetentionPolicy = this.settings.retention || {};
+        const dryRun: boolean = !!(options && options.dryRun);
+        const now: number = (options && options.now ? options.now : new Date()).getTime();
+        const result: TranscriptPruneResult = { dryRun: dryRun, deletedActivities: 0, deletedConversations: [], freedBytes: 0 };
+        // Search postings of the deleted conversations and activity files, by channel.
+        const purged: Map<string, Set<string>> = new Map<string, Set<string>>();
+        const purge: (channelId: string, key: string) => void = (channelId: string, key: string): void => {
+            if (!purged.has(channelId)) { purged.set(channelId, new Set<string>()); }
+            purged.get(channelId).add(key);
+        };
+        const deleteConversation: (usage: ConversationUsage, reason: 'maxAge' | 'maxConversationsPerChannel' | 'maxTotalBytes') => Promise<void> =
+            async (usage: ConversationUsage, reason: 'maxAge' | 'maxConversationsPerChannel' | 'maxTotalBytes'): Promise<void> => {
+                result.deletedConversations.push({ channelId: usage.channelId, conversationId: usage.conversationId, reason: reason });
+                result.deletedActivities += usage.count;
+                result.freedBytes += usage.bytes;
+                if (!dryRun) {
+                    await this.withLock(usage.folder, () => new Promise((resolve: any): void => rimraf(usage.folder, resolve))
+                        .then(() => { this.indexCache.delete(usage.folder); }));
+                    purge(usage.channelId, usage.conversationId);
+                }
+            };
+
+        const kept: ConversationUsage[] = [];
+        for (const channelId of await listFolders(this.rootFolder)) {
+            const limits: TranscriptRetentionLimits = { ...retention, ...getChannelLimits(retention, channelId) };
+            const channel: ConversationUsage[] = [];
+            for (const conversationId of await listFolders(path.join(this.rootFolder, channelId))) {
+                const folder: string = path.join(this.rootFolder, channelId, conversationId);
+                const files: string[] = parseIndex((await fs.readdir(folder)).join('\n'));
+                const sizes: number[] = await Promise.all(files.map((f: string) => fs.stat(path.join(folder, f)).then((stats: any) => stats.size)));
+                const usage: ConversationUsage = { channelId: channelId, conversationId: conversationId, folder: folder, lastActivity: 0, bytes: 0, count: 0 };
+                const expired: string[] = [];
+                let expiredBytes: number = 0;
+                files.forEach((f: string, i: number) => {
+                    const timestamp: number = readDate(f.split('-')[0]).getTime();
+                    if (limits.maxAge > 0 && now - timestamp > limits.maxAge) {
+                        expired.push(f);
+                        expiredBytes += sizes[i];
+                    } else {
+                        usage.lastActivity = Math.max(usage.lastActivity, timestamp);
+                        usage.bytes += sizes[i];
+                        usage.count++;
+                    }
+                });
+
+                if (expired.length > 0 && usage.count === 0) {
+                    await deleteConversation({ ...usage, bytes: expiredBytes, count: expired.length }, 'maxAge');
+                    continue;
+                }
+                if (expired.length > 0) {
+                    result.deletedActivities += expired.length;
+                    result.freedBytes += expiredBytes;
+                    if (!dryRun) {
+                        const deleteFile: (f: string) => Promise<void> = (f: string): Promise<void> => fs.unlink(path.join(folder, f))
+                            .then(() => new Promise<void>((resolve: any): void =>
+                                rimraf(path.join(folder, FileTranscriptStore.HistoryFolder, getFileId(f)), resolve)));
+                        await this.withLock(folder, () => Promise.all(expired.map(deleteFile)).then(() => this.rebuildIndex(folder)));
+                        expired.forEach((f: string) => purge(channelId, `${ conversationId }\t${ f }`));
+                    }
+                }
+                channel.push(usage);
+            }
+
+            // Most recently active conversations first.
+            channel.sort((a: ConversationUsage, b: ConversationUsage) => b.lastActivity - a.lastActivity);
+            if (limits.maxConversationsPerChannel >= 0) {
+                for (const usage of channel.splice(limits.maxConversationsPerChannel)) {
+                    await deleteConversation(usage, 'maxConversationsPerChannel');
+                }
+            }
+            kept.push(...channel);
+        }
+
+        if (retention.maxTotalBytes >= 0) {
+            kept.sort((a: ConversationUsage, b: ConversationUsage) => a.lastActivity - b.lastActivity);
+            let total: number = kept.reduce((sum: number, usage: ConversationUsage) => sum + usage.bytes, 0);
+            while (total > retention.maxTotalBytes && kept.length > 0) {
+                const usage: ConversationUsage = kept.shift();
+                total -= usage.bytes;
+                await deleteConversation(usage, 'maxTotalBytes');
+            }
+        }
+
+        for (const [channelId, keys] of Array.from(purged.entries())) {
+            await this.removeFromSearchIndex(path.join(this.rootFolder, FileTranscriptStore.SearchFolder, channelId), (conversation: string, file: string) =>
+                keys.has(conversation) || keys.has(`${ conversation }\t${ file }`));
+        }
+
+        return result;
+    }
+
+    private async listConversations(
+        channelId: string,
+        continuationToken: string,
+        pageSize: number,
+        options: TranscriptListOptions
+    ): Promise<PagedResult<FileTranscriptInfo>> {
+        const pagedResult: PagedResult<FileTranscriptInfo> = { items: [], continuationToken: undefined };
+        const channelFolder: string = this.getChannelFolder(channelId);
+        const ids: string[] = await listFolders(channelFolder);
+        const getInfo: (id: string) => Promise<FileTranscriptInfo> = async (id: string): Promise<FileTranscriptInfo> => {
+            const folder: string = path.join(channelFolder, id);
+            const files: string[] = await this.readIndex(folder);
+            if (files.length === 0) {
+                const stats: any = await fs.stat(folder);
+
+                return { channelId: channelId, id: id, created: stats.birthtime, lastUpdated: stats.mtime, activityCount: 0 };
+            }
+
+            return {
+                channelId: channelId,
+                id: id,
+                created: readDate(files[0].split('-')[0]),
+                lastUpdated: readDate(files[files.length - 1].split('-')[0]),
+                activityCount: files.length
+            };
+        };
+
+        const position: ContinuationPosition = continuationToken ? parseContinuationToken(continuationToken) : undefined;
+
+        // Sorting by id without filters only needs the details of the conversations on the page.
+        if (options.sortBy === 'id' && !options.startDate && !options.endDate) {
+            if (options.descending) { ids.reverse(); }
+            const start: number = continuationToken ? findToken(ids, position ? position.id : continuationToken, options.descending) : 0;
+            pagedResult.items = await Promise.all(ids.slice(start, start + pageSize).map(getInfo));
+            if (pagedResult.items.length === pageSize) {
+                pagedResult.continuationToken = createContinuationToken({ id: pagedResult.items[pagedResult.items.length - 1].id });
+            }
+
+            return pagedResult;
+        }
+
+        const all: FileTranscriptInfo[] = (await Promise.all(ids.map(getInfo))).filter((info: FileTranscriptInfo) =>
+            (!options.startDate || info.lastUpdated >= options.startDate) && (!options.endDate || info.created <= options.endDate));
+        const direction: number = options.descending ? -1 : 1;
+        const sortKey: (info: FileTranscriptInfo) => number = (info: FileTranscriptInfo): number =>
+            options.sortBy === 'id' ? 0 : info[options.sortBy].getTime();
+        const compare: (a: { key: number; id: string }, b: { key: number; id: string }) => number =
+            (a: { key: number; id: string }, b: { key: number; id: string }): number =>
+                direction * ((a.key - b.key) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+        all.sort((a: FileTranscriptInfo, b: FileTranscriptInfo) => compare({ key: sortKey(a), id: a.id }, { key: sortKey(b), id: b.id }));
+
+        let start: number = 0;
+        if (continuationToken) {
+            // Tokens from earlier versions only hold the id of the last conversation.
+            const anchorInfo: FileTranscriptInfo = position ? undefined : all.find((info: FileTranscriptInfo) => info.id === continuationToken);
+            const anchor: { key: number; id: string } = position
+                ? { key: Number(position.k) || 0, id: position.id }
+                : anchorInfo ? { key: sortKey(anchorInfo), id: anchorInfo.id } : undefined;
+            start = anchor ? all.findIndex((info: FileTranscriptInfo) => compare({ key: sortKey(info), id: info.id }, anchor) > 0) : -1;
+            if (start < 0) { start = all.length; }
+        }
+        pagedResult.items = all.slice(start, start + pageSize);
+        if (pagedResult.items.length === pageSize) {
+            const last: FileTranscriptInfo = pagedResult.items[pagedResult.items.length - 1];
+            pagedResult.continuationToken = createContinuationToken({ k: `${ sortKey(last) }`, id: last.id });
+        }
+
+        return pagedResult;
+    }
+
+    private saveActivity(activity: Activity, transcriptPath: string, activityFilename: string, namePrefix: string = ''): Promise<void> {
         const json: string = JSON.stringify(activity, null, '\t');
+        const content: Promise<string> = this.settings.keyProvider
+            ? encryptTranscriptFile(json, `${ namePrefix }${ activityFilename }`, this.settings.keyProvider)
+            : Promise.resolve(json);
+
+        return Promise.all([content, this.ensureFolder(transcriptPath)]).then(([text]: [string, void]) => {
+            return fs.writeFile(path.join(transcriptPath, activityFilename), text, 'utf8');
+        });
+    }
+
+    private readActivities(transcriptFolder: string, files: string[], namePrefix: string = ''): Promise<Activity[]> {
+        return Promise.all(files.map((activityFilename: string) =>
+            fs.readFile(path.join(transcriptFolder, activityFilename), 'utf8')
+                .then((text: string) =>
+                    decryptTranscriptFile(text, `${ namePrefix }${ activityFilename }`, this.settings.keyProvider, this.settings.allowPlaintext),
+                      () => undefined)))                           // skip files removed since indexed
+            .then((jsons: string[]) => jsons
+                .filter((json: string) => json !== undefined)
+                .map(parseActivity));
+    }
+
+    private async applyChange(change: Activity, transcriptFolder: string): Promise<{ previous: Activity; activity: Activity; fileName: string }> {
+        const id: string = this.sanitizeKey(change.id);
+        // Called with the conversation locked, so a missing index is rebuilt without taking the lock again.
+        const existing: string = (await this.readIndex(transcriptFolder, true)).find((f: string) => getFileId(f) === id);
+        const fileName: string = existing || this.getActivityFilename(change);
+        const current: Activity = existing ? (await this.readActivities(transcriptFolder, [existing]))[0] : undefined;
+
+        // The first change also saves the original activity to the history.
+        const historyFolder: string = path.join(transcriptFolder, FileTranscriptStore.HistoryFolder, id);
+        const historyPrefix: string = `${ FileTranscriptStore.HistoryFolder }/${ id }/`;
+        let version: number = (await this.listVersions(historyFolder)).length;
+        if (version === 0 && current) {
+            await this.saveActivity(current, historyFolder, getVersionFilename(++version), historyPrefix);
+        }
+        await this.saveActivity(change, historyFolder, getVersionFilename(++version), historyPrefix);
+
+        const base: Activity = current || change;
+        const latest: Activity = change.type === ActivityTypes.MessageUpdate
+            ? { ...change, type: current ? current.type : ActivityTypes.Message, id: base.id, timestamp: base.timestamp }
+            : {
+                type: ActivityTypes.MessageDelete,
+                id: base.id,
+                timestamp: base.timestamp,
+                channelId: base.channelId,
+                conversation: base.conversation,
+                from: base.from,
+                recipient: base.recipient,
+                replyToId: base.replyToId
+            } as Activity;
+        await this.saveActivity(latest, transcriptFolder, fileName);
+        if (!existing) { await this.addToIndex(transcriptFolder, fileName); }
+
+        return { previous: current, activity: latest, fileName: fileName };
+    }
+
+    private async applyReadOptions(transcriptFolder: string, activities: Activity[], options: TranscriptReadOptions): Promise<Activity[]> {
+        if (!options.includeHistory) {
+            return options.includeDeleted
+                ? activities
+                : activities.filter((activity: Activity) => activity.type !== ActivityTypes.MessageDelete);
+        }
+
+        const items: Activity[] = [];
+        for (const activity of activities) {
+            const id: string = this.sanitizeKey(activity.id);
+            const historyFolder: string = path.join(transcriptFolder, FileTranscriptStore.HistoryFolder, id);
+            const versions: string[] = await this.listVersions(historyFolder);
+            if (versions.length === 0) {
+                items.push(activity);
+            } else {
+                items.push(...await this.readActivities(historyFolder, versions, `${ FileTranscriptStore.HistoryFolder }/${ id }/`));
+            }
+        }
+
+        return items;
+    }
+
+    /**
+     * Returns the files of a conversation that hold the tombstone of a deleted activity.
+     * @param transcriptFolder Folder of the conversation.
+     * @param files Activity files to check.
+     */
+    private async findDeletedFiles(transcriptFolder: string, files: string[]): Promise<Set<string>> {
+        // Only activities with a history can have been deleted.
+        const historyFolder: string = path.join(transcriptFolder, FileTranscriptStore.HistoryFolder);
+        const changed: Set<string> = new Set<string>(await fs.exists(historyFolder) ? await fs.readdir(historyFolder) : []);
+        const deleted: Set<string> = new Set<string>();
+        for (const file of files.filter((f: string) => changed.has(getFileId(f)))) {
+            const activity: Activity = (await this.readActivities(transcriptFolder, [file]))[0];
+            if (activity && activity.type === ActivityTypes.MessageDelete) { deleted.add(file); }
+        }
+
+        return deleted;
+    }
+
+    private listVersions(historyFolder: string): Promise<string[]> {
+        return fs.exists(historyFolder).then((exists: boolean) => {
+            if (!exists) { return []; }
+
+            return fs.readdir(historyFolder).then((files: string[]) => files.filter((f: string) => f.endsWith('.json')).sort());
+        });
+    }
+
+    private readIndex(transcriptFolder: string, locked: boolean = false): Promise<string[]> {
+        const indexFile: string = path.join(transcriptFolder, FileTranscriptStore.IndexFile);
+
+        return fs.exists(transcriptFolder).then((folderExists: boolean) => {
+            if (!folderExists) { return []; }
+
+            return fs.exists(indexFile).then((exists: boolean) => {
+                if (!exists) {
+                    return locked ? this.rebuildIndex(transcriptFolder) : this.withLock(transcriptFolder, () => this.rebuildIndex(transcriptFolder));
+                }
+
+                return fs.stat(indexFile).then((stats: any) => {
+                    const cached: { size: number; files: string[] } = this.indexCache.get(transcriptFolder);
+                    if (cached && cached.size === stats.size) { return cached.files; }
+
+                    return fs.readFile(indexFile, 'utf8').then((text: string) => {
+                        const files: string[] = parseIndex(text);
+                        this.indexCache.set(transcriptFolder, { size: stats.size, files: files });
+
+                        return files;
+                    });
+                });
+            });
+        });
+    }
+
+    private rebuildIndex(transcriptFolder: string): Promise<string[]> {
+        return fs.readdir(transcriptFolder)
+            .then((files: string[]) => parseIndex(files.join('\n')))
+            .then((files: string[]) => {
+                const text: string = files.map((f: string) => `${ f }\n`).join('');
+
+                return fs.writeFile(path.join(transcriptFolder, FileTranscriptStore.IndexFile), text, 'utf8').then(() => {
+                    this.indexCache.set(transcriptFolder, { size: Buffer.byteLength(text), files: files });
+
+                    return files;
+                });
+            });
+    }
+
+    private addToIndex(transcriptFolder: string, activityFilename: string): Promise<void> {
+        const indexFile: string = path.join(transcriptFolder, FileTranscriptStore.IndexFile);
+        const line: string = `${ activityFilename }\n`;
+
+        return fs.exists(indexFile).then((exists: boolean) => {
+            if (!exists) { return this.rebuildIndex(transcriptFolder).then(() => undefined); }
+
+            return fs.appendFile(indexFile, line, { encoding: 'utf8' })
+                .then(() => fs.stat(indexFile))
+                .then((stats: any) => {
+                    // Keep the cached index if nobody else changed the file since it was read.
+                    const cached: { size: number; files: string[] } = this.indexCache.get(transcriptFolder);
+                    if (!cached) { return; }
+                    if (cached.size + Buffer.byteLength(line) !== stats.size) {
+                        this.indexCache.delete(transcriptFolder);
+
+                        return;
+                    }
+                    cached.size = stats.size;
+                    insertSorted(cached.files, activityFilename);
+                });
+        });
+    }
+
+    private addToSearchIndex(activity: Activity, activityFilename: string): Promise<void> {
+        const searchFolder: string = this.getSearchFolder(activity.channelId);
+        const conversation: string = this.sanitizeKey(activity.conversation.id);
+        const buckets: Map<string, string> = new Map<string, string>();
+        getActivityTerms(activity).forEach((term: string) => {
+            const hash: string = hashTerm(term);
+            const bucket: string = path.join(searchFolder, `${ hash.substr(0, 2) }.idx`);
+            buckets.set(bucket, `${ buckets.get(bucket) || '' }${ hash }\t${ conversation }\t${ activityFilename }\n`);
+        });
+
+        return this.ensureFolder(searchFolder)
+            .then(() => Promise.all(Array.from(buckets.entries()).map(([bucket, lines]: [string, string]) =>
+                this.withLock(bucket, () => fs.appendFile(bucket, lines, { encoding: 'utf8' })))))
+            .then(() => undefined);
+    }
+
+    /**
+     * Removes postings from the buckets of a channel's search index. Buckets left empty are deleted.
+     * @param searchFolder Search folder of the channel.
+     * @param remove Returns `true` for the conversation and activity file of postings to remove.
+     * @param bucketNames (Optional) names of the buckets to update. Defaults to all of them.
+     */
+    private async removeFromSearchIndex(
+        searchFolder: string,
+        remove: (conversation: string, activityFilename: string) => boolean,
+        bucketNames?: string[]
+    ): Promise<void> {
+        if (!await fs.exists(searchFolder)) { return; }
+        const names: string[] = bucketNames || (await fs.readdir(searchFolder)).filter((f: string) => f.endsWith('.idx'));
+        for (const name of names) {
+            const bucket: string = path.join(searchFolder, name);
+            await this.withLock(bucket, async (): Promise<void> => {
+                if (!await fs.exists(bucket)) { return; }
+                const lines: string[] = (await fs.readFile(bucket, 'utf8')).split('\n').filter((line: string) => line);
+                const kept: string[] = lines.filter((line: string) => {
+                    const [, conversation, file]: string[] = line.split('\t');
+
+                    return !remove(conversation, file);
+                });
+                if (kept.length === lines.length) { return; }
+                if (kept.length === 0) {
+                    await fs.unlink(bucket);
+                } else {
+                    await fs.writeFile(bucket, kept.map((line: string) => `${ line }\n`).join(''), 'utf8');
+                }
+            });
+        }
+    }
+
+    /**
+     * Replaces the search postings of a changed activity by those of its latest content.
+     * @param previous (Optional) content of the activity before the change.
+     * @param latest Content of the activity after the change.
+     * @param activityFilename Name of the activity file.
+     */
+    private async replaceInSearchIndex(previous: Activity, latest: Activity, activityFilename: string): Promise<void> {
+        if (previous) {
+            const conversation: string = this.sanitizeKey(latest.conversation.id);
+            const buckets: string[] = Array.from(new Set(getActivityTerms(previous).map((term: string) => `${ hashTerm(term).substr(0, 2) }.idx`)));
+            await this.removeFromSearchIndex(this.getSearchFolder(latest.channelId), (c: string, f: string) =>
+                c === conversation && f === activityFilename, buckets);
+        }
+        if (this.settings.search) { await this.addToSearchIndex(latest, activityFilename); }
+    }
 
-        return this.ensureFolder(transcriptPath).then(() => {
-            return fs.writeFile(path.join(transcriptPath, activityFilename), json, 'utf8');
+    private readPostings(channelId: string, term: string): Promise<Set<string>> {
+        const hash: string = hashTerm(term);
+        const bucket: string = path.join(this.getSearchFolder(channelId), `${ hash.substr(0, 2) }.idx`);
+
+        return fs.exists(bucket).then((exists: boolean) => {
+            if (!exists) { return new Set<string>(); }
+
+            return fs.readFile(bucket, 'utf8').then((text: string) => new Set<string>(text
+                .split('\n')
+                .filter((line: string) => line.startsWith(`${ hash }\t`))
+                .map((line: string) => line.substr(hash.length + 1))));
         });
     }
 
+    private getPageSize(options?: TranscriptPageOptions): number {
+        const pageSize: number = options && options.pageSize !== undefined
+            ? options.pageSize
+            : this.settings.pageSize !== undefined ? this.settings.pageSize : FileTranscriptStore.PageSize;
+        if (!(pageSize > 0) || Math.floor(pageSize) !== pageSize) {
+            throw new Error(`FileTranscriptStore: invalid pageSize '${ pageSize }'.`);
+        }
+
+        return pageSize;
+    }
+
+    private withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+        const previous: Promise<void> = this.locks.get(key) || Promise.resolve();
+        const current: Promise<T> = previous.then(task);
+        const done: Promise<void> = current.then(() => undefined, () => undefined);
+        this.locks.set(key, done);
+        done.then(() => { if (this.locks.get(key) === done) { this.locks.delete(key); } });
+
+        return current;
+    }
+
     // tslint:disable-next-line:no-shadowed-variable
     private ensureFolder(path: string): Promise<void> {
         return fs.exists(path).then((exists: boolean) => {
@@ -190,6 +1066,10 @@ export class FileTranscriptStore implements TranscriptStore {
         return path.join(this.rootFolder, this.sanitizeKey(channelId));
     }
 
+    private getSearchFolder(channelId: string): string {
+        return path.join(this.rootFolder, FileTranscriptStore.SearchFolder, this.sanitizeKey(channelId));
+    }
+
     private getTranscriptFolder(channelId: string, conversationId: string): string {
         return path.join(this.rootFolder, this.sanitizeKey(channelId), this.sanitizeKey(conversationId));
     }
@@ -199,6 +1079,36 @@ export class FileTranscriptStore implements TranscriptStore {
     }
 }
 
+/**
+ * @private
+ * Activity files kept in a conversation folder by `prune()`.
+ */
+interface ConversationUsage {
+    channelId: string;
+    conversationId: string;
+    folder: string;
+    lastActivity: number;
+    bytes: number;
+    count: number;
+}
+
+/**
+ * @private
+ * Position encoded in a continuation token. `k` is the sort key of the last item returned and
+ * `id` its id.
+ */
+interface ContinuationPosition {
+    v?: number;
+    k?: string;
+    id?: string;
+}
+
+/**
+ * @private
+ * Version of the continuation tokens created by the store.
+ */
+const continuationTokenVersion: number = 1;
+
 /**
  * @private
  * The number of .net ticks at the unix epoch.
@@ -247,33 +1157,215 @@ function withDateFilter(date: Date): any {
 
 /**
  * @private
+ * Returns the position following the id a continuation token points to. Ids removed since the
+ * token was issued are skipped by comparing them with the token.
+ * @param ids Sorted conversation ids.
  * @param continuationToken A continuation token.
+ * @param descending `true` if the ids are sorted in descending order.
  */
-function withContinuationToken(continuationToken: string): any {
-    if (!continuationToken) { return (): boolean => true; }
+function findToken(ids: string[], continuationToken: string, descending: boolean): number {
+    const position: number = ids.findIndex((id: string) => descending ? id < continuationToken : id > continuationToken);
+
+    return position < 0 ? ids.length : position;
+}
 
-    return skipWhileExpression((fileName: string): boolean => {
-        const id: string = fileName.substring(fileName.indexOf('-') + 1, fileName.indexOf('.'));
+/**
+ * @private
+ * Lists the sub folders of a folder, skipping hidden ones like `.search`.
+ * @param folder Folder to list.
+ */
+async function listFolders(folder: string): Promise<string[]> {
+    if (!await fs.exists(folder)) { return []; }
+    const folders: string[] = [];
+    for (const name of (await fs.readdir(folder)).sort()) {
+        if (!name.startsWith('.') && (await fs.stat(path.join(folder, name))).isDirectory()) { folders.push(name); }
+    }
 
-        return id !== continuationToken;
-    });
+    return folders;
 }
 
 /**
  * @private
- * @param expression A function that will be used to test items.
+ * @param retention Retention policy of the store.
+ * @param channelFolder Name of the folder of a channel.
  */
-function skipWhileExpression(expression: any): any {
-    let skipping: boolean = true;
+function getChannelLimits(retention: TranscriptRetentionPolicy, channelFolder: string): TranscriptRetentionLimits {
+    const channelId: string = Object.keys(retention.channels || {}).find((id: string) => filenamify(id) === channelFolder);
 
-    return (item: any): boolean => {
-        if (!skipping) { return true; }
-        if (!expression(item)) {
-            skipping = false;
-        }
+    return channelId ? retention.channels[channelId] : {};
+}
 
-        return !skipping;
-    };
+/**
+ * @private
+ * @param text Content of an index file, or a list of file names, one per line.
+ */
+function parseIndex(text: string): string[] {
+    const files: string[] = text.split('\n').filter((f: string) => f.endsWith('.json'));
+
+    return Array.from(new Set(files)).sort();
+}
+
+/**
+ * @private
+ * @param files Sorted list of activity file names.
+ * @param file File name to insert.
+ */
+function insertSorted(files: string[], file: string): void {
+    let low: number = 0;
+    let high: number = files.length;
+    while (low < high) {
+        const mid: number = (low + high) >>> 1;
+        if (files[mid] < file) { low = mid + 1; } else { high = mid; }
+    }
+    if (files[low] !== file) { files.splice(low, 0, file); }
+}
+
+/**
+ * @private
+ * Returns the position of the first file logged at or after a date.
+ * @param files Sorted list of activity file names.
+ * @param date (Optional) earliest time to include.
+ */
+function findFirstFile(files: string[], date?: Date): number {
+    if (!date) { return 0; }
+    const include: (filename: string) => boolean = withDateFilter(date);
+    let low: number = 0;
+    let high: number = files.length;
+    while (low < high) {
+        const mid: number = (low + high) >>> 1;
+        if (include(files[mid])) { high = mid; } else { low = mid + 1; }
+    }
+
+    return low;
+}
+
+/**
+ * @private
+ * @param position Position of the last item returned.
+ */
+function createContinuationToken(position: ContinuationPosition): string {
+    return Buffer.from(JSON.stringify({ v: continuationTokenVersion, ...position }), 'utf8').toString('base64');
+}
+
+/**
+ * @private
+ * Returns the position encoded in a continuation token, or `undefined` for tokens created by
+ * earlier versions of the store.
+ * @param continuationToken A continuation token.
+ */
+function parseContinuationToken(continuationToken: string): ContinuationPosition {
+    let position: ContinuationPosition;
+    try {
+        position = JSON.parse(Buffer.from(continuationToken, 'base64').toString('utf8'));
+    } catch (err) {
+        return undefined;
+    }
+    if (!position || typeof position !== 'object' || position.v === undefined) { return undefined; }
+    if (position.v !== continuationTokenVersion) {
+        throw new Error(`FileTranscriptStore: unsupported continuation token version '${ position.v }'.`);
+    }
+
+    return position;
+}
+
+/**
+ * @private
+ * Returns the position of the first file sorting after a file name, which doesn't need to exist.
+ * @param files Sorted list of activity file names.
+ * @param file File name to search for.
+ */
+function findFileAfter(files: string[], file: string): number {
+    let low: number = 0;
+    let high: number = files.length;
+    while (low < high) {
+        const mid: number = (low + high) >>> 1;
+        if (files[mid] <= file) { low = mid + 1; } else { high = mid; }
+    }
+
+    return low;
+}
+
+/**
+ * @private
+ * @param version Version number of an activity, starting at 1.
+ */
+function getVersionFilename(version: number): string {
+    return `${ `${ version }`.padStart(6, '0') }.json`;
+}
+
+/**
+ * @private
+ * Returns the (sanitized) activity id held in an activity file name.
+ * @param fileName Name of an activity file.
+ */
+function getFileId(fileName: string): string {
+    return fileName.substring(fileName.indexOf('-') + 1, fileName.lastIndexOf('.'));
+}
+
+/**
+ * @private
+ * Returns the position of the file of the activity a continuation token points to, or `-1`.
+ * @param files Sorted list of activity file names.
+ * @param start Position to start searching from.
+ * @param continuationToken A continuation token.
+ */
+function findTokenFile(files: string[], start: number, continuationToken: string): number {
+    for (let i = start; i < files.length; i++) {
+        const fileName: string = files[i];
+        if (getFileId(fileName) === continuationToken) { return i; }
+    }
+
+    return -1;
+}
+
+/**
+ * @private
+ * Pads ticks so they sort as strings.
+ * @param ticks Ticks in hex, as used in activity file names.
+ */
+function padTicks(ticks: string): string {
+    return ticks.padStart(16, '0');
+}
+
+/**
+ * @private
+ * @param text Text to split into lower case words.
+ */
+function getWords(text: string): string[] {
+    return (text || '').toLowerCase().split(/[^0-9a-z\u00c0-\uffff]+/).filter((word: string) => word.length > 0);
+}
+
+/**
+ * @private
+ * @param activity Activity being indexed.
+ */
+function getActivityTerms(activity: Activity): string[] {
+    const terms: string[] = getWords(activity.text).map((word: string) => `text:${ word }`);
+    if (activity.type) { terms.push(`type:${ activity.type }`); }
+    if (activity.from && activity.from.id) { terms.push(`user:${ activity.from.id }`); }
+    if (activity.recipient && activity.recipient.id) { terms.push(`user:${ activity.recipient.id }`); }
+
+    return Array.from(new Set(terms));
+}
+
+/**
+ * @private
+ * @param query Search query.
+ */
+function getSearchTerms(query: TranscriptSearchQuery): string[] {
+    const terms: string[] = getWords(query.text).map((word: string) => `text:${ word }`);
+    if (query.type) { terms.push(`type:${ query.type }`); }
+    if (query.userId) { terms.push(`user:${ query.userId }`); }
+
+    return Array.from(new Set(terms));
+}
+
+/**
+ * @private
+ * @param term Search term.
+ */
+function hashTerm(term: string): string {
+    return crypto.createHash('sha256').update(term).digest('hex').substr(0, 24);
 }
 
 /**
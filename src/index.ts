@@ -6,6 +6,23 @@
  * Licensed under the MIT License.
  */
 
+export * from './activityDeduplication';
+export * from './activityValidator';
+export * from './adapterTelemetry';
 export * from './botFrameworkAdapter';
+export * from './botServer';
+export * from './connectorClientPool';
+export * from './conversationReferenceStore';
+export * from './errors';
 export * from './fileTranscriptStore';
+export * from './jsonlTranscriptStore';
+export * from './multiTenantCredentialProvider';
+export * from './offlineConnector';
+export * from './redactingTranscriptStore';
+export * from './retryPolicy';
+export * from './scheduler';
+export * from './sendQueue';
+export * from './transcriptExport';
+export * from './transcriptKeyProvider';
+export * from './transcriptReplay';
 export * from 'botbuilder-core';
@@ -0,0 +1,470 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import * as fs from 'async-file';
+import { Activity, PagedResult, TranscriptInfo, TranscriptStore } from 'botbuilder-core';
+import * as filenamify from 'filenamify';
+import * as path from 'path';
+import * as rimraf from 'rimraf';
+import { FileTranscriptStore } from './fileTranscriptStore';
+import { decryptTranscriptFile, TranscriptKeyProvider } from './transcriptKeyProvider';
+
+/**
+ * Settings used to configure a `JsonlTranscriptStore`.
+ */
+export interface JsonlTranscriptStoreSettings {
+    /**
+     * (Optional) size in bytes after which a new segment is started. Defaults to 10MB.
+     */
+    maxSegmentSize?: number;
+
+    /**
+     * (Optional) if `true` a new segment is started for each UTC day, based on the activity
+     * timestamps. Defaults to `false`.
+     */
+    rotateDaily?: boolean;
+}
+
+/**
+ * Transcript store that keeps each conversation in append-only JSON Lines files.
+ *
+ * @remarks
+ * This is an alternative to `FileTranscriptStore` for bots logging a lot of traffic. Instead of
+ * one file per activity, each conversation folder contains a few segment files holding one
+ * activity per line. Segments are rotated by size and, optionally, by day. Activities logged at
+ * the same time to a conversation are written one after the other.
+ *
+ * Transcripts written by a `FileTranscriptStore` can be converted with `migrateFileTranscripts()`.
+ *
+ * ```javascript
+ * const { JsonlTranscriptStore, TranscriptLoggerMiddleware } = require('botbuilder');
+ *
+ * const store = new JsonlTranscriptStore(__dirname + '/transcripts/', { rotateDaily: true });
+ * adapter.use(new TranscriptLoggerMiddleware(store));
+ * ```
+ */
+export class JsonlTranscriptStore implements TranscriptStore {
+    private static readonly PageSize: number = 20;
+
+    private rootFolder: string;
+    private settings: JsonlTranscriptStoreSettings;
+    private segments: Map<string, { name: string; size: number }> = new Map<string, { name: string; size: number }>();
+    private locks: Map<string, Promise<void>> = new Map<string, Promise<void>>();
+
+    /**
+     * Creates a new JsonlTranscriptStore instance.
+     * @param folder Root folder where transcripts will be stored.
+     * @param settings (Optional) settings used to configure the store.
+     */
+    constructor(folder: string, settings?: JsonlTranscriptStoreSettings) {
+        if (!folder) {
+            throw new Error('Missing folder.');
+        }
+
+        this.rootFolder = folder;
+        this.settings = { maxSegmentSize: 10 * 1024 * 1024, rotateDaily: false, ...settings };
+    }
+
+    /**
+     * Log an activity to the transcript.
+     * @param activity Activity being logged.
+     */
+    public logActivity(activity: Activity): void | Promise<void> {
+        if (!activity) {
+            throw new Error('activity cannot be null for logActivity()');
+        }
+
+        const transcriptFolder: string = this.getTranscriptFolder(activity.channelId, activity.conversation.id);
+        const line: string = `${ JSON.stringify(activity) }\n`;
+
+        return this.withLock(transcriptFolder, async () => {
+            const segment: { name: string; size: number } = await this.getSegment(transcriptFolder, activity, Buffer.byteLength(line));
+            await fs.appendFile(path.join(transcriptFolder, segment.name), line, { encoding: 'utf8' });
+            segment.size += Buffer.byteLength(line);
+        });
+    }
+
+    /**
+     * Get all activities associated with a conversation id (aka get the transcript).
+     * @param channelId Channel Id.
+     * @param conversationId Conversation Id.
+     * @param continuationToken (Optional) Continuation token to page through results.
+     * @param startDate (Optional) Earliest time to include.
+     */
+    public getTranscriptActivities(
+        channelId: string,
+        conversationId: string,
+        continuationToken?: string,
+        startDate?: Date
+    ): Promise<PagedResult<Activity>> {
+        if (!channelId) { throw new Error('Missing channelId'); }
+
+        if (!conversationId) { throw new Error('Missing conversationId'); }
+
+        let position: SegmentPosition;
+
+        return Promise.resolve().then(() => {
+            position = continuationToken ? parseContinuationToken(continuationToken) : undefined;
+            const after: number = Math.max(startDate ? startDate.getTime() : 0, position ? position.t : 0);
+
+            return this.readActivities(this.getTranscriptFolder(channelId, conversationId), after);
+        }).then((entries: SegmentEntry[]) => {
+            let items: SegmentEntry[] = entries.filter((e: SegmentEntry) => !startDate || e.activity.timestamp >= startDate);
+            if (position) {
+                items = items.filter((e: SegmentEntry) => comparePositions(e, position) > 0);
+            } else if (continuationToken) {
+                // Tokens created by earlier versions hold the id of the last activity returned.
+                const last: number = items.findIndex((e: SegmentEntry) => e.activity.id === continuationToken);
+                items = last < 0 ? [] : items.slice(last + 1);
+            }
+            const page: SegmentEntry[] = items.slice(0, JsonlTranscriptStore.PageSize);
+            const pagedResult: PagedResult<Activity> = { items: page.map((e: SegmentEntry) => e.activity), continuationToken: undefined };
+            if (page.length === JsonlTranscriptStore.PageSize) {
+                const last: SegmentEntry = page[page.length - 1];
+                pagedResult.continuationToken = createContinuationToken({ t: last.t, s: last.s, l: last.l });
+            }
+
+            return pagedResult;
+        });
+    }
+
+    /**
+     * List all the logged conversations for a given channelId.
+     * @param channelId Channel Id.
+     * @param continuationToken (Optional) Continuation token to page through results.
+     */
+    public listTranscripts(channelId: string, continuationToken?: string): Promise<PagedResult<TranscriptInfo>> {
+        if (!channelId) { throw new Error('Missing channelId'); }
+
+        const pagedResult: PagedResult<TranscriptInfo> = { items: [], continuationToken: undefined };
+        const channelFolder: string = path.join(this.rootFolder, filenamify(channelId));
+
+        return fs.exists(channelFolder).then((exists: boolean) => {
+            if (!exists) { return pagedResult; }
+
+            return fs.readdir(channelFolder).then((dirs: string[]) => {
+                dirs.sort();
+                const start: number = continuationToken ? dirs.indexOf(continuationToken) + 1 : 0;
+                pagedResult.items = (start > 0 || !continuationToken ? dirs.slice(start, start + JsonlTranscriptStore.PageSize) : [])
+                    .map((id: string) => ({ channelId: channelId, id: id, created: null }));
+                if (pagedResult.items.length === JsonlTranscriptStore.PageSize) {
+                    pagedResult.continuationToken = pagedResult.items[pagedResult.items.length - 1].id;
+                }
+
+                return pagedResult;
+            });
+        });
+    }
+
+    /**
+     * Delete a conversation and all of it's activities.
+     * @param channelId Channel Id where conversation took place.
+     * @param conversationId Id of the conversation to delete.
+     */
+    public deleteTranscript(channelId: string, conversationId: string): Promise<void> {
+        if (!channelId) { throw new Error('Missing channelId'); }
+
+        if (!conversationId) { throw new Error('Missing conversationId'); }
+
+        const transcriptFolder: string = this.getTranscriptFolder(channelId, conversationId);
+
+        return this.withLock(transcriptFolder, () => new Promise((resolve: any): void => rimraf(transcriptFolder, resolve))
+            .then(() => { this.segments.delete(transcriptFolder); }));
+    }
+
+    private async getSegment(transcriptFolder: string, activity: Activity, length: number): Promise<{ name: string; size: number }> {
+        const day: string = this.settings.rotateDaily ? getDay(activity.timestamp) : undefined;
+        let segment: { name: string; size: number } = this.segments.get(transcriptFolder);
+        if (!segment || (day && parseSegmentName(segment.name).day !== day)) {
+            // Activities of an earlier day, or logged after a restart, continue the last segment of their day.
+            segment = await this.findLastSegment(transcriptFolder, day);
+        }
+
+        if (!segment) {
+            segment = { name: getSegmentName(day, 1), size: 0 };
+        } else if (segment.size > 0 && segment.size + length > this.settings.maxSegmentSize) {
+            segment = { name: getSegmentName(day, parseSegmentName(segment.name).sequence + 1), size: 0 };
+        }
+        this.segments.set(transcriptFolder, segment);
+
+        return segment;
+    }
+
+    private async findLastSegment(transcriptFolder: string, day: string): Promise<{ name: string; size: number }> {
+        if (!await fs.exists(transcriptFolder)) {
+            await fs.mkdirp(transcriptFolder);
+
+            return undefined;
+        }
+
+        const names: string[] = (await fs.readdir(transcriptFolder))
+            .filter((f: string) => f.endsWith('.jsonl') && parseSegmentName(f).day === day)
+            .sort();
+        if (names.length === 0) { return undefined; }
+        const name: string = names[names.length - 1];
+
+        return { name: name, size: (await fs.stat(path.join(transcriptFolder, name))).size };
+    }
+
+    private async readActivities(transcriptFolder: string, after: number = 0): Promise<SegmentEntry[]> {
+        if (!await fs.exists(transcriptFolder)) { return []; }
+
+        // Daily segments only hold activities of their day, so earlier days can be skipped.
+        const firstDay: string = after > 0 ? getDay(new Date(after)) : undefined;
+        const names: string[] = (await fs.readdir(transcriptFolder))
+            .filter((f: string) => f.endsWith('.jsonl'))
+            .filter((f: string) => { const day: string = parseSegmentName(f).day; return !firstDay || !day || day >= firstDay; })
+            .sort();
+        const entries: SegmentEntry[] = [];
+        for (const name of names) {
+            const text: string = await fs.readFile(path.join(transcriptFolder, name), 'utf8');
+            text.split('\n').forEach((line: string, i: number) => {
+                const activity: Activity = parseLine(line);
+                if (activity) { entries.push({ activity: activity, t: activity.timestamp.getTime() || 0, s: name, l: i }); }
+            });
+        }
+
+        // Segments are written in order, but activities may have been logged out of order.
+        return entries.sort(comparePositions);
+    }
+
+    private withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+        const previous: Promise<void> = this.locks.get(key) || Promise.resolve();
+        const current: Promise<T> = previous.then(task);
+        const done: Promise<void> = current.then(() => undefined, () => undefined);
+        this.locks.set(key, done);
+        done.then(() => { if (this.locks.get(key) === done) { this.locks.delete(key); } });
+
+        return current;
+    }
+
+    private getTranscriptFolder(channelId: string, conversationId: string): string {
+        return path.join(this.rootFolder, filenamify(channelId), filenamify(conversationId));
+    }
+}
+
+/**
+ * Options for `migrateFileTranscripts()`.
+ */
+export interface MigrateFileTranscriptsOptions {
+    /**
+     * (Optional) if `true` each conversation is deleted from the source once copied, along with
+     * its history and search postings. Defaults to `false`.
+     */
+    deleteSource?: boolean;
+
+    /**
+     * (Optional) provider of the keys the source activity files were encrypted with.
+     */
+    keyProvider?: TranscriptKeyProvider;
+
+    /**
+     * (Optional) if `true` unencrypted source files are copied even when a `keyProvider` is set.
+     * Defaults to `false`.
+     */
+    allowPlaintext?: boolean;
+}
+
+/**
+ * Copies the transcripts written by a `FileTranscriptStore` into a `JsonlTranscriptStore`.
+ *
+ * @remarks
+ * Conversations are copied one at a time, with their activities in the order they were logged.
+ * The source is left untouched unless `deleteSource` is set, in which case each conversation is
+ * deleted once it has been copied.
+ *
+ * Activities already in the target, with the same id and timestamp, are skipped. An interrupted
+ * migration can be run again without duplicating what was already copied.
+ *
+ * ```javascript
+ * const result = await migrateFileTranscripts(__dirname + '/transcripts/', new JsonlTranscriptStore(__dirname + '/jsonl/'));
+ * console.log(`migrated ${ result.activities } activities from ${ result.conversations } conversations, ${ result.skipped } already copied.`);
+ * ```
+ * @param sourceFolder Root folder of the `FileTranscriptStore`.
+ * @param target Store the transcripts are copied to.
+ * @param options (Optional) migration options.
+ */
+export async function migrateFileTranscripts(
+    sourceFolder: string,
+    target: JsonlTranscriptStore,
+    options?: MigrateFileTranscriptsOptions
+): Promise<{ conversations: number; activities: number; skipped: number }> {
+    if (!sourceFolder) { throw new Error(`migrateFileTranscripts(): missing sourceFolder`); }
+    if (!target) { throw new Error(`migrateFileTranscripts(): missing target`); }
+
+    const result: { conversations: number; activities: number; skipped: number } = { conversations: 0, activities: 0, skipped: 0 };
+    if (!await fs.exists(sourceFolder)) { return result; }
+
+    const source: FileTranscriptStore = new FileTranscriptStore(sourceFolder);
+    for (const channel of await listFolders(sourceFolder)) {
+        const channelFolder: string = path.join(sourceFolder, channel);
+        for (const conversation of await listFolders(channelFolder)) {
+            const conversationFolder: string = path.join(channelFolder, conversation);
+            const files: string[] = (await fs.readdir(conversationFolder)).filter((f: string) => f.endsWith('.json')).sort();
+            if (files.length === 0) { continue; }
+            const copied: Set<string> = new Set<string>();
+            let continuationToken: string;
+            do {
+                const page: PagedResult<Activity> = await target.getTranscriptActivities(channel, conversation, continuationToken);
+                page.items.forEach((activity: Activity) => copied.add(getActivityKey(activity)));
+                continuationToken = page.continuationToken;
+            } while (continuationToken);
+            for (const file of files) {
+                const text: string = await fs.readFile(path.join(conversationFolder, file), 'utf8');
+                const activity: Activity = JSON.parse(await decryptTranscriptFile(text, file, options && options.keyProvider, options && options.allowPlaintext));
+                activity.timestamp = new Date(activity.timestamp);
+                if (copied.has(getActivityKey(activity))) {
+                    result.skipped++;
+                    continue;
+                }
+                await target.logActivity(activity);
+                result.activities++;
+            }
+            result.conversations++;
+            if (options && options.deleteSource) { await source.deleteTranscript(channel, conversation); }
+        }
+        if (options && options.deleteSource && (await fs.readdir(channelFolder)).length === 0) { await fs.rmdir(channelFolder); }
+    }
+
+    return result;
+}
+
+/**
+ * @private
+ * @param folder Folder to list.
+ */
+async function listFolders(folder: string): Promise<string[]> {
+    const folders: string[] = [];
+    for (const name of (await fs.readdir(folder)).sort()) {
+        if (!name.startsWith('.') && (await fs.stat(path.join(folder, name))).isDirectory()) { folders.push(name); }
+    }
+
+    return folders;
+}
+
+/**
+ * @private
+ * Activity read from a segment, with its position: the time of the activity, the name of the
+ * segment and the line it was read from.
+ */
+interface SegmentEntry extends SegmentPosition {
+    activity: Activity;
+}
+
+/**
+ * @private
+ * Position encoded in a continuation token.
+ */
+interface SegmentPosition {
+    v?: number;
+    t: number;
+    s: string;
+    l: number;
+}
+
+/**
+ * @private
+ * Version of the continuation tokens created by the store.
+ */
+const continuationTokenVersion: number = 1;
+
+/**
+ * @private
+ * Orders activities by time, then by the order they were written in.
+ */
+function comparePositions(a: SegmentPosition, b: SegmentPosition): number {
+    return (a.t - b.t) || (a.s < b.s ? -1 : a.s > b.s ? 1 : 0) || (a.l - b.l);
+}
+
+/**
+ * @private
+ * @param position Position of the last activity returned.
+ */
+function createContinuationToken(position: SegmentPosition): string {
+    return Buffer.from(JSON.stringify({ v: continuationTokenVersion, ...position }), 'utf8').toString('base64');
+}
+
+/**
+ * @private
+ * Returns the position encoded in a continuation token, or `undefined` for tokens created by
+ * earlier versions of the store.
+ * @param continuationToken A continuation token.
+ */
+function parseContinuationToken(continuationToken: string): SegmentPosition {
+    let position: SegmentPosition;
+    try {
+        position = JSON.parse(Buffer.from(continuationToken, 'base64').toString('utf8'));
+    } catch (err) {
+        return undefined;
+    }
+    if (!position || typeof position !== 'object' || position.v === undefined) { return undefined; }
+    if (position.v !== continuationTokenVersion) {
+        throw new Error(`JsonlTranscriptStore: unsupported continuation token version '${ position.v }'.`);
+    }
+
+    return position;
+}
+
+/**
+ * @private
+ * Key used to find activities that were already migrated.
+ * @param activity A migrated activity.
+ */
+function getActivityKey(activity: Activity): string {
+    return `${ activity.id }/${ activity.timestamp ? new Date(activity.timestamp).getTime() : '' }`;
+}
+
+/**
+ * @private
+ * @param timestamp Timestamp of an activity.
+ */
+function getDay(timestamp: Date): string {
+    const date: Date = timestamp ? new Date(timestamp) : new Date();
+
+    return date.toISOString().substr(0, 10).replace(/-/g, '');
+}
+
+/**
+ * @private
+ * @param day (Optional) day of the segment, as `YYYYMMDD`.
+ * @param sequence Sequence number of the segment.
+ */
+function getSegmentName(day: string, sequence: number): string {
+    const padded: string = `00000${ sequence }`.substr(-6);
+
+    return day ? `${ day }-${ padded }.jsonl` : `${ padded }.jsonl`;
+}
+
+/**
+ * @private
+ * @param name Name of a segment file.
+ */
+function parseSegmentName(name: string): { day: string; sequence: number } {
+    const parts: string[] = name.replace('.jsonl', '').split('-');
+
+    return parts.length > 1 ?
+        { day: parts[0], sequence: parseInt(parts[1], 10) || 0 } :
+        { day: undefined, sequence: parseInt(parts[0], 10) || 0 };
+}
+
+/**
+ * @private
+ * Parses a line of a segment. Returns `undefined` for blank lines and for a partially written
+ * last line.
+ * @param line A line of a segment file.
+ */
+function parseLine(line: string): Activity {
+    if (!line.trim()) { return undefined; }
+    try {
+        const activity: Activity = JSON.parse(line);
+        activity.timestamp = new Date(activity.timestamp);
+
+        return activity;
+    } catch (err) {
+        return undefined;
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import { ICredentialProvider } from 'botframework-connector';
+
+/**
+ * Function used to look up the password of a bot registration. It should return `undefined` for
+ * app ids the bot doesn't serve.
+ */
+export type AppPasswordLookup = (appId: string) => Promise<string | undefined>;
+
+/**
+ * Settings used to configure a `MultiTenantCredentialProvider` instance.
+ */
+export interface MultiTenantCredentialProviderSettings {
+    /**
+     * (Optional) number of milliseconds a password is cached before it's looked up again. `0`
+     * looks the password up on every call. Defaults to one hour.
+     */
+    refreshInterval?: number;
+}
+
+/**
+ * Credential provider for a process hosting several bot registrations.
+ *
+ * @remarks
+ * Pass the provider to a `BotFrameworkAdapter` using the `credentialProvider` setting. Incoming
+ * requests are accepted for every app id the provider knows and the adapter calls the channel
+ * back with the credentials of the registration the request was sent to.
+ *
+ * Passwords are cached per app id and looked up again once `refreshInterval` has passed, so
+ * rotated passwords are picked up without restarting the bot. Unknown app ids are cached as
+ * well. Call [refresh()](#refresh) after adding a registration to make it known right away.
+ *
+ * ```JavaScript
+ * const { BotFrameworkAdapter, MultiTenantCredentialProvider } = require('botbuilder');
+ *
+ * const credentialProvider = new MultiTenantCredentialProvider(async (appId) => {
+ *     const registration = await registrations.find(appId);
+ *     return registration ? registration.password : undefined;
+ * }, { refreshInterval: 15 * 60 * 1000 });
+ * const adapter = new BotFrameworkAdapter({ credentialProvider: credentialProvider });
+ * ```
+ */
+export class MultiTenantCredentialProvider implements ICredentialProvider {
+    private readonly lookup: AppPasswordLookup;
+    private readonly refreshInterval: number;
+    private readonly cache: Map<string, { password: Promise<string | null>; expires: number }> =
+        new Map<string, { password: Promise<string | null>; expires: number }>();
+
+    /**
+     * Creates a new MultiTenantCredentialProvider instance.
+     * @param credentials Map of app ids to passwords, or a function used to look up the password of an app id.
+     * @param settings (Optional) settings used to configure the provider.
+     */
+    constructor(credentials: { [appId: string]: string } | AppPasswordLookup, settings?: MultiTenantCredentialProviderSettings) {
+        if (typeof credentials === 'function') {
+            this.lookup = credentials;
+        } else if (credentials && typeof credentials === 'object') {
+            const passwords: { [appId: string]: string } = { ...credentials };
+            this.lookup = (appId: string): Promise<string | undefined> =>
+                Promise.resolve(Object.prototype.hasOwnProperty.call(passwords, appId) ? passwords[appId] : undefined);
+        } else {
+            throw new Error(`MultiTenantCredentialProvider: missing credentials.`);
+        }
+        const refreshInterval: number = settings && settings.refreshInterval !== undefined ? settings.refreshInterval : 60 * 60 * 1000;
+        if (typeof refreshInterval !== 'number' || !(refreshInterval >= 0)) {
+            throw new Error(`MultiTenantCredentialProvider: refreshInterval must be a non-negative number.`);
+        }
+        this.refreshInterval = refreshInterval;
+    }
+
+    /**
+     * Returns `true` if the provider has a password for an app id.
+     * @param appId App id to check.
+     */
+    public async isValidAppId(appId: string): Promise<boolean> {
+        return typeof (await this.getAppPassword(appId)) === 'string';
+    }
+
+    /**
+     * Returns the password of an app id, or `null` if the app id is unknown.
+     * @param appId App id to look up.
+     */
+    public getAppPassword(appId: string): Promise<string | null> {
+        if (!appId) { return Promise.resolve(null); }
+        const now: number = Date.now();
+        let entry: { password: Promise<string | null>; expires: number } = this.cache.get(appId);
+        if (!entry || entry.expires <= now) {
+            const password: Promise<string | null> = Promise.resolve()
+                .then(() => this.lookup(appId))
+                .then((value: string | undefined) => typeof value === 'string' && value ? value : null);
+            entry = { password: password, expires: now + this.refreshInterval };
+            this.cache.set(appId, entry);
+
+            // Failed lookups aren't cached.
+            const failed: { password: Promise<string | null>; expires: number } = entry;
+            password.catch(() => {
+                if (this.cache.get(appId) === failed) { this.cache.delete(appId); }
+            });
+        }
+
+        return entry.password;
+    }
+
+    /**
+     * Always returns `false`. Requests must be authenticated for one of the provider's app ids.
+     */
+    public isAuthenticationDisabled(): Promise<boolean> {
+        return Promise.resolve(false);
+    }
+
+    /**
+     * Drops cached passwords so they're looked up again on next use.
+     * @param appId (Optional) app id to refresh. Every app id is refreshed if not specified.
+     */
+    public refresh(appId?: string): void {
+        if (appId) {
+            this.cache.delete(appId);
+        } else {
+            this.cache.clear();
+        }
+    }
+}
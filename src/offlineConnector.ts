@@ -0,0 +1,284 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { Activity } from 'botbuilder-core';
+import { ConnectorClient, MicrosoftAppCredentials, TokenApiClient } from 'botframework-connector';
+
+/**
+ * A call recorded by an `OfflineConnector`.
+ */
+export interface OfflineConnectorCall {
+    /**
+     * Name of the connector or token service operation that was called, like `sendToConversation`
+     * or `getToken`.
+     */
+    method: string;
+
+    /**
+     * Service URL the call was made against.
+     */
+    serviceUrl: string;
+
+    /**
+     * (Optional) ID of the conversation targeted by the call.
+     */
+    conversationId?: string;
+
+    /**
+     * (Optional) ID of the activity or member targeted by the call.
+     */
+    activityId?: string;
+
+    /**
+     * (Optional) activity sent by the call.
+     */
+    activity?: Partial<Activity>;
+
+    /**
+     * All the arguments passed to the operation.
+     */
+    args: any[];
+}
+
+/**
+ * Scripted response for an `OfflineConnector` operation. Functions are called with the recorded
+ * call and can return a value, a promise or throw.
+ */
+export type OfflineConnectorResponse = any | ((call: OfflineConnectorCall) => any);
+
+/**
+ * In-process fake of the Bot Framework connector and token services.
+ *
+ * @remarks
+ * When passed to a `BotFrameworkAdapter` using the `offlineConnector` setting, every connector
+ * and token service call the adapter makes is recorded in [calls](#calls) instead of being sent
+ * over the network. This makes it possible to test proactive messaging, OAuth and member
+ * management flows without mocking `ConnectorClient` by hand.
+ *
+ * Responses can be scripted per operation with [respondWith()](#respondwith),
+ * [failWith()](#failwith) and [throttle()](#throttle). Scripted responses are used once, in the
+ * order they were added. Operations without a scripted response return a default value: sends
+ * return a new activity ID, member lookups return an empty list and `getToken` returns no token.
+ *
+ * ```JavaScript
+ * const connector = new OfflineConnector();
+ * const adapter = new BotFrameworkAdapter({ offlineConnector: connector, retryPolicy: { initialDelay: 1 } });
+ *
+ * connector.throttle('sendToConversation');
+ * await adapter.continueConversation(reference, async (context) => {
+ *     await context.sendActivity(`Hi`);
+ * });
+ *
+ * assert.equal(connector.calls.length, 2);
+ * assert.equal(connector.calls[1].activity.text, 'Hi');
+ * ```
+ */
+export class OfflineConnector {
+    /**
+     * Calls recorded so far, in the order they were made.
+     */
+    public readonly calls: OfflineConnectorCall[] = [];
+
+    private readonly responses: { [method: string]: OfflineConnectorResponse[] } = {};
+    private nextId: number = 0;
+
+    /**
+     * Returns the recorded calls made to a given operation.
+     * @param method Name of the operation.
+     */
+    public callsTo(method: string): OfflineConnectorCall[] {
+        return this.calls.filter((call: OfflineConnectorCall) => call.method === method);
+    }
+
+    /**
+     * Scripts the next response returned by an operation.
+     * @param method Name of the operation, like `sendToConversation` or `getToken`.
+     * @param response Value to return, or a function called with the recorded call.
+     */
+    public respondWith(method: string, response: OfflineConnectorResponse): this {
+        (this.responses[method] = this.responses[method] || []).push(response);
+
+        return this;
+    }
+
+    /**
+     * Scripts the next call to an operation to fail with an HTTP error.
+     * @param method Name of the operation.
+     * @param statusCode Status code of the error.
+     * @param headers (Optional) response headers, like `retry-after`.
+     */
+    public failWith(method: string, statusCode: number, headers?: { [name: string]: string }): this {
+        return this.respondWith(method, () => { throw createRestError(method, statusCode, headers); });
+    }
+
+    /**
+     * Scripts the next call to an operation to fail with a `429 Too Many Requests` error.
+     * @param method Name of the operation.
+     * @param retryAfter (Optional) value of the `Retry-After` header in seconds. Defaults to `0`.
+     */
+    public throttle(method: string, retryAfter: number = 0): this {
+        return this.failWith(method, 429, { 'retry-after': String(retryAfter) });
+    }
+
+    /**
+     * Removes all recorded calls and scripted responses.
+     */
+    public reset(): void {
+        this.calls.splice(0, this.calls.length);
+        Object.keys(this.responses).forEach((method: string) => delete this.responses[method]);
+    }
+
+    /**
+     * Creates a fake `ConnectorClient` that records its calls on this connector.
+     * @param serviceUrl Service URL the client targets.
+     * @param credentials (Optional) credentials the client would use.
+     */
+    public createConnectorClient(serviceUrl: string, credentials?: MicrosoftAppCredentials): ConnectorClient {
+        const call: (method: string, defaultResponse: any, record: Partial<OfflineConnectorCall>, args: any[]) => Promise<any> =
+            (method: string, defaultResponse: any, record: Partial<OfflineConnectorCall>, args: any[]): Promise<any> =>
+                this.invoke(method, serviceUrl, defaultResponse, record, args);
+
+        return {
+            credentials: credentials,
+            conversations: {
+                getConversations: (...args: any[]): Promise<any> =>
+                    call('getConversations', { conversations: [] }, {}, args),
+                createConversation: (parameters: any, ...args: any[]): Promise<any> =>
+                    call('createConversation', { id: this.createId('conversation') }, {
+                        activity: parameters && parameters.activity
+                    }, [parameters, ...args]),
+                sendToConversation: (conversationId: string, activity: Activity, ...args: any[]): Promise<any> =>
+                    call('sendToConversation', { id: this.createId('activity') }, {
+                        conversationId: conversationId, activity: activity
+                    }, [conversationId, activity, ...args]),
+                sendConversationHistory: (conversationId: string, ...args: any[]): Promise<any> =>
+                    call('sendConversationHistory', {}, { conversationId: conversationId }, [conversationId, ...args]),
+                replyToActivity: (conversationId: string, activityId: string, activity: Activity, ...args: any[]): Promise<any> =>
+                    call('replyToActivity', { id: this.createId('activity') }, {
+                        conversationId: conversationId, activityId: activityId, activity: activity
+                    }, [conversationId, activityId, activity, ...args]),
+                updateActivity: (conversationId: string, activityId: string, activity: Activity, ...args: any[]): Promise<any> =>
+                    call('updateActivity', { id: activityId }, {
+                        conversationId: conversationId, activityId: activityId, activity: activity
+                    }, [conversationId, activityId, activity, ...args]),
+                deleteActivity: (conversationId: string, activityId: string, ...args: any[]): Promise<any> =>
+                    call('deleteActivity', undefined, {
+                        conversationId: conversationId, activityId: activityId
+                    }, [conversationId, activityId, ...args]),
+                getConversationMembers: (conversationId: string, ...args: any[]): Promise<any> =>
+                    call('getConversationMembers', [], { conversationId: conversationId }, [conversationId, ...args]),
+                getConversationPagedMembers: (conversationId: string, ...args: any[]): Promise<any> =>
+                    call('getConversationPagedMembers', { members: [] }, { conversationId: conversationId }, [conversationId, ...args]),
+                deleteConversationMember: (conversationId: string, memberId: string, ...args: any[]): Promise<any> =>
+                    call('deleteConversationMember', undefined, {
+                        conversationId: conversationId, activityId: memberId
+                    }, [conversationId, memberId, ...args]),
+                getActivityMembers: (conversationId: string, activityId: string, ...args: any[]): Promise<any> =>
+                    call('getActivityMembers', [], {
+                        conversationId: conversationId, activityId: activityId
+                    }, [conversationId, activityId, ...args]),
+                uploadAttachment: (conversationId: string, ...args: any[]): Promise<any> =>
+                    call('uploadAttachment', { id: this.createId('attachment') }, { conversationId: conversationId }, [conversationId, ...args])
+            }
+        } as any;
+    }
+
+    /**
+     * Creates a fake `TokenApiClient` that records its calls on this connector.
+     * @param serviceUrl Service URL the client targets.
+     * @param credentials (Optional) credentials the client would use.
+     */
+    public createTokenApiClient(serviceUrl: string, credentials?: MicrosoftAppCredentials): TokenApiClient {
+        const call: (method: string, defaultResponse: any, args: any[]) => Promise<any> =
+            (method: string, defaultResponse: any, args: any[]): Promise<any> =>
+                this.invoke(method, serviceUrl, defaultResponse, {}, args);
+
+        return {
+            credentials: credentials,
+            userToken: {
+                getToken: (...args: any[]): Promise<any> => call('getToken', undefined, args),
+                getAadTokens: (...args: any[]): Promise<any> => call('getAadTokens', {}, args),
+                signOut: (...args: any[]): Promise<any> => call('signOut', undefined, args),
+                getTokenStatus: (...args: any[]): Promise<any> => call('getTokenStatus', [], args)
+            },
+            botSignIn: {
+                getSignInUrl: (...args: any[]): Promise<any> =>
+                    call('getSignInUrl', `https://offline.botframework.test/signin/${ this.createId('signin') }`, args)
+            }
+        } as any;
+    }
+
+    /**
+     * Records a call to the token service asking it to emulate sending OAuthCards.
+     * @param serviceUrl Service URL of the emulator.
+     * @param emulate If `true` the emulator will emulate the sending of OAuthCards.
+     */
+    public emulateOAuthCards(serviceUrl: string, emulate: boolean): Promise<boolean> {
+        return this.invoke('emulateOAuthCards', serviceUrl, true, {}, [emulate]);
+    }
+
+    private invoke(method: string, serviceUrl: string, defaultResponse: any, record: Partial<OfflineConnectorCall>, args: any[]): Promise<any> {
+        const call: OfflineConnectorCall = { method: method, serviceUrl: serviceUrl, args: args, ...record };
+        this.calls.push(call);
+
+        const scripted: OfflineConnectorResponse[] = this.responses[method];
+        const response: OfflineConnectorResponse = scripted && scripted.length > 0 ? scripted.shift() : defaultResponse;
+        try {
+            const value: any = typeof response === 'function' ? response(call) : response;
+
+            return Promise.resolve(value).then((result: any) => withResponse(result));
+        } catch (err) {
+            return Promise.reject(err);
+        }
+    }
+
+    private createId(prefix: string): string {
+        return `offline-${ prefix }-${ ++this.nextId }`;
+    }
+}
+
+/**
+ * @private
+ * Attaches an HTTP response to a value the same way the generated service clients do.
+ * @param value Value returned by a fake operation.
+ */
+function withResponse(value: any): any {
+    if (value === undefined || value === null) { return value; }
+    const result: any = typeof value === 'object' ? (Array.isArray(value) ? value.slice() : { ...value }) : {};
+    Object.defineProperty(result, '_response', {
+        value: {
+            status: 200,
+            parsedBody: value,
+            bodyAsText: typeof value === 'string' ? value : JSON.stringify(value)
+        },
+        enumerable: false
+    });
+
+    return result;
+}
+
+/**
+ * @private
+ * Creates an error shaped like the `RestError` raised by the generated service clients.
+ * @param method Name of the failed operation.
+ * @param statusCode HTTP status code of the failure.
+ * @param headers (Optional) response headers.
+ */
+function createRestError(method: string, statusCode: number, headers?: { [name: string]: string }): Error {
+    const values: { [name: string]: string } = {};
+    Object.keys(headers || {}).forEach((name: string) => values[name.toLowerCase()] = headers[name]);
+    const err: any = new Error(`OfflineConnector: ${ method }() failed with status ${ statusCode }.`);
+    err.name = 'RestError';
+    err.statusCode = statusCode;
+    err.response = {
+        status: statusCode,
+        headers: { get: (name: string): string => values[name.toLowerCase()] }
+    };
+
+    return err;
+}
@@ -0,0 +1,360 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import { Activity, PagedResult, TranscriptInfo, TranscriptStore } from 'botbuilder-core';
+import * as crypto from 'crypto';
+
+/**
+ * What happens to sensitive values found by a `RedactingTranscriptStore`.
+ *
+ * @remarks
+ * - `mask` replaces each character with `*`.
+ * - `hash` replaces the value with an HMAC-SHA256 of it keyed by `hashKey`, so equal values can
+ *   still be correlated without the key being needed to read the transcript.
+ * - `drop` removes the value.
+ */
+export type RedactionAction = 'mask' | 'hash' | 'drop';
+
+/**
+ * Built-in detectors of a `RedactingTranscriptStore`.
+ *
+ * @remarks
+ * - `email` email addresses.
+ * - `phone` phone numbers with at least 10 digits.
+ * - `creditCard` card numbers passing the Luhn check.
+ * - `token` JSON Web Tokens, bearer tokens and the values of fields like `token` or `password`.
+ */
+export type RedactionDetector = 'email' | 'phone' | 'creditCard' | 'token';
+
+/**
+ * Custom rule used by a `RedactingTranscriptStore` to find sensitive text.
+ */
+export interface RedactionRule {
+    /**
+     * Name of the rule.
+     */
+    name: string;
+
+    /**
+     * Pattern matching the sensitive text. The global flag is added if missing.
+     */
+    pattern: RegExp;
+
+    /**
+     * (Optional) check run on each match. Matches it returns `false` for are kept.
+     */
+    validate?(match: string): boolean;
+
+    /**
+     * (Optional) action used for this rule instead of the store's default action.
+     */
+    action?: RedactionAction;
+}
+
+/**
+ * Custom function used by a `RedactingTranscriptStore` to redact a string value. It's given the
+ * value and its field path, like `attachments.content.text`, and returns the redacted value.
+ */
+export type RedactionFunction = (value: string, path: string) => string;
+
+/**
+ * Settings used to configure a `RedactingTranscriptStore`.
+ */
+export interface RedactionSettings {
+    /**
+     * (Optional) built-in detectors to run. Defaults to all of them.
+     */
+    detectors?: RedactionDetector[];
+
+    /**
+     * (Optional) custom rules run after the built-in detectors.
+     */
+    rules?: (RedactionRule | RedactionFunction)[];
+
+    /**
+     * (Optional) field paths that are never redacted, like `from.name`. A path also covers the
+     * fields below it and `*` matches any single field name. Array indexes are not part of paths.
+     */
+    allowFields?: string[];
+
+    /**
+     * (Optional) field paths whose whole value is redacted, like `channelData`.
+     */
+    denyFields?: string[];
+
+    /**
+     * (Optional) action applied to sensitive values. Defaults to `mask`.
+     */
+    action?: RedactionAction;
+
+    /**
+     * (Optional) secret key of the `hash` action. Required when any rule hashes values. Keep it out
+     * of the transcripts: anyone holding it can test guessed values against the hashes.
+     */
+    hashKey?: string | Buffer;
+}
+
+// Fields the wrapped store needs to file activities, which are never redacted.
+const PROTECTED_FIELDS: string[] = ['type', 'id', 'timestamp', 'channelId', 'conversation.id'];
+const SENSITIVE_KEY: RegExp = /^(token|access_?token|id_?token|refresh_?token|password|secret|client_?secret)$/i;
+const BUILT_IN_RULES: { [detector: string]: RedactionRule } = {
+    email: { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+    creditCard: { name: 'creditCard', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: (match: string): boolean => luhn(match.replace(/\D/g, '')) },
+    phone: {
+        name: 'phone',
+        pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-]?)\d{3,4}[\s.-]?\d{3,4}\b/g,
+        validate: (match: string): boolean => match.replace(/\D/g, '').length >= 10
+    },
+    token: { name: 'token', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*|\bBearer\s+[A-Za-z0-9\-._~+\/]+=*/g }
+};
+
+/**
+ * Transcript store that removes personal data from activities before passing them to another
+ * store.
+ *
+ * @remarks
+ * Every string in the activity, including attachments, `value` and `channelData`, is scanned by
+ * the built-in detectors and any custom rules. Sensitive text is masked, hashed or dropped. The
+ * `type`, `id`, `timestamp`, `channelId` and `conversation.id` fields are kept as is so the
+ * wrapped store can still file the activity. Reads and deletes are passed through unchanged,
+ * along with any options the wrapped store accepts.
+ *
+ * ```javascript
+ * const { FileTranscriptStore, RedactingTranscriptStore, TranscriptLoggerMiddleware } = require('botbuilder');
+ *
+ * const store = new RedactingTranscriptStore(new FileTranscriptStore(__dirname + '/transcripts/'), {
+ *     denyFields: ['channelData', 'from.name'],
+ *     rules: [{ name: 'orderId', pattern: /ORD-\d{8}/ }],
+ *     action: 'hash',
+ *     hashKey: process.env.TRANSCRIPT_HASH_KEY
+ * });
+ * adapter.use(new TranscriptLoggerMiddleware(store));
+ * ```
+ */
+export class RedactingTranscriptStore implements TranscriptStore {
+    private readonly store: OptionsTranscriptStore;
+    private readonly settings: RedactionSettings;
+    private readonly rules: (RedactionRule | RedactionFunction)[];
+
+    /**
+     * Creates a new RedactingTranscriptStore instance.
+     * @param store Store the redacted activities are logged to.
+     * @param settings (Optional) settings used to configure redaction.
+     */
+    constructor(store: TranscriptStore, settings?: RedactionSettings) {
+        if (!store) { throw new Error(`RedactingTranscriptStore: missing store.`); }
+        this.store = store as OptionsTranscriptStore;
+        this.settings = { action: 'mask', allowFields: [], denyFields: [], ...settings };
+        const detectors: RedactionDetector[] = this.settings.detectors || ['email', 'creditCard', 'phone', 'token'];
+        this.rules = detectors
+            .map((detector: RedactionDetector): RedactionRule | RedactionFunction => {
+                if (!BUILT_IN_RULES[detector]) { throw new Error(`RedactingTranscriptStore: unknown detector '${ detector }'.`); }
+
+                return BUILT_IN_RULES[detector];
+            })
+            .concat((this.settings.rules || []).map((rule: RedactionRule | RedactionFunction) => typeof rule === 'function' ? rule : {
+                ...rule,
+                pattern: rule.pattern.global ? rule.pattern : new RegExp(rule.pattern.source, `${ rule.pattern.flags }g`)
+            }));
+        const hashes: boolean = this.settings.action === 'hash' ||
+            this.rules.some((rule: RedactionRule | RedactionFunction) => typeof rule !== 'function' && rule.action === 'hash');
+        if (hashes && !(this.settings.hashKey && this.settings.hashKey.length > 0)) {
+            throw new Error(`RedactingTranscriptStore: the 'hash' action needs a hashKey.`);
+        }
+    }
+
+    /**
+     * Redacts an activity and logs it to the wrapped store.
+     * @param activity Activity being logged.
+     */
+    public logActivity(activity: Activity): void | Promise<void> {
+        if (!activity) {
+            throw new Error('activity cannot be null for logActivity()');
+        }
+
+        return this.store.logActivity(this.redact(activity));
+    }
+
+    /**
+     * Get all activities associated with a conversation id from the wrapped store.
+     * @param channelId Channel Id.
+     * @param conversationId Conversation Id.
+     * @param continuationToken (Optional) Continuation token to page through results.
+     * @param startDate (Optional) Earliest time to include.
+     * @param options (Optional) options of the wrapped store, like the `TranscriptReadOptions` of a `FileTranscriptStore`.
+     */
+    public getTranscriptActivities(
+        channelId: string,
+        conversationId: string,
+        continuationToken?: string,
+        startDate?: Date,
+        options?: object
+    ): Promise<PagedResult<Activity>> {
+        return this.store.getTranscriptActivities(channelId, conversationId, continuationToken, startDate, options);
+    }
+
+    /**
+     * List all the logged conversations for a given channelId from the wrapped store.
+     * @param channelId Channel Id.
+     * @param continuationToken (Optional) Continuation token to page through results.
+     * @param options (Optional) options of the wrapped store, like the `TranscriptListOptions` of a `FileTranscriptStore`.
+     */
+    public listTranscripts(channelId: string, continuationToken?: string, options?: object): Promise<PagedResult<TranscriptInfo>> {
+        return this.store.listTranscripts(channelId, continuationToken, options);
+    }
+
+    /**
+     * Delete a conversation and all of it's activities from the wrapped store.
+     * @param channelId Channel Id where conversation took place.
+     * @param conversationId Id of the conversation to delete.
+     */
+    public deleteTranscript(channelId: string, conversationId: string): Promise<void> {
+        return this.store.deleteTranscript(channelId, conversationId);
+    }
+
+    /**
+     * Returns a redacted copy of an activity. The activity passed in isn't changed.
+     * @param activity Activity to redact.
+     */
+    public redact(activity: Partial<Activity>): Activity {
+        return this.redactValue(activity, '', '');
+    }
+
+    private redactValue(value: any, fieldPath: string, key: string): any {
+        if (value === null || value === undefined) { return value; }
+        if (value instanceof Date) { return new Date(value.getTime()); }
+        if (fieldPath && (PROTECTED_FIELDS.indexOf(fieldPath) >= 0 || matchesField(this.settings.allowFields, fieldPath))) {
+            return copy(value);
+        }
+        // A denied object still has its protected and allowed fields kept, so it's redacted field by field.
+        const keepsFields: boolean = containsField(PROTECTED_FIELDS, fieldPath) || containsField(this.settings.allowFields, fieldPath);
+        if (fieldPath && matchesField(this.settings.denyFields, fieldPath) && !(keepsFields && typeof value === 'object')) {
+            return this.apply(this.settings.action, typeof value === 'string' ? value : JSON.stringify(value));
+        }
+        if (Array.isArray(value)) {
+            return value
+                .map((item: any) => this.redactValue(item, fieldPath, key))
+                .filter((item: any) => item !== undefined);
+        }
+        if (typeof value === 'object') {
+            const redacted: any = {};
+            Object.keys(value).forEach((name: string) => {
+                const item: any = this.redactValue(value[name], fieldPath ? `${ fieldPath }.${ name }` : name, name);
+                if (item !== undefined) { redacted[name] = item; }
+            });
+
+            return redacted;
+        }
+        if (typeof value !== 'string') { return value; }
+
+        if (SENSITIVE_KEY.test(key) && this.rules.indexOf(BUILT_IN_RULES.token) >= 0) {
+            return this.apply(this.settings.action, value);
+        }
+
+        return this.rules.reduce((text: string, rule: RedactionRule | RedactionFunction) => {
+            if (typeof rule === 'function') { return rule(text, fieldPath); }
+            rule.pattern.lastIndex = 0;
+
+            return text.replace(rule.pattern, (match: string) => {
+                if (rule.validate && !rule.validate(match)) { return match; }
+
+                return this.apply(rule.action || this.settings.action, match) || '';
+            });
+        }, value);
+    }
+
+    private apply(action: RedactionAction, value: string): string {
+        switch (action) {
+            case 'drop':
+                return undefined;
+            case 'hash':
+                return `#${ crypto.createHmac('sha256', this.settings.hashKey).update(value).digest('hex') }`;
+            default:
+                return value.replace(/[^\s]/g, '*');
+        }
+    }
+}
+
+/**
+ * @private
+ * Transcript store whose read methods accept extra options, like a `FileTranscriptStore`.
+ */
+interface OptionsTranscriptStore extends TranscriptStore {
+    getTranscriptActivities(
+        channelId: string,
+        conversationId: string,
+        continuationToken?: string,
+        startDate?: Date,
+        options?: object
+    ): Promise<PagedResult<Activity>>;
+    listTranscripts(channelId: string, continuationToken?: string, options?: object): Promise<PagedResult<TranscriptInfo>>;
+}
+
+/**
+ * @private
+ * @param patterns Field path patterns.
+ * @param fieldPath Path of a field.
+ */
+function matchesField(patterns: string[], fieldPath: string): boolean {
+    const fieldParts: string[] = fieldPath.split('.');
+
+    return patterns.some((pattern: string) => {
+        const parts: string[] = pattern.split('.');
+
+        return parts.length <= fieldParts.length && parts.every((part: string, i: number) => part === '*' || part === fieldParts[i]);
+    });
+}
+
+/**
+ * @private
+ * @param patterns Field path patterns.
+ * @param fieldPath Path of a field.
+ */
+function containsField(patterns: string[], fieldPath: string): boolean {
+    const fieldParts: string[] = fieldPath.split('.');
+
+    return patterns.some((pattern: string) => {
+        const parts: string[] = pattern.split('.');
+
+        return parts.length > fieldParts.length && fieldParts.every((part: string, i: number) => parts[i] === '*' || parts[i] === part);
+    });
+}
+
+/**
+ * @private
+ * @param value Value to copy.
+ */
+function copy(value: any): any {
+    if (value instanceof Date) { return new Date(value.getTime()); }
+    if (Array.isArray(value)) { return value.map(copy); }
+    if (value && typeof value === 'object') {
+        const result: any = {};
+        Object.keys(value).forEach((key: string) => result[key] = copy(value[key]));
+
+        return result;
+    }
+
+    return value;
+}
+
+/**
+ * @private
+ * @param digits Digits of a card number.
+ */
+function luhn(digits: string): boolean {
+    let sum: number = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit: number = parseInt(digits.charAt(digits.length - 1 - i), 10);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) { digit -= 9; }
+        }
+        sum += digit;
+    }
+
+    return digits.length >= 13 && sum % 10 === 0;
+}
@@ -0,0 +1,162 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * Settings used to configure how failed connector calls are retried.
+ */
+export interface RetryPolicySettings {
+    /**
+     * (Optional) maximum number of attempts, including the initial one. Defaults to `3`.
+     */
+    maxAttempts?: number;
+
+    /**
+     * (Optional) delay in milliseconds before the first retry. Each following retry doubles
+     * the previous delay. Defaults to `500`.
+     */
+    initialDelay?: number;
+
+    /**
+     * (Optional) upper bound in milliseconds for a single delay, including delays requested by a
+     * `Retry-After` header. Defaults to `30000`.
+     */
+    maxDelay?: number;
+
+    /**
+     * (Optional) fraction of each computed delay that will be randomized, between `0` and `1`.
+     * Defaults to `0.2`.
+     */
+    jitter?: number;
+
+    /**
+     * (Optional) if `true` operations that aren't idempotent, like sending an activity or creating
+     * a conversation, are also retried after a `5xx` status code. The connector may have handled
+     * the failed request, so a retry can deliver the activity twice. Defaults to `false`.
+     */
+    retryNonIdempotent?: boolean;
+}
+
+/**
+ * Retries an operation that failed with a transient error using exponential backoff with jitter.
+ *
+ * @remarks
+ * An error is considered transient when the connector reports a `429 Too Many Requests`, any
+ * `5xx` status code, or when the request couldn't be sent at all. When the failed response carries
+ * a `Retry-After` header its value is used instead of the computed backoff.
+ *
+ * Operations that aren't idempotent, which includes every `POST` made by the adapter, are only
+ * retried after a `429` or when the request couldn't be sent, unless `retryNonIdempotent` is set.
+ *
+ * ```JavaScript
+ * const adapter = new BotFrameworkAdapter({
+ *     appId: process.env.MICROSOFT_APP_ID,
+ *     appPassword: process.env.MICROSOFT_APP_PASSWORD,
+ *     retryPolicy: { maxAttempts: 5, initialDelay: 250 }
+ * });
+ * ```
+ */
+export class RetryPolicy {
+    private readonly settings: RetryPolicySettings;
+
+    /**
+     * Creates a new RetryPolicy instance.
+     * @param settings (Optional) settings used to configure the policy.
+     */
+    constructor(settings?: RetryPolicySettings) {
+        this.settings = { maxAttempts: 3, initialDelay: 500, maxDelay: 30000, jitter: 0.2, ...settings };
+        if (!(this.settings.maxAttempts >= 1)) { throw new Error(`RetryPolicy: maxAttempts must be at least 1.`); }
+    }
+
+    /**
+     * Runs an operation, retrying it for as long as it fails with a transient error and attempts
+     * remain.
+     * @param operation Function that performs the operation and returns a promise for its result.
+     * @param idempotent (Optional) if `false` the operation isn't retried after a `5xx` unless `retryNonIdempotent` is set. Defaults to `true`.
+     */
+    public async execute<T>(operation: () => Promise<T>, idempotent: boolean = true): Promise<T> {
+        let attempt: number = 1;
+        while (true) {
+            try {
+                return await operation();
+            } catch (err) {
+                if (attempt >= this.settings.maxAttempts || !this.isTransient(err, idempotent)) { throw err; }
+                await delay(this.getDelay(attempt, err));
+                attempt++;
+            }
+        }
+    }
+
+    /**
+     * Returns `true` if a failed operation should be retried.
+     * @param err Error raised by the operation.
+     * @param idempotent (Optional) if `false` the operation may have been handled despite the error. Defaults to `true`.
+     */
+    protected isTransient(err: any, idempotent: boolean = true): boolean {
+        if (!err) { return false; }
+        const statusCode: number = getStatusCode(err);
+        if (typeof statusCode === 'number') {
+            return statusCode === 429 || (statusCode >= 500 && (idempotent || !!this.settings.retryNonIdempotent));
+        }
+
+        return err.code === 'REQUEST_SEND_ERROR';
+    }
+
+    /**
+     * Computes the number of milliseconds to wait before the next attempt.
+     * @param attempt Number of the attempt that just failed, starting at `1`.
+     * @param err Error raised by the failed attempt.
+     */
+    protected getDelay(attempt: number, err: any): number {
+        const retryAfter: number = getRetryAfter(err);
+        if (retryAfter !== undefined) { return Math.min(retryAfter, this.settings.maxDelay); }
+
+        const backoff: number = Math.min(this.settings.initialDelay * Math.pow(2, attempt - 1), this.settings.maxDelay);
+        const jitter: number = backoff * this.settings.jitter * (Math.random() * 2 - 1);
+
+        return Math.max(0, Math.round(backoff + jitter));
+    }
+}
+
+/**
+ * @private
+ * @param err Error raised by a connector call.
+ */
+function getStatusCode(err: any): number {
+    if (typeof err.statusCode === 'number') { return err.statusCode; }
+    if (err.response && typeof err.response.status === 'number') { return err.response.status; }
+
+    return undefined;
+}
+
+/**
+ * @private
+ * Returns the delay requested by a `Retry-After` header in milliseconds, if any.
+ * @param err Error raised by a connector call.
+ */
+function getRetryAfter(err: any): number {
+    const headers: any = err && err.response && err.response.headers;
+    if (!headers) { return undefined; }
+    const value: string = typeof headers.get === 'function' ? headers.get('retry-after') : headers['retry-after'];
+    if (!value) { return undefined; }
+
+    const seconds: number = Number(value);
+    if (!isNaN(seconds)) { return Math.max(0, seconds * 1000); }
+    const date: number = Date.parse(value);
+
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * @private
+ * @param timeout Number of milliseconds to wait.
+ */
+function delay(timeout: number): Promise<void> {
+    return new Promise((resolve: any): void => {
+        setTimeout(resolve, timeout);
+    });
+}
@@ -0,0 +1,515 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import * as fs from 'async-file';
+import { BotAdapter, ConversationReference, TurnContext } from 'botbuilder-core';
+import * as crypto from 'crypto';
+import * as filenamify from 'filenamify';
+import * as path from 'path';
+import { BotFrameworkAdapterLogger } from './botFrameworkAdapter';
+
+/**
+ * Proactive job saved by a `Scheduler`.
+ */
+export interface ScheduledJob {
+    /**
+     * Unique ID of the job.
+     */
+    id: string;
+
+    /**
+     * Conversation the job continues.
+     */
+    reference: Partial<ConversationReference>;
+
+    /**
+     * Time the job runs next, in milliseconds since the epoch.
+     */
+    nextRun: number;
+
+    /**
+     * (Optional) 5 field cron expression for recurring jobs, like `0 9 * * 1-5`.
+     */
+    cron?: string;
+
+    /**
+     * (Optional) name of the handler registered with `Scheduler.registerHandler()` that runs the
+     * job. Jobs scheduled with a function instead of a handler name don't survive restarts.
+     */
+    handler?: string;
+
+    /**
+     * (Optional) data saved with the job and passed to its handler.
+     */
+    data?: any;
+}
+
+/**
+ * Logic run by a scheduled job.
+ */
+export type ScheduledJobHandler = (context: TurnContext, job: ScheduledJob) => Promise<void>;
+
+/**
+ * Storage for the jobs of a `Scheduler`.
+ */
+export interface JobStore {
+    /**
+     * Saves a job, replacing any job with the same ID.
+     * @param job Job to save.
+     */
+    saveJob(job: ScheduledJob): Promise<void>;
+
+    /**
+     * Returns all the saved jobs.
+     */
+    listJobs(): Promise<ScheduledJob[]>;
+
+    /**
+     * Deletes a job.
+     * @param id ID of the job to delete.
+     */
+    deleteJob(id: string): Promise<void>;
+}
+
+/**
+ * Job store that keeps jobs in memory.
+ *
+ * @remarks
+ * Jobs are lost when the process exits, so this should only be used for unit tests or
+ * non-production environments.
+ */
+export class MemoryJobStore implements JobStore {
+    private readonly jobs: Map<string, ScheduledJob> = new Map<string, ScheduledJob>();
+
+    /**
+     * Saves a job, replacing any job with the same ID.
+     * @param job Job to save.
+     */
+    public saveJob(job: ScheduledJob): Promise<void> {
+        this.jobs.set(job.id, JSON.parse(JSON.stringify(job)));
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Returns all the saved jobs.
+     */
+    public listJobs(): Promise<ScheduledJob[]> {
+        const jobs: ScheduledJob[] = [];
+        this.jobs.forEach((job: ScheduledJob) => jobs.push(JSON.parse(JSON.stringify(job))));
+
+        return Promise.resolve(jobs);
+    }
+
+    /**
+     * Deletes a job.
+     * @param id ID of the job to delete.
+     */
+    public deleteJob(id: string): Promise<void> {
+        this.jobs.delete(id);
+
+        return Promise.resolve();
+    }
+}
+
+/**
+ * Job store that keeps each job in a JSON file named after its ID.
+ */
+export class FileJobStore implements JobStore {
+    private rootFolder: string;
+
+    /**
+     * Creates a new FileJobStore instance.
+     * @param folder Folder where jobs will be stored.
+     */
+    constructor(folder: string) {
+        if (!folder) {
+            throw new Error('Missing folder.');
+        }
+
+        this.rootFolder = folder;
+    }
+
+    /**
+     * Saves a job, replacing any job with the same ID.
+     * @param job Job to save.
+     */
+    public saveJob(job: ScheduledJob): Promise<void> {
+        const json: string = JSON.stringify(job, null, '\t');
+
+        return fs.exists(this.rootFolder)
+            .then((exists: boolean) => { if (!exists) { return fs.mkdirp(this.rootFolder); } })
+            .then(() => fs.writeFile(this.getJobFile(job.id), json, 'utf8'));
+    }
+
+    /**
+     * Returns all the saved jobs.
+     */
+    public listJobs(): Promise<ScheduledJob[]> {
+        return fs.exists(this.rootFolder).then((exists: boolean) => {
+            if (!exists) { return []; }
+
+            return fs.readdir(this.rootFolder)
+                .then((files: string[]) => Promise.all(files
+                    .filter((f: string) => f.endsWith('.json'))
+                    .map((f: string) => fs.readFile(path.join(this.rootFolder, f), 'utf8'))))
+                .then((jsons: string[]) => jsons.map((json: string) => JSON.parse(json)));
+        });
+    }
+
+    /**
+     * Deletes a job.
+     * @param id ID of the job to delete.
+     */
+    public deleteJob(id: string): Promise<void> {
+        const jobFile: string = this.getJobFile(id);
+
+        return fs.exists(jobFile).then((exists: boolean) => {
+            if (exists) { return fs.unlink(jobFile); }
+        });
+    }
+
+    private getJobFile(id: string): string {
+        return path.join(this.rootFolder, `${ filenamify(id) }.json`);
+    }
+}
+
+/**
+ * Parsed 5 field cron expression.
+ *
+ * @remarks
+ * The fields are minute (0-59), hour (0-23), day of month (1-31), month (1-12) and day of week
+ * (0-6, Sunday is 0 or 7). Each field accepts `*`, single values, ranges like `1-5`, steps like
+ * `0-59/15` or `5/10` and comma separated lists of these. As with cron, when both the day of month
+ * and day of week are restricted a day matching either one matches. Times are in the local time
+ * zone of the process.
+ */
+export class CronExpression {
+    private readonly minutes: boolean[];
+    private readonly hours: boolean[];
+    private readonly days: boolean[];
+    private readonly months: boolean[];
+    private readonly weekdays: boolean[];
+    private readonly anyDay: boolean;
+    private readonly anyWeekday: boolean;
+
+    /**
+     * Creates a new CronExpression instance.
+     * @param expression Expression to parse.
+     */
+    constructor(public readonly expression: string) {
+        const fields: string[] = (expression || '').trim().split(/\s+/);
+        if (fields.length !== 5) { throw new Error(`CronExpression: expected 5 fields in '${ expression }'.`); }
+        this.minutes = parseField(fields[0], 0, 59, expression);
+        this.hours = parseField(fields[1], 0, 23, expression);
+        this.days = parseField(fields[2], 1, 31, expression);
+        this.months = parseField(fields[3], 1, 12, expression);
+        this.weekdays = parseField(fields[4], 0, 7, expression);
+        this.weekdays[0] = this.weekdays[0] || this.weekdays[7];
+        this.anyDay = fields[2] === '*';
+        this.anyWeekday = fields[4] === '*';
+    }
+
+    /**
+     * Returns the first time after a given time that matches the expression.
+     * @param after Time to start searching from.
+     */
+    public next(after: Date): Date {
+        const date: Date = new Date(after.getTime());
+        date.setSeconds(0, 0);
+        date.setMinutes(date.getMinutes() + 1);
+
+        // Give up after 5 years, which covers expressions like `0 0 29 2 *`.
+        const limit: number = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+        while (date.getTime() <= limit) {
+            if (!this.months[date.getMonth() + 1]) {
+                date.setMonth(date.getMonth() + 1, 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!this.matchesDay(date)) {
+                date.setDate(date.getDate() + 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!this.hours[date.getHours()]) {
+                date.setHours(date.getHours() + 1, 0, 0, 0);
+            } else if (!this.minutes[date.getMinutes()]) {
+                date.setMinutes(date.getMinutes() + 1, 0, 0);
+            } else {
+                return date;
+            }
+        }
+        throw new Error(`CronExpression: '${ this.expression }' never matches.`);
+    }
+
+    private matchesDay(date: Date): boolean {
+        const day: boolean = this.days[date.getDate()];
+        const weekday: boolean = this.weekdays[date.getDay()];
+        if (this.anyDay || this.anyWeekday) { return day && weekday; }
+
+        return day || weekday;
+    }
+}
+
+/**
+ * Settings used to configure a `Scheduler`.
+ */
+export interface SchedulerSettings {
+    /**
+     * (Optional) store jobs are saved to. Defaults to a `MemoryJobStore`.
+     */
+    jobStore?: JobStore;
+
+    /**
+     * (Optional) logger used to report failed jobs. Defaults to `console`.
+     */
+    logger?: BotFrameworkAdapterLogger;
+}
+
+// Longest delay setTimeout() supports.
+const MAX_TIMEOUT: number = 2147483647;
+
+/**
+ * Runs proactive jobs at a future time or on a cron schedule.
+ *
+ * @remarks
+ * Each job calls `continueConversation()` on the adapter and runs its logic with the created
+ * context. Jobs are saved to the configured `JobStore`. Only jobs using a handler registered with
+ * [registerHandler()](#registerhandler) can be run again after a restart, since functions can't
+ * be saved. Call [start()](#start) once the handlers are registered to pick up saved jobs.
+ *
+ * The scheduler's timer doesn't keep the process alive.
+ *
+ * ```JavaScript
+ * adapter.scheduler.registerHandler('reminder', async (context, job) => {
+ *     await context.sendActivity(`Reminder: ${ job.data.text }`);
+ * });
+ * await adapter.scheduler.start();
+ *
+ * // Remind the user in an hour and every weekday at 9am.
+ * await adapter.schedule(reference, 60 * 60 * 1000, 'reminder', { text: 'stretch' });
+ * await adapter.schedule(reference, '0 9 * * 1-5', 'reminder', { text: 'stand-up' });
+ * ```
+ */
+export class Scheduler {
+    private readonly adapter: BotAdapter;
+    private readonly store: JobStore;
+    private readonly logger: BotFrameworkAdapterLogger;
+    private readonly handlers: Map<string, ScheduledJobHandler> = new Map<string, ScheduledJobHandler>();
+    private readonly functions: Map<string, ScheduledJobHandler> = new Map<string, ScheduledJobHandler>();
+    private readonly jobs: Map<string, ScheduledJob> = new Map<string, ScheduledJob>();
+    private readonly running: Set<string> = new Set<string>();
+    private started: Promise<void>;
+    private timer: any;
+
+    /**
+     * Creates a new Scheduler instance.
+     * @param adapter Adapter used to continue conversations.
+     * @param settings (Optional) settings used to configure the scheduler.
+     */
+    constructor(adapter: BotAdapter, settings?: SchedulerSettings) {
+        if (!adapter) { throw new Error(`Scheduler: missing adapter.`); }
+        this.adapter = adapter;
+        this.store = (settings && settings.jobStore) || new MemoryJobStore();
+        this.logger = (settings && settings.logger) || console;
+    }
+
+    /**
+     * Registers a named handler that jobs can refer to.
+     * @param name Name of the handler.
+     * @param handler Logic run by the jobs using this name.
+     */
+    public registerHandler(name: string, handler: ScheduledJobHandler): this {
+        if (!name || typeof handler !== 'function') { throw new Error(`Scheduler.registerHandler(): missing name or handler`); }
+        this.handlers.set(name, handler);
+
+        return this;
+    }
+
+    /**
+     * Loads the saved jobs and starts running them. Called automatically by `schedule()`.
+     */
+    public start(): Promise<void> {
+        if (!this.started) {
+            this.started = this.store.listJobs().then((jobs: ScheduledJob[]) => {
+                jobs.forEach((job: ScheduledJob) => this.jobs.set(job.id, job));
+                this.arm();
+            }).catch((err: any) => {
+                this.started = undefined;
+                throw err;
+            });
+        }
+
+        return this.started;
+    }
+
+    /**
+     * Stops running jobs. Saved jobs are kept and run again on the next `start()`.
+     */
+    public stop(): void {
+        if (this.timer) { clearTimeout(this.timer); }
+        this.timer = undefined;
+        this.jobs.clear();
+        this.started = undefined;
+    }
+
+    /**
+     * Schedules a job.
+     * @param reference Conversation the job continues.
+     * @param when A `Date`, a delay in milliseconds, or a 5 field cron expression for recurring jobs.
+     * @param logic Name of a registered handler, or a function. Jobs using a function don't survive restarts.
+     * @param data (Optional) data saved with the job and passed to its handler.
+     */
+    public async schedule(
+        reference: Partial<ConversationReference>,
+        when: Date | number | string,
+        logic: string | ScheduledJobHandler,
+        data?: any
+    ): Promise<ScheduledJob> {
+        if (!reference || !reference.conversation || !reference.conversation.id) {
+            throw new Error(`Scheduler.schedule(): missing reference or reference.conversation.id`);
+        }
+        if (typeof logic === 'string' ? !this.handlers.has(logic) : typeof logic !== 'function') {
+            throw new Error(`Scheduler.schedule(): unknown handler '${ logic }'`);
+        }
+
+        const job: ScheduledJob = { id: crypto.randomBytes(16).toString('hex'), reference: reference, nextRun: 0 };
+        if (typeof when === 'string') {
+            job.cron = when;
+            job.nextRun = new CronExpression(when).next(new Date()).getTime();
+        } else if (typeof when === 'number' && isFinite(when) && when >= 0) {
+            job.nextRun = Date.now() + when;
+        } else if (when instanceof Date && !isNaN(when.getTime())) {
+            job.nextRun = when.getTime();
+        } else {
+            throw new Error(`Scheduler.schedule(): invalid time`);
+        }
+        if (typeof logic === 'string') {
+            job.handler = logic;
+        } else {
+            this.functions.set(job.id, logic);
+        }
+        if (data !== undefined) { job.data = data; }
+
+        await this.start();
+        await this.store.saveJob(job);
+        this.jobs.set(job.id, job);
+        this.arm();
+
+        return job;
+    }
+
+    /**
+     * Cancels a job. Returns `false` if the job wasn't found.
+     * @param id ID of the job to cancel.
+     */
+    public async cancel(id: string): Promise<boolean> {
+        await this.start();
+        const found: boolean = this.jobs.has(id) || (await this.store.listJobs()).some((job: ScheduledJob) => job.id === id);
+        this.jobs.delete(id);
+        this.functions.delete(id);
+        if (found) { await this.store.deleteJob(id); }
+        this.arm();
+
+        return found;
+    }
+
+    /**
+     * Returns the saved jobs, sorted by the time they run next.
+     * @param filter (Optional) predicate used to select jobs.
+     */
+    public async list(filter?: (job: ScheduledJob) => boolean): Promise<ScheduledJob[]> {
+        const jobs: ScheduledJob[] = await this.store.listJobs();
+
+        return jobs
+            .filter((job: ScheduledJob) => !filter || filter(job))
+            .sort((a: ScheduledJob, b: ScheduledJob) => a.nextRun - b.nextRun);
+    }
+
+    private arm(): void {
+        if (this.timer) { clearTimeout(this.timer); }
+        this.timer = undefined;
+        if (!this.started) { return; }
+        // Running jobs are left out until they're updated, so they aren't run twice.
+        let next: number;
+        this.jobs.forEach((job: ScheduledJob) => {
+            if (!this.running.has(job.id) && (next === undefined || job.nextRun < next)) { next = job.nextRun; }
+        });
+        if (next === undefined) { return; }
+
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.runDueJobs();
+            this.arm();
+        }, Math.min(Math.max(next - Date.now(), 0), MAX_TIMEOUT));
+        if (this.timer.unref) { this.timer.unref(); }
+    }
+
+    private runDueJobs(): void {
+        const now: number = Date.now();
+        this.jobs.forEach((job: ScheduledJob) => {
+            if (job.nextRun > now || this.running.has(job.id)) { return; }
+            this.running.add(job.id);
+            this.runJob(job).then(() => {
+                this.running.delete(job.id);
+                this.arm();
+            });
+        });
+    }
+
+    private async runJob(job: ScheduledJob): Promise<void> {
+        const handler: ScheduledJobHandler = job.handler ? this.handlers.get(job.handler) : this.functions.get(job.id);
+        if (!handler) {
+            // Keep the job saved so it runs once the handler is registered and the scheduler restarted.
+            this.jobs.delete(job.id);
+            this.logger.error(`Scheduler: no handler registered for job ${ job.id }${ job.handler ? ` ('${ job.handler }')` : '' }.`);
+
+            return;
+        }
+
+        try {
+            await this.adapter.continueConversation(job.reference, (context: TurnContext) => handler(context, job));
+        } catch (err) {
+            this.logger.error(`Scheduler: job ${ job.id } failed.`, err);
+        }
+
+        try {
+            if (job.cron) {
+                job.nextRun = new CronExpression(job.cron).next(new Date(Math.max(Date.now(), job.nextRun))).getTime();
+                if (this.jobs.has(job.id)) { await this.store.saveJob(job); }
+            } else {
+                this.jobs.delete(job.id);
+                this.functions.delete(job.id);
+                await this.store.deleteJob(job.id);
+            }
+        } catch (err) {
+            this.logger.error(`Scheduler: failed to update job ${ job.id }.`, err);
+        }
+    }
+}
+
+/**
+ * @private
+ * Parses a cron field into a lookup table of the values it matches.
+ * @param field Field to parse.
+ * @param min Smallest value of the field.
+ * @param max Largest value of the field.
+ * @param expression Full expression, used in error messages.
+ */
+function parseField(field: string, min: number, max: number, expression: string): boolean[] {
+    const values: boolean[] = new Array(max + 1).fill(false);
+    field.split(',').forEach((part: string) => {
+        const match: RegExpMatchArray = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+        if (!match) { throw new Error(`CronExpression: invalid field '${ field }' in '${ expression }'.`); }
+        const start: number = match[1] === '*' ? min : parseInt(match[2], 10);
+        const end: number = match[1] === '*' ? max : (match[3] !== undefined ? parseInt(match[3], 10) : (match[4] ? max : start));
+        const step: number = match[4] ? parseInt(match[4], 10) : 1;
+        if (start < min || end > max || start > end || step < 1) {
+            throw new Error(`CronExpression: invalid field '${ field }' in '${ expression }'.`);
+        }
+        for (let i = start; i <= end; i += step) { values[i] = true; }
+    });
+
+    return values;
+}
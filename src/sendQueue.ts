@@ -0,0 +1,179 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * Settings used to configure a `SendQueue` instance.
+ */
+export interface SendQueueSettings {
+    /**
+     * (Optional) maximum number of activities sent to a single conversation per second. Defaults to `1`.
+     */
+    messagesPerSecond?: number;
+
+    /**
+     * (Optional) maximum number of sends in flight across all conversations. Defaults to `10`.
+     */
+    maxConcurrency?: number;
+}
+
+/**
+ * @private
+ */
+interface QueuedSend {
+    task(): Promise<any>;
+    resolve(value: any): void;
+    reject(err: any): void;
+}
+
+/**
+ * @private
+ */
+interface ConversationQueue {
+    pending: QueuedSend[];
+    busy: boolean;
+    nextSendTime: number;
+}
+
+/**
+ * Outbound queue that paces the activities sent to each conversation.
+ *
+ * @remarks
+ * Sends are grouped by key, which for the `BotFrameworkAdapter` is the conversation ID. Sends
+ * sharing a key run one at a time in the order they were queued and no faster than
+ * `messagesPerSecond`. Sends for different keys run in parallel up to `maxConcurrency`.
+ *
+ * The promise returned by [enqueue()](#enqueue) resolves once the queued send has actually
+ * completed, with the value returned by the send.
+ *
+ * ```JavaScript
+ * const adapter = new BotFrameworkAdapter({
+ *     appId: process.env.MICROSOFT_APP_ID,
+ *     appPassword: process.env.MICROSOFT_APP_PASSWORD,
+ *     sendQueue: { messagesPerSecond: 1, maxConcurrency: 20 }
+ * });
+ * ```
+ */
+export class SendQueue {
+    private readonly settings: SendQueueSettings;
+    private readonly queues: Map<string, ConversationQueue> = new Map<string, ConversationQueue>();
+    private active: number = 0;
+    private timer: any;
+    private timerDue: number;
+
+    /**
+     * Creates a new SendQueue instance.
+     * @param settings (Optional) settings used to configure the queue.
+     */
+    constructor(settings?: SendQueueSettings) {
+        this.settings = { messagesPerSecond: 1, maxConcurrency: 10, ...settings };
+        if (!(this.settings.messagesPerSecond > 0)) { throw new Error(`SendQueue: messagesPerSecond must be greater than 0.`); }
+        if (!(this.settings.maxConcurrency >= 1)) { throw new Error(`SendQueue: maxConcurrency must be at least 1.`); }
+    }
+
+    /**
+     * Number of sends that are queued or in flight.
+     */
+    public get size(): number {
+        let size: number = this.active;
+        this.queues.forEach((queue: ConversationQueue) => size += queue.pending.length);
+
+        return size;
+    }
+
+    /**
+     * Queues a send for a conversation.
+     * @param key Key, typically the conversation ID, used to order and pace sends.
+     * @param task Function that performs the send.
+     */
+    public enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+        return new Promise<T>((resolve: any, reject: any): void => {
+            let queue: ConversationQueue = this.queues.get(key);
+            if (!queue) {
+                queue = { pending: [], busy: false, nextSendTime: 0 };
+                this.queues.set(key, queue);
+            }
+            queue.pending.push({ task: task, resolve: resolve, reject: reject });
+            this.pump();
+        });
+    }
+
+    private pump(): void {
+        const now: number = Date.now();
+        let wakeUp: number;
+        let cleanUp: number;
+        this.queues.forEach((queue: ConversationQueue, key: string) => {
+            if (queue.busy) { return; }
+            if (queue.pending.length === 0) {
+                // Empty queues are kept until their next send time so later sends stay paced.
+                if (queue.nextSendTime <= now) {
+                    this.queues.delete(key);
+                } else {
+                    cleanUp = cleanUp === undefined ? queue.nextSendTime : Math.min(cleanUp, queue.nextSendTime);
+                }
+
+                return;
+            }
+            if (queue.nextSendTime > now) {
+                wakeUp = wakeUp === undefined ? queue.nextSendTime : Math.min(wakeUp, queue.nextSendTime);
+
+                return;
+            }
+            if (this.active < this.settings.maxConcurrency) {
+                this.start(queue, now);
+            }
+        });
+
+        if (wakeUp !== undefined) {
+            this.schedule(wakeUp, false);
+        } else if (cleanUp !== undefined) {
+            this.schedule(cleanUp, true);
+        }
+    }
+
+    private start(queue: ConversationQueue, now: number): void {
+        const send: QueuedSend = queue.pending.shift();
+        queue.busy = true;
+        queue.nextSendTime = now + 1000 / this.settings.messagesPerSecond;
+        this.active++;
+
+        const done: () => void = (): void => {
+            queue.busy = false;
+            this.active--;
+            this.pump();
+        };
+        let result: Promise<any>;
+        try {
+            result = Promise.resolve(send.task());
+        } catch (err) {
+            result = Promise.reject(err);
+        }
+        result.then((value: any) => {
+            done();
+            send.resolve(value);
+        }, (err: any) => {
+            done();
+            send.reject(err);
+        });
+    }
+
+    private schedule(due: number, cleanUpOnly: boolean): void {
+        if (this.timer && this.timerDue <= due) {
+            if (!cleanUpOnly && this.timer.ref) { this.timer.ref(); }
+
+            return;
+        }
+        if (this.timer) { clearTimeout(this.timer); }
+        this.timerDue = due;
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.pump();
+        }, Math.max(0, due - Date.now()));
+        // Removing empty queues doesn't keep the process running.
+        if (cleanUpOnly && this.timer.unref) { this.timer.unref(); }
+    }
+}
@@ -0,0 +1,449 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import * as fs from 'async-file';
+import { Activity, ActivityTypes, Attachment, CardAction, ChannelAccount, PagedResult, TranscriptStore } from 'botbuilder-core';
+import * as path from 'path';
+import { cardToText, HERO_CARD, THUMBNAIL_CARD } from './cards';
+
+/**
+ * Formats a conversation can be exported to.
+ *
+ * @remarks
+ * - `transcript` a Bot Framework Emulator `.transcript` file, which is a JSON array of activities.
+ * - `chat` a chatdown `.chat` file.
+ * - `html` a standalone HTML page.
+ */
+export type TranscriptFormat = 'transcript' | 'chat' | 'html';
+
+/**
+ * Options for `importTranscript()` and `importTranscriptFile()`.
+ */
+export interface TranscriptImportOptions {
+    /**
+     * (Optional) channel the activities are imported into. Defaults to the channel of each activity.
+     */
+    channelId?: string;
+
+    /**
+     * (Optional) conversation the activities are imported into. Defaults to the conversation of
+     * each activity.
+     */
+    conversationId?: string;
+}
+
+/**
+ * Reads all the activities of a conversation from a transcript store.
+ * @param store Store to read from.
+ * @param channelId Channel Id.
+ * @param conversationId Conversation Id.
+ */
+export async function readTranscript(store: TranscriptStore, channelId: string, conversationId: string): Promise<Activity[]> {
+    if (!store) { throw new Error(`readTranscript(): missing store`); }
+
+    const activities: Activity[] = [];
+    let continuationToken: string;
+    do {
+        const page: PagedResult<Activity> = await store.getTranscriptActivities(channelId, conversationId, continuationToken);
+        activities.push(...page.items);
+        continuationToken = page.continuationToken;
+    } while (continuationToken);
+
+    return activities;
+}
+
+/**
+ * Formats a list of activities.
+ *
+ * @remarks
+ * When formatting to `chat`, attachments with an http URL and hero or thumbnail cards are kept. Other
+ * attachments need a file of their own, so they're only kept by `exportTranscriptFile()`.
+ * Activities other than messages and typing indicators are left out, as chatdown generates the
+ * conversation updates itself.
+ * @param activities Activities of a conversation, in the order they were sent.
+ * @param format Format to use.
+ */
+export function formatTranscript(activities: Partial<Activity>[], format: TranscriptFormat): string {
+    if (!Array.isArray(activities)) { throw new Error(`formatTranscript(): missing activities`); }
+
+    switch (format) {
+        case 'transcript':
+            return JSON.stringify(activities, null, 2);
+        case 'chat':
+            return formatChat(activities);
+        case 'html':
+            return formatHtml(activities);
+        default:
+            throw new Error(`formatTranscript(): unknown format '${ format }'`);
+    }
+}
+
+/**
+ * Exports a conversation from a transcript store.
+ *
+ * ```javascript
+ * const html = await exportTranscript(store, 'msteams', conversationId, 'html');
+ * ```
+ * @param store Store to read from.
+ * @param channelId Channel Id.
+ * @param conversationId Conversation Id.
+ * @param format Format to export to.
+ */
+export async function exportTranscript(
+    store: TranscriptStore,
+    channelId: string,
+    conversationId: string,
+    format: TranscriptFormat
+): Promise<string> {
+    return formatTranscript(await readTranscript(store, channelId, conversationId), format);
+}
+
+/**
+ * Exports a conversation from a transcript store to a file.
+ *
+ * @remarks
+ * The format is picked from the file extension, `.transcript`, `.chat` or `.html`, unless one is
+ * passed in. For `.chat` files, attachments without a URL are saved as JSON files in a folder
+ * named after the file, like `conversation.attachments/1.json`, which the `.chat` file refers to.
+ *
+ * ```javascript
+ * await exportTranscriptFile(store, 'msteams', conversationId, __dirname + '/bug-1234.transcript');
+ * ```
+ * @param store Store to read from.
+ * @param channelId Channel Id.
+ * @param conversationId Conversation Id.
+ * @param filePath Path of the file to write.
+ * @param format (Optional) format to export to.
+ */
+export async function exportTranscriptFile(
+    store: TranscriptStore,
+    channelId: string,
+    conversationId: string,
+    filePath: string,
+    format?: TranscriptFormat
+): Promise<void> {
+    if (!filePath) { throw new Error(`exportTranscriptFile(): missing filePath`); }
+    const fileFormat: TranscriptFormat = format || getFormat(filePath);
+    const activities: Activity[] = await readTranscript(store, channelId, conversationId);
+    if (fileFormat !== 'chat') {
+        await fs.writeFile(filePath, formatTranscript(activities, fileFormat), 'utf8');
+
+        return;
+    }
+
+    const attachmentFolder: string = `${ path.basename(filePath, path.extname(filePath)) }.attachments`;
+    const files: { name: string; content: any }[] = [];
+    const text: string = formatChat(activities, (attachment: Attachment): string => {
+        const name: string = `${ attachmentFolder }/${ files.length + 1 }.json`;
+        files.push({ name: name, content: attachment.content });
+
+        return name;
+    });
+    for (const file of files) {
+        const attachmentPath: string = path.join(path.dirname(filePath), file.name);
+        await fs.mkdirp(path.dirname(attachmentPath));
+        await fs.writeFile(attachmentPath, JSON.stringify(file.content, null, 2), 'utf8');
+    }
+    await fs.writeFile(filePath, text, 'utf8');
+}
+
+/**
+ * Logs the activities of a `.transcript` file to a transcript store.
+ *
+ * @remarks
+ * Activities are logged one at a time, in the order they appear in the transcript.
+ *
+ * ```javascript
+ * const count = await importTranscript(store, fs.readFileSync('bug-1234.transcript', 'utf8'), { channelId: 'emulator' });
+ * ```
+ * @param store Store to log the activities to.
+ * @param transcript Content of a `.transcript` file, or the activities it contains.
+ * @param options (Optional) import options.
+ * @returns The number of activities imported.
+ */
+export async function importTranscript(
+    store: TranscriptStore,
+    transcript: string | Partial<Activity>[],
+    options?: TranscriptImportOptions
+): Promise<number> {
+    if (!store) { throw new Error(`importTranscript(): missing store`); }
+
+    const activities: Partial<Activity>[] = typeof transcript === 'string' ? JSON.parse(transcript) : transcript;
+    if (!Array.isArray(activities)) { throw new Error(`importTranscript(): a transcript must be an array of activities`); }
+
+    const settings: TranscriptImportOptions = { ...options };
+    for (const item of activities) {
+        const activity: Activity = { ...item } as Activity;
+        activity.timestamp = activity.timestamp ? new Date(activity.timestamp) : new Date();
+        if (settings.channelId) { activity.channelId = settings.channelId; }
+        if (settings.conversationId) { activity.conversation = { ...activity.conversation, id: settings.conversationId }; }
+        if (!activity.channelId || !activity.conversation || !activity.conversation.id) {
+            throw new Error(`importTranscript(): activity '${ activity.id }' is missing its channelId or conversation id`);
+        }
+        await store.logActivity(activity);
+    }
+
+    return activities.length;
+}
+
+/**
+ * Logs the activities of a `.transcript` file to a transcript store.
+ * @param store Store to log the activities to.
+ * @param filePath Path of the `.transcript` file.
+ * @param options (Optional) import options.
+ * @returns The number of activities imported.
+ */
+export async function importTranscriptFile(store: TranscriptStore, filePath: string, options?: TranscriptImportOptions): Promise<number> {
+    if (!filePath) { throw new Error(`importTranscriptFile(): missing filePath`); }
+
+    return importTranscript(store, await fs.readFile(filePath, 'utf8'), options);
+}
+
+/**
+ * Returns the id of the bot in a conversation. Roles are used when set. Otherwise the first
+ * activity is assumed to have been received by the bot.
+ * @param activities Activities of the conversation.
+ */
+export function findBotId(activities: Partial<Activity>[]): string {
+    for (const activity of activities) {
+        if (activity.from && activity.from.role === 'bot') { return activity.from.id; }
+        if (activity.recipient && activity.recipient.role === 'bot') { return activity.recipient.id; }
+    }
+    const first: Partial<Activity> = activities.find((a: Partial<Activity>) => !!a.recipient);
+
+    return first ? first.recipient.id : undefined;
+}
+
+/**
+ * @private
+ * @param filePath Path of an export file.
+ */
+function getFormat(filePath: string): TranscriptFormat {
+    switch (path.extname(filePath).toLowerCase()) {
+        case '.transcript':
+            return 'transcript';
+        case '.chat':
+            return 'chat';
+        case '.html':
+        case '.htm':
+            return 'html';
+        default:
+            throw new Error(`exportTranscriptFile(): can't tell the format of '${ filePath }'`);
+    }
+}
+
+/**
+ * @private
+ * @param activities Activities of the conversation.
+ * @param saveAttachment (Optional) function saving an attachment and returning its path.
+ */
+function formatChat(activities: Partial<Activity>[], saveAttachment?: (attachment: Attachment) => string): string {
+    const botId: string = findBotId(activities);
+    const aliases: Map<string, string> = new Map<string, string>();
+    const users: string[] = [];
+    let botAlias: string = 'bot';
+    const getAlias: (account: ChannelAccount) => string = (account: ChannelAccount): string => {
+        if (!aliases.has(account.id)) {
+            let alias: string = (account.name || account.id || 'user').replace(/[^\w.-]+/g, '_');
+            const taken: string[] = Array.from(aliases.values());
+            for (let i = 2; taken.indexOf(alias) >= 0 || alias === 'bot' || alias === 'user'; i++) {
+                alias = `${ (account.name || account.id || 'user').replace(/[^\w.-]+/g, '_') }${ i }`;
+            }
+            aliases.set(account.id, alias);
+            if (account.id === botId) { botAlias = alias; } else { users.push(alias); }
+        }
+
+        return aliases.get(account.id);
+    };
+    activities.forEach((activity: Partial<Activity>) => [activity.from, activity.recipient]
+        .filter((account: ChannelAccount) => account && account.id)
+        .forEach(getAlias));
+
+    const lines: string[] = [];
+    activities.forEach((activity: Partial<Activity>) => {
+        if (!activity.from || (activity.type !== ActivityTypes.Message && activity.type !== ActivityTypes.Typing)) { return; }
+        let speaker: string = getAlias(activity.from);
+        if (activity.from.id === botId && users.length > 1 && activity.recipient) {
+            speaker = `${ speaker }->${ getAlias(activity.recipient) }`;
+        }
+        if (activity.type === ActivityTypes.Typing) {
+            lines.push(`${ speaker }: [Typing]`);
+
+            return;
+        }
+
+        lines.push(`${ speaker }:`);
+        if (activity.text) { lines.push(...activity.text.split(/\r?\n/)); }
+        const actions: CardAction[] = activity.suggestedActions ? activity.suggestedActions.actions || [] : [];
+        if (actions.length > 0) {
+            lines.push(`[Suggestions=${ actions.map((action: CardAction) => oneLine(action.title || action.value)).join('|') }]`);
+        }
+        const attachments: Attachment[] = activity.attachments || [];
+        if (attachments.length > 1 && activity.attachmentLayout) { lines.push(`[AttachmentLayout=${ activity.attachmentLayout }]`); }
+        attachments.forEach((attachment: Attachment) => {
+            if (attachment.contentUrl && /^https?:/i.test(attachment.contentUrl)) {
+                lines.push(`[Attachment=${ attachment.contentUrl } ${ attachment.contentType }]`);
+            } else if ((attachment.contentType === HERO_CARD || attachment.contentType === THUMBNAIL_CARD) && attachment.content) {
+                const card: any = attachment.content;
+                const image: any = (card.images || [])[0];
+                lines.push(`[${ attachment.contentType === HERO_CARD ? 'HeroCard' : 'ThumbnailCard' }`);
+                ['title', 'subtitle', 'text'].filter((key: string) => card[key]).forEach((key: string) => {
+                    lines.push(`    ${ key }=${ oneLine(card[key]) }`);
+                });
+                if (image && image.url) { lines.push(`    image=${ image.url }`); }
+                if (card.buttons && card.buttons.length > 0) {
+                    lines.push(`    buttons=${ card.buttons.map((button: CardAction) => oneLine(button.title || button.value)).join('|') }`);
+                }
+                lines[lines.length - 1] += ']';
+            } else if (saveAttachment && attachment.content !== undefined) {
+                lines.push(`[Attachment=${ saveAttachment(attachment) } ${ attachment.contentType }]`);
+            }
+        });
+        lines.push('');
+    });
+
+    const header: string[] = [
+        users.length > 1 ? `users=${ users.join(',') }` : `user=${ users[0] || 'user' }`,
+        `bot=${ botAlias }`
+    ];
+    const channelId: string = activities.length > 0 ? activities[0].channelId : undefined;
+    if (channelId) { header.push(`channelId=${ channelId }`); }
+
+    return `${ header.join('\n') }\n\n${ lines.join('\n') }`;
+}
+
+/**
+ * @private
+ * @param activities Activities of the conversation.
+ */
+function formatHtml(activities: Partial<Activity>[]): string {
+    const botId: string = findBotId(activities);
+    const first: Partial<Activity> = activities[0] || {};
+    const title: string = `${ first.channelId || '' } ${ first.conversation ? first.conversation.id : '' }`.trim() || 'Transcript';
+    const items: string[] = activities.map((activity: Partial<Activity>) => {
+        const from: ChannelAccount = activity.from || {} as ChannelAccount;
+        const timestamp: string = activity.timestamp ? new Date(activity.timestamp).toISOString() : '';
+        if (activity.type !== ActivityTypes.Message) {
+            if (activity.type === ActivityTypes.Typing) { return ''; }
+            const details: string = [activity.type, activity.name].filter((part: string) => !!part).join(' ');
+
+            return `<div class="event">${ escapeHtml(details) } <time>${ timestamp }</time></div>`;
+        }
+
+        const parts: string[] = [
+            `<div class="meta">${ escapeHtml(from.name || from.id || '') } <time>${ timestamp }</time></div>`
+        ];
+        if (activity.text) { parts.push(`<div class="text">${ escapeHtml(activity.text).replace(/\r?\n/g, '<br>') }</div>`); }
+        (activity.attachments || []).forEach((attachment: Attachment) => parts.push(formatHtmlAttachment(attachment)));
+        const actions: CardAction[] = activity.suggestedActions ? activity.suggestedActions.actions || [] : [];
+        if (actions.length > 0) {
+            parts.push(`<div class="suggestions">${ actions.map(formatHtmlButton).join('') }</div>`);
+        }
+
+        return `<div class="activity ${ from.id === botId ? 'bot' : 'user' }">${ parts.join('') }</div>`;
+    });
+
+    return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        `<title>${ escapeHtml(title) }</title>`,
+        '<style>',
+        'body { font-family: sans-serif; max-width: 48em; margin: 0 auto; padding: 1em; background: #f4f4f4; }',
+        '.activity { margin: .5em 0; padding: .5em .75em; border-radius: .5em; max-width: 80%; background: #fff; }',
+        '.activity.user { margin-left: auto; background: #dcebfa; }',
+        '.meta, .event { color: #666; font-size: .8em; }',
+        '.event { text-align: center; margin: .5em 0; }',
+        '.card { border: 1px solid #ccc; border-radius: .25em; padding: .5em; margin-top: .5em; background: #fff; }',
+        '.card img, .image { max-width: 100%; }',
+        '.button { display: inline-block; border: 1px solid #0078d7; color: #0078d7; border-radius: 1em; padding: .1em .6em; margin: .25em .25em 0 0; }',
+        'pre { white-space: pre-wrap; font-size: .8em; }',
+        '</style>',
+        '</head>',
+        '<body>',
+        `<h1>${ escapeHtml(title) }</h1>`,
+        ...items.filter((item: string) => !!item),
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
+
+/**
+ * @private
+ * @param attachment Attachment to render.
+ */
+function formatHtmlAttachment(attachment: Attachment): string {
+    const contentType: string = attachment.contentType || '';
+    const url: string = safeUrl(attachment.contentUrl);
+    if (url && contentType.startsWith('image/')) {
+        return `<img class="image" src="${ escapeHtml(url) }" alt="${ escapeHtml(attachment.name || '') }">`;
+    }
+    if (url && (contentType.startsWith('audio/') || contentType.startsWith('video/'))) {
+        const tag: string = contentType.startsWith('audio/') ? 'audio' : 'video';
+
+        return `<${ tag } controls src="${ escapeHtml(url) }"></${ tag }>`;
+    }
+    if (url) { return `<div class="card"><a href="${ escapeHtml(url) }">${ escapeHtml(attachment.name || url) }</a></div>`; }
+
+    const card: any = attachment.content;
+    if ((contentType === HERO_CARD || contentType === THUMBNAIL_CARD) && card) {
+        const parts: string[] = (card.images || [])
+            .map((image: any) => safeUrl(image.url))
+            .filter((src: string) => !!src)
+            .map((src: string) => `<img src="${ escapeHtml(src) }" alt="">`);
+        if (card.title) { parts.push(`<div><b>${ escapeHtml(card.title) }</b></div>`); }
+        if (card.subtitle) { parts.push(`<div>${ escapeHtml(card.subtitle) }</div>`); }
+        if (card.text) { parts.push(`<div>${ escapeHtml(card.text) }</div>`); }
+        if (card.buttons) { parts.push(`<div>${ card.buttons.map(formatHtmlButton).join('') }</div>`); }
+
+        return `<div class="card">${ parts.join('') }</div>`;
+    }
+    const text: string = cardToText(attachment);
+    if (text) { return `<div class="card">${ escapeHtml(text).replace(/\r?\n/g, '<br>') }</div>`; }
+
+    return `<div class="card"><pre>${ escapeHtml(JSON.stringify(attachment, null, 2)) }</pre></div>`;
+}
+
+/**
+ * @private
+ * @param action Action to render.
+ */
+function formatHtmlButton(action: CardAction): string {
+    return `<span class="button">${ escapeHtml(action.title || `${ action.value }`) }</span>`;
+}
+
+/**
+ * @private
+ * Returns a URL if it's safe to use in the page, like `https://` or `data:image/` URLs.
+ * @param url URL to check.
+ */
+function safeUrl(url: string): string {
+    return url && /^(https?:|data:image\/)/i.test(url) ? url : undefined;
+}
+
+/**
+ * @private
+ * @param text Text to escape.
+ */
+function escapeHtml(text: string): string {
+    return `${ text }`
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * @private
+ * @param text Text used in a chatdown command.
+ */
+function oneLine(text: any): string {
+    return `${ text }`.replace(/\s*\r?\n\s*/g, ' ').replace(/[|\]]/g, ' ');
+}
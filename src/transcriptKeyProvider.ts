@@ -0,0 +1,184 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import * as crypto from 'crypto';
+
+/**
+ * Key used to encrypt transcript files.
+ */
+export interface TranscriptKey {
+    /**
+     * Id of the key. It's saved with each encrypted file so the file can be decrypted after the
+     * current key changed.
+     */
+    id: string;
+
+    /**
+     * 256 bit AES key.
+     */
+    key: Buffer;
+}
+
+/**
+ * Supplies the keys used to encrypt and decrypt transcript files.
+ *
+ * @remarks
+ * Implement this interface to fetch keys from a key vault or an HSM. Keys are requested for every
+ * file read or written, so implementations talking to a remote service should cache them.
+ */
+export interface TranscriptKeyProvider {
+    /**
+     * Returns the key new files are encrypted with.
+     */
+    getCurrentKey(): Promise<TranscriptKey>;
+
+    /**
+     * Returns a key by id, or `undefined` if the key is unknown.
+     * @param keyId Id saved with an encrypted file.
+     */
+    getKey(keyId: string): Promise<TranscriptKey | undefined>;
+}
+
+/**
+ * Key provider that keeps its keys in memory.
+ *
+ * @remarks
+ * Keys can be rotated by adding a new current key. Previous keys are kept so files encrypted
+ * with them can still be read.
+ *
+ * ```javascript
+ * const { FileTranscriptStore, MemoryTranscriptKeyProvider } = require('botbuilder');
+ *
+ * const keys = new MemoryTranscriptKeyProvider([
+ *     { id: '2018-11', key: Buffer.from(process.env.TRANSCRIPT_KEY_2018_11, 'base64') }
+ * ]);
+ * const store = new FileTranscriptStore(__dirname + '/transcripts/', { keyProvider: keys });
+ *
+ * // Later on, files are written with the new key and older files are still readable.
+ * keys.addKey({ id: '2019-01', key: Buffer.from(process.env.TRANSCRIPT_KEY_2019_01, 'base64') });
+ * ```
+ */
+export class MemoryTranscriptKeyProvider implements TranscriptKeyProvider {
+    private keys: Map<string, TranscriptKey> = new Map<string, TranscriptKey>();
+    private currentKeyId: string;
+
+    /**
+     * Creates a new MemoryTranscriptKeyProvider instance.
+     * @param keys (Optional) keys to start with. The last one becomes the current key.
+     */
+    constructor(keys?: TranscriptKey[]) {
+        (keys || []).forEach((key: TranscriptKey) => this.addKey(key));
+    }
+
+    /**
+     * Adds a key to the provider.
+     * @param key Key to add.
+     * @param makeCurrent (Optional) if `false` the key is only used to read files. Defaults to `true`.
+     */
+    public addKey(key: TranscriptKey, makeCurrent: boolean = true): void {
+        if (!key || !key.id) { throw new Error(`MemoryTranscriptKeyProvider.addKey(): missing key id.`); }
+        if (!Buffer.isBuffer(key.key) || key.key.length !== 32) {
+            throw new Error(`MemoryTranscriptKeyProvider.addKey(): key '${ key.id }' must be a 32 byte buffer.`);
+        }
+        this.keys.set(key.id, { id: key.id, key: key.key });
+        if (makeCurrent) { this.currentKeyId = key.id; }
+    }
+
+    /**
+     * Returns the key new files are encrypted with.
+     */
+    public getCurrentKey(): Promise<TranscriptKey> {
+        if (!this.currentKeyId) {
+            return Promise.reject(new Error(`MemoryTranscriptKeyProvider.getCurrentKey(): no current key.`));
+        }
+
+        return Promise.resolve(this.keys.get(this.currentKeyId));
+    }
+
+    /**
+     * Returns a key by id, or `undefined` if the key is unknown.
+     * @param keyId Id saved with an encrypted file.
+     */
+    public getKey(keyId: string): Promise<TranscriptKey | undefined> {
+        return Promise.resolve(this.keys.get(keyId));
+    }
+}
+
+/**
+ * Encrypts the content of a transcript file with AES-256-GCM. The file name is authenticated
+ * along with the content so encrypted files can't be swapped.
+ * @param text Content of the file.
+ * @param fileName Name of the file.
+ * @param keyProvider Provider of the current key.
+ */
+export function encryptTranscriptFile(text: string, fileName: string, keyProvider: TranscriptKeyProvider): Promise<string> {
+    return keyProvider.getCurrentKey().then((key: TranscriptKey) => {
+        const iv: Buffer = crypto.randomBytes(12);
+        const cipher: crypto.CipherGCM = crypto.createCipheriv('aes-256-gcm', key.key, iv) as crypto.CipherGCM;
+        cipher.setAAD(Buffer.from(fileName, 'utf8'));
+        const data: Buffer = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+        const envelope: TranscriptEnvelope = {
+            v: 1,
+            kid: key.id,
+            iv: iv.toString('base64'),
+            tag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64')
+        };
+
+        return JSON.stringify(envelope);
+    });
+}
+
+/**
+ * Returns the content of a transcript file written by `encryptTranscriptFile()`.
+ *
+ * @remarks
+ * Files that aren't encrypted are returned as is when no key provider is passed. With a key
+ * provider they're rejected, since they can't be authenticated, unless `allowPlaintext` is set.
+ * @param text Content of the file.
+ * @param fileName Name of the file.
+ * @param keyProvider (Optional) provider of the key the file was encrypted with.
+ * @param allowPlaintext (Optional) if `true` unencrypted files are returned even with a key provider. Defaults to `false`.
+ */
+export function decryptTranscriptFile(
+    text: string,
+    fileName: string,
+    keyProvider?: TranscriptKeyProvider,
+    allowPlaintext: boolean = false
+): Promise<string> {
+    const envelope: TranscriptEnvelope = text.startsWith('{"v":') ? JSON.parse(text) : undefined;
+    if (!envelope || !envelope.kid || envelope.data === undefined) {
+        if (keyProvider && !allowPlaintext) { return Promise.reject(new Error(`Transcript file '${ fileName }' is not encrypted.`)); }
+
+        return Promise.resolve(text);
+    }
+    if (!keyProvider) { return Promise.reject(new Error(`Transcript file '${ fileName }' is encrypted and no key provider was configured.`)); }
+    if (envelope.v !== 1) { return Promise.reject(new Error(`Transcript file '${ fileName }' uses unsupported encryption version ${ envelope.v }.`)); }
+
+    return keyProvider.getKey(envelope.kid).then((key: TranscriptKey) => {
+        if (!key) { throw new Error(`Transcript file '${ fileName }' is encrypted with unknown key '${ envelope.kid }'.`); }
+        const decipher: crypto.DecipherGCM = crypto.createDecipheriv(
+            'aes-256-gcm', key.key, Buffer.from(envelope.iv, 'base64')
+        ) as crypto.DecipherGCM;
+        decipher.setAAD(Buffer.from(fileName, 'utf8'));
+        decipher.setAuthTag(Buffer.from(envelope.tag, 'base64'));
+
+        return Buffer.concat([decipher.update(Buffer.from(envelope.data, 'base64')), decipher.final()]).toString('utf8');
+    });
+}
+
+/**
+ * @private
+ * Encrypted transcript file. `iv`, `tag` and `data` are base64 encoded.
+ */
+interface TranscriptEnvelope {
+    v: number;
+    kid: string;
+    iv: string;
+    tag: string;
+    data: string;
+}
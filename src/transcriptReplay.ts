@@ -0,0 +1,354 @@
+/**
+ * @module botbuilder
+ */
+/**
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+import { Activity, Middleware, MiddlewareHandler, TestAdapter, TranscriptStore, TurnContext } from 'botbuilder-core';
+import { findBotId, readTranscript } from './transcriptExport';
+
+/**
+ * Rules used to compare the activities sent by the bot with the recorded ones.
+ */
+export interface TranscriptMatchRules {
+    /**
+     * (Optional) property paths left out of the comparison, in addition to the ids, timestamps and
+     * addressing fields that are always ignored. A path also covers the properties below it, like
+     * `channelData` or `attachments.content.id`. Array indexes are not part of paths.
+     */
+    ignore?: string[];
+
+    /**
+     * (Optional) activity types skipped on both sides. Defaults to `typing`, `delay` and `trace`.
+     */
+    ignoreTypes?: string[];
+
+    /**
+     * (Optional) minimum similarity, from 0 to 1, for `text` and `speak` to match. Similarity is
+     * based on the edit distance between the texts. Defaults to `1`, which needs equal texts.
+     */
+    textSimilarity?: number;
+
+    /**
+     * (Optional) if `true` case and runs of whitespace are ignored when comparing texts. Defaults
+     * to `true`.
+     */
+    normalizeText?: boolean;
+}
+
+/**
+ * Options for `replayTranscript()` and `replayActivities()`.
+ */
+export interface TranscriptReplayOptions {
+    /**
+     * (Optional) rules used to compare activities.
+     */
+    rules?: TranscriptMatchRules;
+
+    /**
+     * (Optional) middleware added to the test adapter, like the state middleware used by the bot.
+     */
+    middleware?: (Middleware | MiddlewareHandler)[];
+}
+
+/**
+ * Difference found between a recorded activity and the one sent by the bot.
+ */
+export interface TranscriptDifference {
+    /**
+     * Position of the activity among the ones sent during the turn.
+     */
+    index: number;
+
+    /**
+     * Path of the property that differs, or an empty string if one of the activities is missing.
+     */
+    path: string;
+
+    /**
+     * Recorded value.
+     */
+    expected: any;
+
+    /**
+     * Value sent by the bot.
+     */
+    actual: any;
+}
+
+/**
+ * Outcome of replaying one user activity.
+ */
+export interface TranscriptReplayTurn {
+    /**
+     * Activity sent to the bot.
+     */
+    input: Partial<Activity>;
+
+    /**
+     * Activities the bot sent in the recording.
+     */
+    expected: Partial<Activity>[];
+
+    /**
+     * Activities the bot sent during the replay.
+     */
+    actual: Partial<Activity>[];
+
+    /**
+     * Differences found. Empty if the turn matched.
+     */
+    differences: TranscriptDifference[];
+
+    /**
+     * (Optional) error thrown by the bot during the turn.
+     */
+    error?: Error;
+}
+
+/**
+ * Outcome of `replayTranscript()` and `replayActivities()`.
+ */
+export interface TranscriptReplayResult {
+    /**
+     * `true` if every turn matched.
+     */
+    passed: boolean;
+
+    /**
+     * Outcome of each turn.
+     */
+    turns: TranscriptReplayTurn[];
+
+    /**
+     * Readable report listing the differences of each turn.
+     */
+    report: string;
+}
+
+// Properties that change on every run or depend on where the conversation took place.
+const IGNORED_PROPERTIES: string[] = [
+    'id', 'timestamp', 'localTimestamp', 'replyToId', 'serviceUrl', 'channelId', 'conversation', 'from', 'recipient'
+];
+const TEXT_PROPERTIES: string[] = ['text', 'speak'];
+
+/**
+ * Replays a stored conversation against a bot and compares the replies with the recorded ones.
+ *
+ * @remarks
+ * The conversation is read from the store and each activity sent by the user is passed to the
+ * bot logic through a `TestAdapter`. The activities the bot sends in response are compared with
+ * the ones recorded after that user activity. Activities the bot sent before the first user
+ * activity, like proactive messages, are skipped.
+ *
+ * ```javascript
+ * const result = await replayTranscript(store, 'msteams', conversationId, (context) => bot.onTurn(context), {
+ *     rules: { ignore: ['channelData'], textSimilarity: 0.9 },
+ *     middleware: [new AutoSaveStateMiddleware(conversationState)]
+ * });
+ * assert(result.passed, result.report);
+ * ```
+ * @param store Store the conversation was logged to.
+ * @param channelId Channel Id.
+ * @param conversationId Conversation Id.
+ * @param logic Bot logic to run.
+ * @param options (Optional) replay options.
+ */
+export async function replayTranscript(
+    store: TranscriptStore,
+    channelId: string,
+    conversationId: string,
+    logic: (context: TurnContext) => Promise<any>,
+    options?: TranscriptReplayOptions
+): Promise<TranscriptReplayResult> {
+    return replayActivities(await readTranscript(store, channelId, conversationId), logic, options);
+}
+
+/**
+ * Replays recorded activities against a bot and compares the replies with the recorded ones.
+ * @param activities Activities of a conversation, in the order they were sent.
+ * @param logic Bot logic to run.
+ * @param options (Optional) replay options.
+ */
+export async function replayActivities(
+    activities: Partial<Activity>[],
+    logic: (context: TurnContext) => Promise<any>,
+    options?: TranscriptReplayOptions
+): Promise<TranscriptReplayResult> {
+    if (!Array.isArray(activities)) { throw new Error(`replayActivities(): missing activities`); }
+    if (typeof logic !== 'function') { throw new Error(`replayActivities(): missing logic`); }
+
+    const settings: TranscriptReplayOptions = { ...options };
+    const rules: TranscriptMatchRules = { ignoreTypes: ['typing', 'delay', 'trace'], textSimilarity: 1, normalizeText: true, ...settings.rules };
+    const included: (activity: Partial<Activity>) => boolean = (activity: Partial<Activity>): boolean => rules.ignoreTypes.indexOf(activity.type) < 0;
+    const adapter: TestAdapter = new TestAdapter(logic);
+    (settings.middleware || []).forEach((middleware: Middleware | MiddlewareHandler) => adapter.use(middleware));
+
+    const botId: string = findBotId(activities);
+    const turns: TranscriptReplayTurn[] = [];
+    activities.forEach((activity: Partial<Activity>) => {
+        if (!activity.from || activity.from.id !== botId) {
+            turns.push({ input: activity, expected: [], actual: [], differences: [] });
+        } else if (turns.length > 0 && included(activity)) {
+            turns[turns.length - 1].expected.push(activity);
+        }
+    });
+
+    for (const turn of turns) {
+        const start: number = adapter.activityBuffer.length;
+        try {
+            await adapter.receiveActivity({ ...turn.input });
+        } catch (err) {
+            turn.error = err;
+        }
+        turn.actual = adapter.activityBuffer.slice(start).filter(included);
+        const count: number = Math.max(turn.expected.length, turn.actual.length);
+        for (let i = 0; i < count; i++) {
+            if (!turn.expected[i] || !turn.actual[i]) {
+                turn.differences.push({ index: i, path: '', expected: turn.expected[i], actual: turn.actual[i] });
+            } else {
+                compareValues(turn.expected[i], turn.actual[i], '', rules, (path: string, expected: any, actual: any) => {
+                    turn.differences.push({ index: i, path: path, expected: expected, actual: actual });
+                });
+            }
+        }
+    }
+
+    const passed: boolean = turns.every((turn: TranscriptReplayTurn) => !turn.error && turn.differences.length === 0);
+
+    return { passed: passed, turns: turns, report: formatReport(turns) };
+}
+
+/**
+ * @private
+ * @param expected Recorded value.
+ * @param actual Value sent by the bot.
+ * @param path Path of the values.
+ * @param rules Rules used to compare the values.
+ * @param onDifference Function called for each difference.
+ */
+function compareValues(
+    expected: any,
+    actual: any,
+    path: string,
+    rules: TranscriptMatchRules,
+    onDifference: (path: string, expected: any, actual: any) => void
+): void {
+    const ignored: string[] = path.indexOf('.') < 0 ? IGNORED_PROPERTIES.concat(rules.ignore || []) : rules.ignore || [];
+    if (path && ignored.some((ignore: string) => path === ignore || path.startsWith(`${ ignore }.`))) { return; }
+    if ((expected === undefined || expected === null) && (actual === undefined || actual === null)) { return; }
+
+    if (TEXT_PROPERTIES.indexOf(path) >= 0 && typeof expected === 'string' && typeof actual === 'string') {
+        if (!textMatches(expected, actual, rules)) { onDifference(path, expected, actual); }
+
+        return;
+    }
+    if (expected instanceof Date || actual instanceof Date) {
+        if (new Date(expected).getTime() !== new Date(actual).getTime()) { onDifference(path, expected, actual); }
+
+        return;
+    }
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        if (expected.length !== actual.length) {
+            onDifference(path, expected, actual);
+
+            return;
+        }
+        expected.forEach((item: any, i: number) => compareValues(item, actual[i], path, rules, onDifference));
+
+        return;
+    }
+    if (expected && actual && typeof expected === 'object' && typeof actual === 'object' && !Array.isArray(expected) && !Array.isArray(actual)) {
+        const keys: string[] = Array.from(new Set(Object.keys(expected).concat(Object.keys(actual)))).sort();
+        keys.forEach((key: string) => compareValues(expected[key], actual[key], path ? `${ path }.${ key }` : key, rules, onDifference));
+
+        return;
+    }
+    if (expected !== actual) { onDifference(path, expected, actual); }
+}
+
+/**
+ * @private
+ * @param expected Recorded text.
+ * @param actual Text sent by the bot.
+ * @param rules Rules used to compare the texts.
+ */
+function textMatches(expected: string, actual: string, rules: TranscriptMatchRules): boolean {
+    const normalize: (text: string) => string = (text: string): string =>
+        rules.normalizeText ? text.trim().replace(/\s+/g, ' ').toLowerCase() : text;
+    const a: string = normalize(expected);
+    const b: string = normalize(actual);
+    if (a === b) { return true; }
+    if (rules.textSimilarity >= 1) { return false; }
+
+    return similarity(a, b) >= rules.textSimilarity;
+}
+
+/**
+ * @private
+ * Returns the similarity of two strings, from 0 to 1, based on their Levenshtein distance.
+ * @param a First string.
+ * @param b Second string.
+ */
+function similarity(a: string, b: string): number {
+    const length: number = Math.max(a.length, b.length);
+    if (length === 0) { return 1; }
+    let previous: number[] = Array.from({ length: b.length + 1 }, (_: any, j: number) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current: number[] = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost: number = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost));
+        }
+        previous = current;
+    }
+
+    return 1 - previous[b.length] / length;
+}
+
+/**
+ * @private
+ * @param turns Outcome of each turn.
+ */
+function formatReport(turns: TranscriptReplayTurn[]): string {
+    const lines: string[] = [];
+    turns.forEach((turn: TranscriptReplayTurn, i: number) => {
+        const input: string = turn.input.text !== undefined ? JSON.stringify(turn.input.text) : turn.input.type;
+        const failed: boolean = !!turn.error || turn.differences.length > 0;
+        lines.push(`Turn ${ i + 1 } (${ input }): ${ failed ? 'FAILED' : 'ok' }`);
+        if (turn.error) { lines.push(`  ! error: ${ turn.error.message || turn.error }`); }
+        turn.differences.forEach((difference: TranscriptDifference) => {
+            const activity: string = `activity ${ difference.index + 1 }`;
+            if (difference.actual === undefined && !difference.path) {
+                lines.push(`  - ${ activity } missing: ${ describeActivity(difference.expected) }`);
+            } else if (difference.expected === undefined && !difference.path) {
+                lines.push(`  + ${ activity } unexpected: ${ describeActivity(difference.actual) }`);
+            } else {
+                lines.push(`  ~ ${ activity } ${ difference.path }:`);
+                lines.push(`      expected ${ stringify(difference.expected) }`);
+                lines.push(`      actual   ${ stringify(difference.actual) }`);
+            }
+        });
+    });
+    const failures: number = turns.filter((turn: TranscriptReplayTurn) => !!turn.error || turn.differences.length > 0).length;
+    lines.push(`${ turns.length - failures } of ${ turns.length } turns matched.`);
+
+    return lines.join('\n');
+}
+
+/**
+ * @private
+ * @param activity Activity to describe.
+ */
+function describeActivity(activity: Partial<Activity>): string {
+    return activity.text !== undefined ? `${ activity.type } ${ JSON.stringify(activity.text) }` : activity.type;
+}
+
+/**
+ * @private
+ * @param value Value to print.
+ */
+function stringify(value: any): string {
+    return value === undefined ? 'undefined' : JSON.stringify(value);
+}
@@ -0,0 +1,166 @@
+const assert = require('assert');
+const { TurnContext } = require('botbuilder-core');
+const { ActivityTimestampError, BotFrameworkAdapter, MemoryDeduplicationStore, OfflineConnector } = require('../');
+
+const reference = {
+    channelId: 'test',
+    serviceUrl: 'https://example.org/channel',
+    user: { id: 'user', name: 'User Name' },
+    bot: { id: 'bot', name: 'Bot Name' },
+    conversation: { id: 'convo1' }
+};
+
+class AdapterUnderTest extends BotFrameworkAdapter {
+    authenticateRequest(request, authHeader) { return Promise.resolve(); }
+}
+
+class MockResponse {
+    status(status) { this.statusCode = status; }
+    send(body) { this.body = body; }
+    end() { this.ended = true; }
+}
+
+function createRequest(id, properties) {
+    const activity = TurnContext.applyConversationReference(Object.assign({ type: 'message', text: 'hi', id: id, timestamp: new Date().toISOString() }, properties), reference, true);
+    return { body: activity, headers: {} };
+}
+
+async function post(adapter, request, logic) {
+    const res = new MockResponse();
+    await adapter.processActivity(request, res, logic);
+    return res;
+}
+
+describe(`MemoryDeduplicationStore`, function () {
+    it(`should accept a key once until it expires.`, async function () {
+        const store = new MemoryDeduplicationStore();
+        assert(await store.add('a', 20));
+        assert(!(await store.add('a', 20)));
+        assert(await store.add('b', 20));
+        await new Promise(resolve => setTimeout(resolve, 30));
+        assert(await store.add('a', 20), `expired key not accepted.`);
+    });
+
+    it(`should accept deleted keys again.`, async function () {
+        const store = new MemoryDeduplicationStore();
+        await store.add('a', 1000);
+        await store.delete('a');
+        assert(await store.add('a', 1000));
+    });
+
+    it(`should drop the oldest keys once full.`, async function () {
+        const store = new MemoryDeduplicationStore(2);
+        await store.add('a', 1000);
+        await store.add('b', 1000);
+        await store.add('c', 1000);
+        assert(await store.add('a', 1000), `oldest key not dropped.`);
+        assert(!(await store.add('c', 1000)));
+        assert.throws(() => new MemoryDeduplicationStore(0));
+    });
+});
+
+describe(`BotFrameworkAdapter deduplication`, function () {
+    it(`should answer duplicates without running the bot.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new AdapterUnderTest({ deduplication: {}, offlineConnector: connector });
+        let turns = 0;
+        let middleware = 0;
+        adapter.use(async (context, next) => { middleware++; await next(); });
+        const logic = async (context) => { turns++; await context.sendActivity('charged'); };
+
+        assert.equal((await post(adapter, createRequest('a1'), logic)).statusCode, 200);
+        const res = await post(adapter, createRequest('a1'), logic);
+        assert.equal(res.statusCode, 200);
+        assert(res.ended);
+        assert.equal(turns, 1);
+        assert.equal(middleware, 1);
+        assert.equal(connector.callsTo('replyToActivity').length, 1);
+
+        await post(adapter, createRequest('a2'), logic);
+        const otherConversation = createRequest('a1');
+        otherConversation.body.conversation = { id: 'convo2' };
+        await post(adapter, otherConversation, logic);
+        assert.equal(turns, 3, `distinct activities skipped.`);
+    });
+
+    it(`should process activities again once their key expired.`, async function () {
+        const adapter = new AdapterUnderTest({ deduplication: { ttl: 20 }, offlineConnector: new OfflineConnector() });
+        let turns = 0;
+        await post(adapter, createRequest('a1'), async () => { turns++; });
+        await new Promise(resolve => setTimeout(resolve, 30));
+        await post(adapter, createRequest('a1'), async () => { turns++; });
+        assert.equal(turns, 2);
+    });
+
+    it(`should let the channel retry a failed turn.`, async function () {
+        const adapter = new AdapterUnderTest({ deduplication: {}, offlineConnector: new OfflineConnector(), onTurnErrorResponse: () => ({ rethrow: false }), logger: { warn: () => {}, error: () => {} } });
+        let turns = 0;
+        const res = await post(adapter, createRequest('a1'), async () => { turns++; throw new Error('failed'); });
+        assert.equal(res.statusCode, 500);
+        await post(adapter, createRequest('a1'), async () => { turns++; });
+        await post(adapter, createRequest('a1'), async () => { turns++; });
+        assert.equal(turns, 2);
+    });
+
+    it(`should use a custom store and process activities if it fails.`, async function () {
+        const errors = [];
+        const keys = [];
+        const store = {
+            add: (key, ttl) => { keys.push(`${ key } ${ ttl }`); return keys.length > 1 ? Promise.reject(new Error('store down')) : Promise.resolve(true); },
+            delete: () => Promise.resolve()
+        };
+        const adapter = new AdapterUnderTest({ deduplication: { store: store, ttl: 5000 }, offlineConnector: new OfflineConnector(), logger: { warn: () => {}, error: (message) => errors.push(message) } });
+        let turns = 0;
+        await post(adapter, createRequest('a1'), async () => { turns++; });
+        await post(adapter, createRequest('a1'), async () => { turns++; });
+        assert.deepEqual(keys, ['test/convo1/a1 5000', 'test/convo1/a1 5000']);
+        assert.equal(turns, 2);
+        assert.equal(errors.length, 1);
+    });
+
+    it(`should process activities without an id.`, async function () {
+        const adapter = new AdapterUnderTest({ deduplication: {}, offlineConnector: new OfflineConnector() });
+        let turns = 0;
+        await post(adapter, createRequest(undefined), async () => { turns++; });
+        await post(adapter, createRequest(undefined), async () => { turns++; });
+        assert.equal(turns, 2);
+    });
+
+    it(`should validate its settings.`, function () {
+        assert.throws(() => new BotFrameworkAdapter({ deduplication: { ttl: 0 } }));
+        assert.throws(() => new BotFrameworkAdapter({ maxClockSkew: -1 }), /maxClockSkew must be a non-negative number/);
+        assert.doesNotThrow(() => new BotFrameworkAdapter({ maxClockSkew: 0 }));
+    });
+});
+
+describe(`BotFrameworkAdapter maxClockSkew`, function () {
+    const settings = { maxClockSkew: 60000, offlineConnector: new OfflineConnector(), onTurnErrorResponse: () => ({ rethrow: false }), logger: { warn: () => {}, error: () => {} } };
+
+    it(`should accept activities within the window.`, async function () {
+        const adapter = new AdapterUnderTest(settings);
+        let turns = 0;
+        const res = await post(adapter, createRequest('a1', { timestamp: new Date(Date.now() - 30000).toISOString() }), async () => { turns++; });
+        assert.equal(res.statusCode, 200);
+        assert.equal(turns, 1);
+    });
+
+    it(`should reject stale, future and undated activities.`, async function () {
+        const adapter = new AdapterUnderTest(Object.assign({}, settings, { onTurnErrorResponse: undefined }));
+        for (const timestamp of [new Date(Date.now() - 120000).toISOString(), new Date(Date.now() + 120000).toISOString(), undefined]) {
+            const res = new MockResponse();
+            await assert.rejects(
+                () => adapter.processActivity(createRequest('a1', { timestamp: timestamp }), res, async () => { assert.fail(`bot run for a rejected activity.`); }),
+                ActivityTimestampError
+            );
+            assert.equal(res.statusCode, 400);
+        }
+    });
+
+    it(`should check timestamps before recording activities.`, async function () {
+        const adapter = new AdapterUnderTest(Object.assign({ deduplication: {} }, settings));
+        let turns = 0;
+        await post(adapter, createRequest('a1', { timestamp: new Date(Date.now() - 120000).toISOString() }), async () => { turns++; });
+        await post(adapter, createRequest('a1'), async () => { turns++; });
+        assert.equal(turns, 1);
+    });
+});
@@ -0,0 +1,101 @@
+const assert = require('assert');
+const { ActivityValidator, ActivityValidationError, BotFrameworkAdapter, OfflineConnector, TurnContext } = require('../');
+
+const reference = {
+    channelId: 'sms',
+    serviceUrl: 'https://example.org/channel',
+    user: { id: 'user', name: 'User Name' },
+    bot: { id: 'bot', name: 'Bot Name' },
+    conversation: { id: 'convo1' }
+};
+
+const heroCard = {
+    contentType: 'application/vnd.microsoft.card.hero',
+    content: { title: 'Title', text: 'Card text', buttons: [{ type: 'openUrl', title: 'Docs', value: 'https://example.org' }] }
+};
+
+const imageAttachment = { contentType: 'image/png', contentUrl: 'https://example.org/image.png' };
+
+function message(channelId, properties) {
+    return Object.assign({ type: 'message', channelId: channelId }, properties);
+}
+
+describe(`ActivityValidator`, function () {
+    it(`should leave activities for unknown channels alone.`, function () {
+        const validator = new ActivityValidator();
+        const activity = message('webchat', { text: 'x'.repeat(100000), attachments: [heroCard] });
+        assert(validator.validate(activity).length === 0, `violations reported.`);
+        assert(validator.normalize(activity)[0] === activity, `activity changed.`);
+    });
+
+    it(`should ignore non-message activities.`, function () {
+        const validator = new ActivityValidator();
+        assert(validator.validate({ type: 'typing', channelId: 'sms' }).length === 0, `violations reported.`);
+    });
+
+    it(`should split long text on word boundaries.`, function () {
+        const validator = new ActivityValidator({ profiles: { test: { maxTextLength: 10 } } });
+        const parts = validator.normalize(message('test', { text: 'one two three four five', speak: 'hello' }));
+        assert(parts.length === 3, `invalid number of parts: ${ parts.length }`);
+        assert(parts[0].text === 'one two' && parts[1].text === 'three four' && parts[2].text === 'five', `invalid split.`);
+        assert(!parts[0].speak && parts[2].speak === 'hello', `speak not kept on last part.`);
+        assert(parts.every(part => part.text.length <= 10), `part too long.`);
+    });
+
+    it(`should downgrade unsupported cards to text.`, function () {
+        const validator = new ActivityValidator();
+        const parts = validator.normalize(message('sms', { text: 'Hi', attachments: [heroCard, imageAttachment] }));
+        assert(parts.length === 1, `invalid number of parts: ${ parts.length }`);
+        assert(parts[0].text === 'Hi\n\nTitle\nCard text\nDocs: https://example.org', `invalid text: ${ parts[0].text }`);
+        assert(parts[0].attachments.length === 1 && parts[0].attachments[0] === imageAttachment, `supported attachment not kept.`);
+    });
+
+    it(`should use the fallback text of adaptive cards.`, function () {
+        const validator = new ActivityValidator();
+        const card = { contentType: 'application/vnd.microsoft.card.adaptive', content: { type: 'AdaptiveCard', fallbackText: 'Fallback', body: [] } };
+        const parts = validator.normalize(message('slack', { attachments: [card] }));
+        assert(parts[0].text === 'Fallback' && !parts[0].attachments, `card not downgraded.`);
+    });
+
+    it(`should move extra attachments to follow-up messages.`, function () {
+        const validator = new ActivityValidator();
+        const parts = validator.normalize(message('sms', { text: 'Images', attachments: [imageAttachment, imageAttachment, imageAttachment] }));
+        assert(parts.length === 3, `invalid number of parts: ${ parts.length }`);
+        assert(parts[0].text === 'Images' && parts[0].attachments.length === 1, `first part invalid.`);
+        assert(!parts[2].text && parts[2].attachments.length === 1, `last part invalid.`);
+    });
+
+    it(`should remove or trim suggested actions.`, function () {
+        const validator = new ActivityValidator();
+        const actions = [1, 2, 3, 4].map(i => ({ type: 'imBack', title: `${ i }`, value: `${ i }` }));
+        const sms = validator.normalize(message('sms', { text: 'Pick', suggestedActions: { actions: actions } }));
+        assert(!sms[0].suggestedActions, `suggested actions not removed.`);
+        const teams = validator.normalize(message('msteams', { text: 'Pick', suggestedActions: { actions: actions } }));
+        assert(teams[0].suggestedActions.actions.length === 3, `suggested actions not trimmed.`);
+    });
+
+    it(`should throw in strict mode.`, function () {
+        const validator = new ActivityValidator({ strict: true });
+        try {
+            validator.normalize(message('sms', { text: 'x'.repeat(2000), attachments: [heroCard] }));
+            assert(false, `error not thrown.`);
+        } catch (err) {
+            assert(err instanceof ActivityValidationError, `invalid error type.`);
+            const types = err.violations.map(v => v.type);
+            assert(types.indexOf('textTooLong') >= 0 && types.indexOf('unsupportedAttachment') >= 0, `violations missing.`);
+        }
+    });
+
+    it(`should normalize messages sent by the adapter.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector, activityValidation: { profiles: { sms: { maxTextLength: 5 } } } });
+        let responses;
+        await adapter.continueConversation(reference, async (context) => {
+            responses = await context.sendActivities([{ text: 'hello world' }, { type: 'typing' }]);
+        });
+        const calls = connector.callsTo('sendToConversation');
+        assert(calls.length === 3, `invalid number of sends: ${ calls.length }`);
+        assert(calls[0].activity.text === 'hello' && calls[1].activity.text === 'world', `text not split.`);
+        assert(responses.length === 2, `one response per activity not returned.`);
+    });
+});
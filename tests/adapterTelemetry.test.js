@@ -0,0 +1,73 @@
+const assert = require('assert');
+const { MemoryTelemetrySink, OpenTelemetrySink } = require('../');
+
+const event = {
+    type: 'outboundSend',
+    name: 'sendToConversation',
+    correlationId: '1234',
+    timestamp: new Date(1000),
+    duration: 250,
+    success: true,
+    statusCode: 200,
+    channelId: 'test',
+    conversationId: 'convo1'
+};
+
+class FakeTracer {
+    constructor() {
+        this.spans = [];
+    }
+
+    startSpan(name, options) {
+        const span = {
+            name: name,
+            options: options,
+            setStatus: (status) => span.status = status,
+            end: (endTime) => span.endTime = endTime
+        };
+        this.spans.push(span);
+        return span;
+    }
+}
+
+describe(`MemoryTelemetrySink`, function () {
+    it(`should record and clear events.`, function () {
+        const sink = new MemoryTelemetrySink();
+        sink.trackEvent(event);
+        sink.trackEvent(event);
+        assert(sink.events.length === 2, `events not recorded.`);
+        sink.clear();
+        assert(sink.events.length === 0, `events not cleared.`);
+    });
+});
+
+describe(`OpenTelemetrySink`, function () {
+    it(`should fail to create a sink without a tracer.`, function () {
+        assert.throws(() => new OpenTelemetrySink());
+    });
+
+    it(`should record a successful event as a span.`, function () {
+        const tracer = new FakeTracer();
+        const sink = new OpenTelemetrySink(tracer);
+        sink.trackEvent(event);
+        const span = tracer.spans[0];
+        assert(span.name === 'botframework.outboundSend sendToConversation', `invalid span name: ${ span.name }`);
+        assert(span.options.kind === 2, `outbound calls should be client spans.`);
+        assert(span.options.startTime.getTime() === 1000, `invalid start time.`);
+        assert(span.options.attributes['botframework.correlation_id'] === '1234', `correlation id missing.`);
+        assert(span.options.attributes['botframework.conversation_id'] === 'convo1', `conversation id missing.`);
+        assert(span.options.attributes['http.status_code'] === 200, `status code missing.`);
+        assert(span.status.code === 1, `span status not OK.`);
+        assert(span.endTime.getTime() === 1250, `invalid end time.`);
+    });
+
+    it(`should record a failed event as an error span.`, function () {
+        const tracer = new FakeTracer();
+        const sink = new OpenTelemetrySink(tracer);
+        sink.trackEvent(Object.assign({}, event, { type: 'inboundTurn', success: false, error: new Error('failed') }));
+        const span = tracer.spans[0];
+        assert(span.options.kind === 1, `inbound turns should be server spans.`);
+        assert(span.status.code === 2, `span status not ERROR.`);
+        assert(span.status.message === 'failed', `error message missing.`);
+    });
+});
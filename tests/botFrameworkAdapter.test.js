@@ -1,7 +1,7 @@
 const assert = require('assert');
 const { TurnContext } = require('botbuilder-core');
 const { ChannelValidation } = require('botframework-connector');
-const { BotFrameworkAdapter } = require('../');
+const { BotFrameworkAdapter, ActivityParseError, AuthenticationError, BotLogicError, InvokeNotHandledError, MemoryTelemetrySink } = require('../');
 const os = require('os');
 
 const reference = {
@@ -23,6 +23,8 @@ class AdapterUnderTest extends BotFrameworkAdapter {
         this.failOperation = false;
         this.expectAuthHeader = '';
         this.newServiceUrl = undefined;
+        this.throttleCount = 0;
+        this.sendCalls = 0;
     }
 
     testAuthenticateRequest(request, authHeader) { return super.authenticateRequest(request, authHeader) }
@@ -47,6 +49,13 @@ class AdapterUnderTest extends BotFrameworkAdapter {
                 sendToConversation: (conversationId, activity) => {
                     assert(conversationId, `sendToConversation() not passed conversationId.`);
                     assert(activity, `sendToConversation() not passed activity.`);
+                    this.sendCalls++;
+                    if (this.throttleCount > 0) {
+                        this.throttleCount--;
+                        const err = new Error(`throttled`);
+                        err.statusCode = 429;
+                        return Promise.reject(err);
+                    }
                     return this.failOperation ? Promise.reject(new Error(`failed`)) : Promise.resolve({ id: '5678' });
                 },
                 updateActivity: (conversationId, activityId, activity) => {
@@ -273,6 +282,101 @@ describe(`BotFrameworkAdapter`, function () {
         });
     });
 
+    it(`should reject with typed errors from processActivity().`, async function () {
+        const logger = { warn: () => {}, error: () => {} };
+        const cases = [
+            { req: new MockRequest('bogus'), type: ActivityParseError, status: 400 },
+            { req: new MockRequest(incomingMessage), type: AuthenticationError, status: 401, failAuth: true },
+            { req: new MockRequest(incomingMessage), type: BotLogicError, status: 500, logic: () => { throw new Error(`secret`); } },
+            { req: new MockRequest(incomingInvoke), type: InvokeNotHandledError, status: 501 }
+        ];
+        for (const c of cases) {
+            const res = new MockResponse();
+            const adapter = new AdapterUnderTest({ logger: logger });
+            adapter.failAuth = !!c.failAuth;
+            try {
+                await adapter.processActivity(c.req, res, c.logic || (() => Promise.resolve()));
+            } catch (err) {
+                assert(err instanceof c.type, `expected ${ c.type.name }, not ${ err.name }.`);
+                assert(err.statusCode === c.status, `invalid statusCode on ${ err.name }.`);
+                assert(res.statusCode === c.status, `invalid status returned for ${ err.name }.`);
+                assert(!res.body || JSON.stringify(res.body).indexOf('secret') < 0, `internal error text returned to caller.`);
+                continue;
+            }
+            assert(false, `should have thrown a ${ c.type.name }.`);
+        }
+    });
+
+    it(`should let onTurnErrorResponse change the response of processActivity().`, async function () {
+        const req = new MockRequest(incomingMessage);
+        const res = new MockResponse();
+        let handled;
+        const adapter = new AdapterUnderTest({
+            logger: { warn: () => {}, error: () => {} },
+            onTurnErrorResponse: (err, request) => {
+                handled = err;
+                assert(request && request.text === 'test', `request not passed to onTurnErrorResponse.`);
+                return { status: 503, body: 'try again', rethrow: false };
+            }
+        });
+        await adapter.processActivity(req, res, (context) => {
+            throw new Error(`bot exception`);
+        });
+        assert(handled instanceof BotLogicError, `onTurnErrorResponse not called.`);
+        assert(handled.innerError.message === 'bot exception', `innerError not set.`);
+        assertResponse(res, 503, true);
+        assert(res.body === 'try again', `invalid body returned.`);
+    });
+
+    it(`should report processActivity() errors to the configured logger.`, async function () {
+        const req = new MockRequest(incomingMessage);
+        const res = new MockResponse();
+        const warnings = [];
+        const adapter = new AdapterUnderTest({ logger: { warn: (msg) => warnings.push(msg), error: () => {} } });
+        adapter.failAuth = true;
+        await adapter.processActivity(req, res, () => Promise.resolve()).catch(() => {});
+        assert(warnings.length === 1, `logger not called.`);
+        assert(warnings[0].indexOf('401') >= 0, `invalid warning logged.`);
+    });
+
+    it(`should emit correlated telemetry for a turn and its outbound sends.`, async function () {
+        const req = new MockRequest(incomingMessage);
+        const res = new MockResponse();
+        const telemetry = new MemoryTelemetrySink();
+        const adapter = new AdapterUnderTest({ telemetry: telemetry });
+        await adapter.processActivity(req, res, (context) => context.sendActivity('reply'));
+        const send = telemetry.events.find(e => e.type === 'outboundSend');
+        const turn = telemetry.events.find(e => e.type === 'inboundTurn');
+        assert(send && send.name === 'replyToActivity' && send.success, `outbound send not tracked.`);
+        assert(send.conversationId === 'convo1' && send.channelId === 'test', `outbound send not addressed.`);
+        assert(turn && turn.success && turn.statusCode === 200, `inbound turn not tracked.`);
+        assert(turn.correlationId && turn.correlationId === send.correlationId, `events not correlated.`);
+        assert(telemetry.events.indexOf(send) < telemetry.events.indexOf(turn), `events out of order.`);
+    });
+
+    it(`should emit telemetry for an auth failure.`, async function () {
+        const req = new MockRequest(incomingMessage);
+        const res = new MockResponse();
+        const telemetry = new MemoryTelemetrySink();
+        const adapter = new AdapterUnderTest({ telemetry: telemetry, logger: { warn: () => {}, error: () => {} } });
+        adapter.failAuth = true;
+        await adapter.processActivity(req, res, () => Promise.resolve()).catch(() => {});
+        const failure = telemetry.events.find(e => e.type === 'authFailure');
+        assert(failure && !failure.success && failure.statusCode === 401, `auth failure not tracked.`);
+        assert(failure.conversationId === 'convo1', `auth failure not addressed.`);
+    });
+
+    it(`should emit telemetry for a failed connector call.`, async function () {
+        const telemetry = new MemoryTelemetrySink();
+        const adapter = new AdapterUnderTest({ telemetry: telemetry });
+        const context = new TurnContext(adapter, incomingMessage);
+        adapter.failOperation = true;
+        await adapter.updateActivity(context, incomingMessage).catch(() => {});
+        const call = telemetry.events[0];
+        assert(call && call.type === 'connectorCall' && call.name === 'updateActivity', `connector call not tracked.`);
+        assert(!call.success && call.error, `failure not reported.`);
+    });
+
     it(`should continueConversation().`, function (done) {
         let called = false;
         const adapter = new AdapterUnderTest();
@@ -420,6 +524,46 @@ describe(`BotFrameworkAdapter`, function () {
         });
     });
 
+    it(`should not retry a throttled sendActivities() by default.`, function (done) {
+        const adapter = new AdapterUnderTest();
+        const context = new TurnContext(adapter, incomingMessage);
+        adapter.throttleCount = 1;
+        const cpy = Object.assign({}, outgoingMessage, { replyToId: undefined });
+        adapter.sendActivities(context, [cpy]).then((responses) => {
+            assert(false, `shouldn't succeed`);
+        }, (err) => {
+            assert(err.statusCode === 429, `unexpected error returned.`);
+            assert(adapter.sendCalls === 1, `sendToConversation() called ${ adapter.sendCalls } times.`);
+            done();
+        });
+    });
+
+    it(`should retry a throttled sendActivities() using the configured retryPolicy.`, function (done) {
+        const adapter = new AdapterUnderTest({ retryPolicy: { maxAttempts: 3, initialDelay: 1 } });
+        const context = new TurnContext(adapter, incomingMessage);
+        adapter.throttleCount = 2;
+        const cpy = Object.assign({}, outgoingMessage, { replyToId: undefined });
+        adapter.sendActivities(context, [cpy]).then((responses) => {
+            assert(responses.length === 1, `invalid number of responses returned.`);
+            assert(responses[0].id === '5678', `invalid response returned.`);
+            assert(adapter.sendCalls === 3, `sendToConversation() called ${ adapter.sendCalls } times.`);
+            done();
+        });
+    });
+
+    it(`should pace sendActivities() using the configured sendQueue.`, function (done) {
+        const start = new Date().getTime();
+        const adapter = new AdapterUnderTest({ sendQueue: { messagesPerSecond: 4 } });
+        const context = new TurnContext(adapter, incomingMessage);
+        adapter.sendActivities(context, [outgoingMessage, outgoingMessage]).then((responses) => {
+            const end = new Date().getTime();
+            assert(responses.length === 2, `invalid number of responses returned.`);
+            assert(responses[1].id === '5678', `invalid response returned.`);
+            assert((end - start) >= 200, `sends weren't paced.`);
+            done();
+        });
+    });
+
     it(`should fail to sendActivities() without a serviceUrl.`, function (done) {
         const adapter = new AdapterUnderTest();
         const context = new TurnContext(adapter, incomingMessage);
@@ -759,4 +903,162 @@ describe(`BotFrameworkAdapter`, function () {
         }
         assert(false, `should have thrown an error message`);
     });
-});
\ No newline at end of file
+});
+describe(`BotFrameworkAdapter trustedServiceUrls`, function () {
+    const { OfflineConnector, UntrustedServiceUrlError } = require('../');
+
+    function createAdapter(trustedServiceUrls, warnings) {
+        const logger = { log: () => {}, info: () => {}, warn: (message) => warnings.push(message), error: () => {} };
+        return new BotFrameworkAdapter({ trustedServiceUrls: trustedServiceUrls, offlineConnector: new OfflineConnector(), logger: logger });
+    }
+
+    it(`should match host patterns.`, function () {
+        const adapter = createAdapter(['*.botframework.com', 'http://localhost:39*', 'https://smba.trafficmanager.net/emea/'], []);
+        assert(adapter.isTrustedServiceUrl('https://smba.botframework.com/amer/'));
+        assert(adapter.isTrustedServiceUrl('https://A.BotFramework.com'));
+        assert(adapter.isTrustedServiceUrl('http://localhost:3978/api'));
+        assert(adapter.isTrustedServiceUrl('https://localhost:3978/api'));
+        assert(adapter.isTrustedServiceUrl('https://smba.trafficmanager.net/amer/'));
+        assert(!adapter.isTrustedServiceUrl('https://A.B.BotFramework.com'), `* matched across dots.`);
+        assert(!adapter.isTrustedServiceUrl('http://smba.botframework.com/amer/'), `http: trusted without an http:// pattern.`);
+        assert(!adapter.isTrustedServiceUrl('http://smba.trafficmanager.net/amer/'), `http: trusted without an http:// pattern.`);
+        assert(!adapter.isTrustedServiceUrl('https://botframework.com'));
+        assert(!adapter.isTrustedServiceUrl('https://botframework.com.evil.org'));
+        assert(!adapter.isTrustedServiceUrl('https://smba.botframework.com@evil.org/'));
+        assert(!adapter.isTrustedServiceUrl('http://localhost:8080'));
+        assert(!adapter.isTrustedServiceUrl('ftp://smba.botframework.com'));
+        assert(!adapter.isTrustedServiceUrl('not a url'));
+        assert(!adapter.isTrustedServiceUrl(undefined));
+        assert(new BotFrameworkAdapter().isTrustedServiceUrl('https://anything.example.org'), `URLs rejected without a list.`);
+    });
+
+    it(`should reject untrusted conversation references before running the bot.`, async function () {
+        const warnings = [];
+        const adapter = createAdapter(['*.botframework.com'], warnings);
+        let called = false;
+        await assert.rejects(
+            () => adapter.continueConversation(Object.assign({}, reference, { serviceUrl: 'https://attacker.example.org' }), async () => { called = true; }),
+            (err) => err instanceof UntrustedServiceUrlError && err.statusCode === 403 && err.serviceUrl === 'https://attacker.example.org'
+        );
+        assert(!called, `bot logic run for an untrusted reference.`);
+        await assert.rejects(() => adapter.createConversation(Object.assign({}, reference, { serviceUrl: 'https://attacker.example.org' })), UntrustedServiceUrlError);
+        assert.equal(adapter.settings.offlineConnector.calls.length, 0);
+        assert.equal(warnings.length, 2);
+        assert(warnings[0].includes('https://attacker.example.org'), warnings[0]);
+    });
+
+    it(`should reject outbound calls to untrusted hosts.`, async function () {
+        const adapter = createAdapter(['example.org'], []);
+        const context = new TurnContext(adapter, incomingMessage);
+        await adapter.sendActivities(context, [outgoingMessage]);
+        await assert.rejects(() => adapter.sendActivities(context, [Object.assign({}, outgoingMessage, { serviceUrl: 'https://attacker.example.com' })]), UntrustedServiceUrlError);
+        await assert.rejects(() => adapter.getConversations('http://169.254.169.254/metadata'), UntrustedServiceUrlError);
+        assert.deepEqual(adapter.settings.offlineConnector.calls.map(c => c.method), ['replyToActivity']);
+    });
+
+    it(`should always trust the configured token service.`, async function () {
+        const adapter = createAdapter(['example.org'], []);
+        const context = new TurnContext(adapter, incomingMessage);
+        await adapter.getUserToken(context, 'connection');
+        await assert.rejects(() => adapter.emulateOAuthCards('https://attacker.example.com', true), UntrustedServiceUrlError);
+    });
+
+    it(`should validate the patterns.`, function () {
+        assert.throws(() => new BotFrameworkAdapter({ trustedServiceUrls: 'example.org' }));
+        assert.throws(() => new BotFrameworkAdapter({ trustedServiceUrls: [''] }));
+    });
+});
+
+describe(`BotFrameworkAdapter member operations`, function () {
+    const { OfflineConnector } = require('../');
+
+    function members(...ids) {
+        return ids.map((id) => ({ id: id, name: `Name of ${ id }` }));
+    }
+
+    it(`should accept a conversation reference instead of a context.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        connector.respondWith('getConversationMembers', members('user1', 'user2'));
+        connector.respondWith('getActivityMembers', members('user1'));
+        assert.deepEqual((await adapter.getConversationMembers(reference)).map(m => m.id), ['user1', 'user2']);
+        assert.deepEqual((await adapter.getActivityMembers(reference)).map(m => m.id), ['user1']);
+        await adapter.deleteConversationMember(reference, 'user2');
+        assert.deepEqual(connector.calls.map(c => [c.method, c.serviceUrl, c.conversationId]), [
+            ['getConversationMembers', reference.serviceUrl, 'convo1'],
+            ['getActivityMembers', reference.serviceUrl, 'convo1'],
+            ['deleteConversationMember', reference.serviceUrl, 'convo1']
+        ]);
+        assert.equal(connector.calls[1].activityId, '1234');
+        await assert.rejects(() => adapter.getConversationMembers({ conversation: { id: 'convo1' } }), /getConversationMembers\(\): missing serviceUrl/);
+        await assert.rejects(() => adapter.getActivityMembers(Object.assign({}, reference, { activityId: undefined })), /missing both activityId/);
+    });
+
+    it(`should list members one page at a time.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        connector.respondWith('getConversationPagedMembers', { members: members('user1', 'user2'), continuationToken: 'page2' });
+        const context = new TurnContext(adapter, incomingMessage);
+        const page = await adapter.getConversationPagedMembers(context, 2);
+        assert.deepEqual(page.members.map(m => m.id), ['user1', 'user2']);
+        assert.equal(page.continuationToken, 'page2');
+        await adapter.getConversationPagedMembers(reference, undefined, 'page2');
+        assert.deepEqual(connector.callsTo('getConversationPagedMembers').map(c => c.args[1]), [{ pageSize: 2 }, { continuationToken: 'page2' }]);
+    });
+
+    it(`should retry a throttled member deletion.`, async function () {
+        const connector = new OfflineConnector().throttle('deleteConversationMember');
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector, retryPolicy: { initialDelay: 1, jitter: 0 } });
+        await adapter.deleteConversationMember(reference, 'user1');
+        assert.equal(connector.callsTo('deleteConversationMember').length, 2, `deletion not retried.`);
+    });
+
+    it(`should delete several members and report the failures.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector, memberConcurrency: 2 });
+        let running = 0;
+        let maxRunning = 0;
+        const slowDelete = (call) => {
+            maxRunning = Math.max(maxRunning, ++running);
+            return new Promise((resolve) => setTimeout(resolve, 5)).then(() => {
+                running--;
+                if (call.args[1] === 'user2') { throw new Error('member not found'); }
+            });
+        };
+        for (let i = 0; i < 4; i++) { connector.respondWith('deleteConversationMember', slowDelete); }
+        const result = await adapter.deleteConversationMembers(reference, ['user1', 'user2', 'user3', 'user4']);
+        assert.equal(result.count, 3);
+        assert.deepEqual(result.failures.map(f => [f.memberId, f.error.message]), [['user2', 'member not found']]);
+        assert.equal(maxRunning, 2, `memberConcurrency not respected.`);
+        assert.equal(connector.callsTo('deleteConversationMember').length, 4);
+    });
+
+    it(`should resolve member ids across pages.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        connector.respondWith('getConversationPagedMembers', { members: members('user1', 'user2'), continuationToken: 'page2' });
+        connector.respondWith('getConversationPagedMembers', { members: members('user3', 'user4'), continuationToken: 'page3' });
+        const result = await adapter.resolveConversationMembers(reference, ['user3', 'user5', 'user1']);
+        assert.deepEqual(result.members, members('user3', 'user1'));
+        assert.deepEqual(result.failures.map(f => f.memberId), ['user5']);
+        assert.equal(connector.callsTo('getConversationPagedMembers').length, 3);
+
+        connector.reset();
+        connector.respondWith('getConversationPagedMembers', { members: members('user1'), continuationToken: 'page2' });
+        const found = await adapter.resolveConversationMembers(reference, ['user1']);
+        assert.deepEqual(found.members.map(m => m.id), ['user1']);
+        assert.equal(connector.callsTo('getConversationPagedMembers').length, 1, `paging continued after every member was found.`);
+    });
+
+    it(`should report the members left when listing fails.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        connector.respondWith('getConversationPagedMembers', { members: members('user1'), continuationToken: 'page2' });
+        connector.failWith('getConversationPagedMembers', 500);
+        const result = await adapter.resolveConversationMembers(reference, ['user1', 'user2']);
+        assert.deepEqual(result.members.map(m => m.id), ['user1']);
+        assert.equal(result.failures.length, 1);
+        assert.equal(result.failures[0].memberId, 'user2');
+        assert.equal(result.failures[0].error.statusCode, 500);
+    });
+});
@@ -0,0 +1,114 @@
+const assert = require('assert');
+const http = require('http');
+const { BotFrameworkAdapter, createBotServer } = require('../');
+
+class AdapterUnderTest extends BotFrameworkAdapter {
+    authenticateRequest(request, authHeader) { return Promise.resolve() }
+}
+
+const activity = {
+    type: 'message',
+    text: 'test',
+    channelId: 'test',
+    serviceUrl: 'https://example.org/channel',
+    from: { id: 'user' },
+    recipient: { id: 'bot' },
+    conversation: { id: 'convo1' }
+};
+
+function request(server, method, path, body) {
+    return new Promise((resolve, reject) => {
+        const data = typeof body === 'string' ? body : JSON.stringify(body);
+        const req = http.request({
+            host: '127.0.0.1',
+            port: server.port,
+            method: method,
+            path: path,
+            headers: body !== undefined ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(data) } : {}
+        }, (res) => {
+            let text = '';
+            res.on('data', (chunk) => text += chunk);
+            res.on('end', () => resolve({ status: res.statusCode, body: text }));
+        });
+        req.on('error', reject);
+        if (body !== undefined) { req.write(data); }
+        req.end();
+    });
+}
+
+describe(`BotServer`, function () {
+    this.timeout(5000);
+
+    let server;
+    afterEach(function () {
+        return server ? server.close() : undefined;
+    });
+
+    it(`should route activities to processActivity().`, async function () {
+        let called = false;
+        server = createBotServer(new AdapterUnderTest(), (context) => {
+            assert(context.activity.text === 'test', `invalid activity passed.`);
+            called = true;
+            return Promise.resolve();
+        }, { port: 0 });
+        await server.listen();
+        const res = await request(server, 'POST', '/api/messages', activity);
+        assert(res.status === 200, `invalid status returned: ${ res.status }`);
+        assert(called, `bot logic not called.`);
+    });
+
+    it(`should return an invokeResponse body.`, async function () {
+        server = createBotServer(new AdapterUnderTest(), (context) => {
+            return context.sendActivity({ type: 'invokeResponse', value: { status: 200, body: { foo: 'bar' } } });
+        }, { port: 0 });
+        await server.listen();
+        const res = await request(server, 'POST', '/api/messages', Object.assign({}, activity, { type: 'invoke' }));
+        assert(res.status === 200, `invalid status returned: ${ res.status }`);
+        assert(JSON.parse(res.body).foo === 'bar', `invalid body returned.`);
+    });
+
+    it(`should answer the health check.`, async function () {
+        server = createBotServer(new AdapterUnderTest(), () => Promise.resolve(), { port: 0 });
+        await server.listen();
+        const res = await request(server, 'GET', '/health');
+        assert(res.status === 200, `invalid status returned: ${ res.status }`);
+    });
+
+    it(`should return 404 for unknown routes and 405 for unsupported methods.`, async function () {
+        server = createBotServer(new AdapterUnderTest(), () => Promise.resolve(), { port: 0 });
+        await server.listen();
+        assert((await request(server, 'GET', '/foo')).status === 404, `unknown route not rejected.`);
+        assert((await request(server, 'GET', '/api/messages')).status === 405, `GET not rejected.`);
+    });
+
+    it(`should reject invalid JSON.`, async function () {
+        server = createBotServer(new AdapterUnderTest(), () => Promise.resolve(), { port: 0 });
+        await server.listen();
+        const res = await request(server, 'POST', '/api/messages', '{ bogus');
+        assert(res.status === 400, `invalid status returned: ${ res.status }`);
+    });
+
+    it(`should reject bodies larger than maxBodySize.`, async function () {
+        server = createBotServer(new AdapterUnderTest(), () => Promise.resolve(), { port: 0, maxBodySize: 64 });
+        await server.listen();
+        const res = await request(server, 'POST', '/api/messages', Object.assign({}, activity, { text: 'x'.repeat(100) }));
+        assert(res.status === 413, `invalid status returned: ${ res.status }`);
+    });
+
+    it(`should wait for in-flight turns when closed.`, async function () {
+        let completed = false;
+        server = createBotServer(new AdapterUnderTest(), () => {
+            return new Promise(resolve => setTimeout(() => {
+                completed = true;
+                resolve();
+            }, 200));
+        }, { port: 0 });
+        await server.listen();
+        const pending = request(server, 'POST', '/api/messages', activity);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await server.close();
+        assert(completed, `server closed before turn completed.`);
+        assert((await pending).status === 200, `in-flight turn not answered.`);
+        server = undefined;
+    });
+});
@@ -0,0 +1,243 @@
+const assert = require('assert');
+const http = require('http');
+const path = require('path');
+const zlib = require('zlib');
+const { RestError, WebResource } = require('ms-rest-js');
+const { BotFrameworkAdapter, ConnectorClientPool } = require('../');
+
+function createCredentials(appId, getToken) {
+    return { appId: appId, tokenCacheKey: `${ appId }-cache`, getToken: getToken || (() => Promise.resolve('token')) };
+}
+
+function createToken(expiration) {
+    const encode = (o) => Buffer.from(JSON.stringify(o)).toString('base64').replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+    return `${ encode({ alg: 'none' }) }.${ encode({ exp: Math.floor(expiration / 1000) }) }.signature`;
+}
+
+function readStream(stream) {
+    return new Promise((resolve, reject) => {
+        const chunks = [];
+        stream.on('data', (chunk) => chunks.push(chunk));
+        stream.on('error', reject);
+        stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    });
+}
+
+describe(`ConnectorClientPool`, function () {
+    this.timeout(5000);
+
+    it(`should reuse clients per kind, service URL and app id.`, function () {
+        const pool = new ConnectorClientPool();
+        const credentials = createCredentials('app1');
+        const create = () => ({});
+        const client = pool.getClient('connector', 'https://example.org/a', credentials, create);
+        assert.strictEqual(pool.getClient('connector', 'https://example.org/a', credentials, create), client);
+        assert.notStrictEqual(pool.getClient('token', 'https://example.org/a', credentials, create), client);
+        assert.notStrictEqual(pool.getClient('connector', 'https://example.org/b', credentials, create), client);
+        assert.notStrictEqual(pool.getClient('connector', 'https://example.org/a', createCredentials('app2'), create), client);
+        assert.deepEqual(pool.getStats(), { size: 4, maxClients: 100, hits: 1, misses: 4, evictions: 0, tokenRefreshes: 0, tokenRefreshFailures: 0 });
+        pool.clear();
+    });
+
+    it(`should drop the least recently used client once full.`, function () {
+        const pool = new ConnectorClientPool({ maxClients: 2 });
+        const credentials = createCredentials('app1');
+        const a = pool.getClient('connector', 'https://example.org/a', credentials, () => ({}));
+        pool.getClient('connector', 'https://example.org/b', credentials, () => ({}));
+        pool.getClient('connector', 'https://example.org/a', credentials, () => ({}));
+        pool.getClient('connector', 'https://example.org/c', credentials, () => ({}));
+        assert.strictEqual(pool.getClient('connector', 'https://example.org/a', credentials, () => ({})), a);
+        const stats = pool.getStats();
+        assert.equal(stats.size, 2);
+        assert.equal(stats.evictions, 1);
+        pool.getClient('connector', 'https://example.org/b', credentials, () => ({}));
+        assert.equal(pool.getStats().misses, 4, `evicted client not recreated.`);
+        pool.clear();
+        assert.equal(pool.getStats().size, 0);
+    });
+
+    it(`should validate its settings.`, function () {
+        assert.throws(() => new ConnectorClientPool({ maxClients: 0 }));
+        assert.throws(() => new ConnectorClientPool({ tokenRefreshMargin: -1 }), /tokenRefreshMargin must be a non-negative number/);
+        assert.throws(() => new ConnectorClientPool({ maxSockets: 0 }), /maxSockets must be at least 1/);
+        new ConnectorClientPool({ tokenRefreshMargin: 0, maxSockets: 1 }).clear();
+    });
+
+    it(`should prefetch tokens and refresh them before the credentials stop using them.`, async function () {
+        const calls = [];
+        const credentials = createCredentials('prefetch', (forceRefresh) => {
+            calls.push(forceRefresh);
+            // The credentials stop using a token 5 minutes before it expires.
+            return Promise.resolve(createToken(Date.now() + 4 * 60 * 1000));
+        });
+        const pool = new ConnectorClientPool({ prefetchToken: true });
+        try {
+            pool.getClient('connector', 'https://example.org/a', credentials, () => ({}));
+            pool.getClient('connector', 'https://example.org/b', credentials, () => ({}));
+            await new Promise(resolve => setTimeout(resolve, 1200));
+            assert.deepEqual(calls, [false, true]);
+            assert.equal(pool.getStats().tokenRefreshes, 2);
+        } finally {
+            pool.clear();
+        }
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        assert.equal(calls.length, 2, `token refreshed after clear().`);
+    });
+
+    it(`should report failed token refreshes.`, async function () {
+        const warnings = [];
+        const logger = { log: () => {}, info: () => {}, warn: (message) => warnings.push(message), error: () => {} };
+        const pool = new ConnectorClientPool({ logger: logger });
+        pool.prefetchToken(createCredentials('failing', () => Promise.reject(new Error('token service down'))));
+        pool.prefetchToken(createCredentials(''));
+        await new Promise(resolve => setTimeout(resolve, 10));
+        pool.clear();
+        assert.equal(pool.getStats().tokenRefreshFailures, 1);
+        assert.equal(pool.getStats().tokenRefreshes, 0, `credentials without an app id prefetched.`);
+        assert(warnings[0].includes(`'failing'`), warnings[0]);
+    });
+});
+
+describe(`ConnectorClientPool HTTP client`, function () {
+    this.timeout(5000);
+
+    let server;
+    let serviceUrl;
+    let pool;
+    let httpClient;
+
+    before(function (done) {
+        server = http.createServer((req, res) => {
+            if (req.url === '/gzip') {
+                res.writeHead(200, { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip' });
+                res.end(zlib.gzipSync(JSON.stringify({ id: 'compressed' })));
+            } else if (req.url === '/slow') {
+                setTimeout(() => res.end('late'), 1000);
+            } else {
+                res.writeHead(200, { 'Content-Type': 'text/plain' });
+                res.end(`${ req.method } ${ req.url }`);
+            }
+        });
+        server.listen(0, '127.0.0.1', () => {
+            serviceUrl = `http://127.0.0.1:${ server.address().port }`;
+            pool = new ConnectorClientPool();
+            httpClient = pool.getClient('http', serviceUrl, createCredentials('app1'), (client) => client);
+            done();
+        });
+    });
+
+    after(function (done) {
+        pool.clear();
+        server.close(() => done());
+    });
+
+    it(`should decompress responses.`, async function () {
+        const response = await httpClient.sendRequest(new WebResource(`${ serviceUrl }/gzip`, 'GET'));
+        assert.equal(response.bodyAsText, '{"id":"compressed"}');
+        assert.equal(response.headers.get('content-encoding'), undefined);
+
+        const streamed = await httpClient.sendRequest(new WebResource(`${ serviceUrl }/gzip`, 'GET', undefined, undefined, undefined, true));
+        assert.equal(await readStream(streamed.readableStreamBody), '{"id":"compressed"}');
+    });
+
+    it(`should stream response bodies when asked to.`, async function () {
+        const response = await httpClient.sendRequest(new WebResource(`${ serviceUrl }/stream`, 'GET', undefined, undefined, undefined, true));
+        assert.equal(response.bodyAsText, undefined);
+        assert.equal(await readStream(response.readableStreamBody), 'GET /stream');
+    });
+
+    it(`should time out slow requests.`, async function () {
+        const request = new WebResource(`${ serviceUrl }/slow`, 'GET');
+        request.timeout = 100;
+        await assert.rejects(() => httpClient.sendRequest(request), (err) => err instanceof RestError && /timed out/.test(err.message));
+    });
+
+    it(`should abort requests.`, async function () {
+        const controller = new AbortController();
+        const request = new WebResource(`${ serviceUrl }/slow`, 'GET', undefined, undefined, undefined, false, false, controller.signal);
+        setTimeout(() => controller.abort(), 50);
+        await assert.rejects(() => httpClient.sendRequest(request), (err) => err.code === RestError.REQUEST_ABORTED_ERROR);
+        await assert.rejects(() => httpClient.sendRequest(request), (err) => err.code === RestError.REQUEST_ABORTED_ERROR);
+    });
+
+    it(`should leave requests through a proxy to the default client.`, async function () {
+        const previous = process.env.HTTP_PROXY;
+        process.env.HTTP_PROXY = serviceUrl;
+        try {
+            const response = await httpClient.sendRequest(new WebResource('http://bots.example.org/proxied', 'GET'));
+            assert.equal(response.bodyAsText, 'GET http://bots.example.org/proxied');
+        } finally {
+            if (previous === undefined) { delete process.env.HTTP_PROXY; } else { process.env.HTTP_PROXY = previous; }
+        }
+    });
+});
+
+describe(`ms-rest-js dependency`, function () {
+    it(`should be the copy used by botframework-connector.`, function () {
+        assert.equal(require('ms-rest-js/package.json').version.split('.')[0], '1');
+        const connectorPath = path.dirname(require.resolve('botframework-connector/package.json'));
+        assert.equal(require.resolve('ms-rest-js'), require.resolve('ms-rest-js', { paths: [connectorPath] }), `botbuilder and botframework-connector load different copies of ms-rest-js.`);
+    });
+});
+
+describe(`BotFrameworkAdapter with a clientPool`, function () {
+    this.timeout(5000);
+
+    let server;
+    let serviceUrl;
+    let connections = 0;
+
+    before(function (done) {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => body += chunk);
+            req.on('end', () => {
+                if (req.url.includes('missing')) {
+                    res.writeHead(404, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({ error: { code: 'NotFound', message: 'conversation not found' } }));
+                    return;
+                }
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ id: JSON.parse(body).text }));
+            });
+        });
+        server.on('connection', () => connections++);
+        server.listen(0, '127.0.0.1', () => {
+            serviceUrl = `http://127.0.0.1:${ server.address().port }`;
+            done();
+        });
+    });
+
+    after(function (done) {
+        server.close(() => done());
+    });
+
+    it(`should share clients and connections between calls.`, async function () {
+        const adapter = new BotFrameworkAdapter({ clientPool: {} });
+        try {
+            const client = adapter.createConnectorClient(serviceUrl);
+            assert.strictEqual(adapter.createConnectorClient(serviceUrl), client);
+            assert.notStrictEqual(adapter.createTokenApiClient(serviceUrl), client);
+
+            const first = await client.conversations.sendToConversation('convo1', { type: 'message', text: 'one' });
+            const second = await adapter.createConnectorClient(serviceUrl).conversations.sendToConversation('convo1', { type: 'message', text: 'two' });
+            assert.equal(first.id, 'one');
+            assert.equal(second.id, 'two');
+            assert.equal(connections, 1, `connection not reused.`);
+            assert.equal(adapter.clientPool.getStats().hits, 2);
+
+            await assert.rejects(
+                () => client.conversations.sendToConversation('missing', { type: 'message', text: 'three' }),
+                (err) => err.statusCode === 404
+            );
+        } finally {
+            adapter.clientPool.clear();
+        }
+    });
+
+    it(`should create a client per call without a clientPool.`, function () {
+        const adapter = new BotFrameworkAdapter();
+        assert.equal(adapter.clientPool, undefined);
+        assert.notStrictEqual(adapter.createConnectorClient(serviceUrl), adapter.createConnectorClient(serviceUrl));
+    });
+});
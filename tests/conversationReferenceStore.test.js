@@ -0,0 +1,141 @@
+const assert = require('assert');
+const path = require('path');
+const os = require('os');
+const rimraf = require('rimraf');
+const { BotFrameworkAdapter, ConversationReferenceMiddleware, FileConversationReferenceStore, MemoryConversationReferenceStore, OfflineConnector, TestAdapter } = require('../');
+
+const workingFolder = path.join(os.tmpdir(), 'botbuilder-reference-tests');
+
+function reference(channelId, conversationId) {
+    return {
+        channelId: channelId,
+        serviceUrl: 'https://example.org/channel',
+        user: { id: 'user', name: 'User Name' },
+        bot: { id: 'bot', name: 'Bot Name' },
+        conversation: { id: conversationId }
+    };
+}
+
+function testStore(createStore) {
+    it(`should save and get a reference.`, async function () {
+        const store = createStore();
+        await store.saveReference(reference('test', 'convo1'));
+        const saved = await store.getReference('test', 'convo1');
+        assert(saved && saved.conversation.id === 'convo1', `reference not returned.`);
+        assert(await store.getReference('test', 'convo2') === undefined, `missing reference returned.`);
+    });
+
+    it(`should replace the reference of a conversation.`, async function () {
+        const store = createStore();
+        await store.saveReference(reference('test', 'convo1'));
+        await store.saveReference(Object.assign(reference('test', 'convo1'), { serviceUrl: 'https://example.org/new' }));
+        const all = await store.findReferences();
+        assert(all.length === 1, `invalid number of references: ${ all.length }`);
+        assert(all[0].serviceUrl === 'https://example.org/new', `reference not replaced.`);
+    });
+
+    it(`should find references matching a filter.`, async function () {
+        const store = createStore();
+        await store.saveReference(reference('test', 'convo1'));
+        await store.saveReference(reference('test', 'convo2'));
+        await store.saveReference(reference('other', 'convo3'));
+        const found = await store.findReferences(r => r.channelId === 'test');
+        assert(found.length === 2, `invalid number of references: ${ found.length }`);
+    });
+
+    it(`should delete a reference.`, async function () {
+        const store = createStore();
+        await store.saveReference(reference('test', 'convo1'));
+        await store.deleteReference('test', 'convo1');
+        await store.deleteReference('test', 'convo2');
+        assert((await store.findReferences()).length === 0, `reference not deleted.`);
+    });
+
+    it(`should reject invalid references.`, async function () {
+        const store = createStore();
+        assert.throws(() => store.saveReference({ channelId: 'test' }));
+    });
+}
+
+describe(`MemoryConversationReferenceStore`, function () {
+    testStore(() => new MemoryConversationReferenceStore());
+});
+
+describe(`FileConversationReferenceStore`, function () {
+    beforeEach(function (done) {
+        rimraf(workingFolder, () => done());
+    });
+
+    after(function (done) {
+        rimraf(workingFolder, () => done());
+    });
+
+    testStore(() => new FileConversationReferenceStore(workingFolder));
+
+    it(`should fail to create a store without a folder.`, function () {
+        assert.throws(() => new FileConversationReferenceStore());
+    });
+});
+
+describe(`ConversationReferenceMiddleware`, function () {
+    it(`should save the reference of incoming activities.`, async function () {
+        const store = new MemoryConversationReferenceStore();
+        const adapter = new TestAdapter(() => Promise.resolve()).use(new ConversationReferenceMiddleware(store));
+        await adapter.send('hi').startTest();
+        const all = await store.findReferences();
+        assert(all.length === 1 && all[0].conversation.id === 'Convo1', `reference not saved.`);
+    });
+
+    it(`should delete the reference when the bot is removed.`, async function () {
+        const store = new MemoryConversationReferenceStore();
+        const adapter = new TestAdapter(() => Promise.resolve()).use(new ConversationReferenceMiddleware(store));
+        await adapter.send('hi').startTest();
+        await adapter.send({ type: 'conversationUpdate', membersRemoved: [{ id: 'bot' }] }).startTest();
+        assert((await store.findReferences()).length === 0, `reference not deleted.`);
+    });
+});
+
+describe(`BotFrameworkAdapter.broadcast()`, function () {
+    it(`should fail without a conversationReferenceStore.`, async function () {
+        const adapter = new BotFrameworkAdapter();
+        try {
+            await adapter.broadcast(undefined, () => Promise.resolve());
+            assert(false, `error not thrown.`);
+        } catch (err) {
+            assert(err.message.indexOf('missing conversationReferenceStore') >= 0, `invalid error: ${ err.message }`);
+        }
+    });
+
+    it(`should continue every matching conversation with bounded concurrency.`, async function () {
+        const store = new MemoryConversationReferenceStore();
+        for (let i = 0; i < 10; i++) {
+            await store.saveReference(reference(i % 2 ? 'odd' : 'even', `convo${ i }`));
+        }
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector, conversationReferenceStore: store, broadcastConcurrency: 2 });
+        let active = 0;
+        let maxActive = 0;
+        const result = await adapter.broadcast(r => r.channelId === 'even', async (context) => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise(resolve => setTimeout(resolve, 10));
+            await context.sendActivity('notice');
+            active--;
+        });
+        assert(result.count === 5 && result.failures.length === 0, `invalid result: ${ JSON.stringify(result) }`);
+        assert(maxActive === 2, `concurrency not bounded: ${ maxActive }`);
+        assert(connector.callsTo('sendToConversation').length === 5, `messages not sent.`);
+    });
+
+    it(`should report failures without stopping the broadcast.`, async function () {
+        const store = new MemoryConversationReferenceStore();
+        await store.saveReference(reference('test', 'convo1'));
+        await store.saveReference(reference('test', 'convo2'));
+        const connector = new OfflineConnector().failWith('sendToConversation', 403);
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector, conversationReferenceStore: store, broadcastConcurrency: 1 });
+        const result = await adapter.broadcast(undefined, context => context.sendActivity('notice'));
+        assert(result.count === 2, `invalid count.`);
+        assert(result.failures.length === 1 && result.failures[0].reference.conversation.id === 'convo1', `failure not reported.`);
+        assert(result.failures[0].error.statusCode === 403, `invalid error.`);
+    });
+});
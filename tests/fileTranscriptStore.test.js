@@ -1,4 +1,4 @@
-const { FileTranscriptStore } = require('../');
+const { FileTranscriptStore, MemoryTranscriptKeyProvider } = require('../');
 
 const assert = require('assert');
 const base = require('./transcriptStoreBaseTest');
@@ -85,3 +85,630 @@ describe('FileTranscriptStore', function () {
     after('cleanup', reset);
 });
 
+
+describe('FileTranscriptStore index', function () {
+    this.timeout(10000);
+    beforeEach('cleanup', reset);
+    after('cleanup', reset);
+
+    const fs = require('fs');
+    const conversationFolder = path.join(workingFolder, 'test', 'indexed');
+
+    const logActivities = (storage, count) => {
+        const start = new Date(Date.UTC(2018, 0, 1));
+        const activities = [];
+        for (let i = 0; i < count; i++) {
+            activities.push({
+                type: 'message',
+                timestamp: new Date(start.getTime() + i * 1000),
+                id: `a${ i }`,
+                text: `${ i }`,
+                channelId: 'test',
+                conversation: { id: 'indexed' }
+            });
+        }
+        return Promise.all(activities.map(a => storage.logActivity(a))).then(() => activities);
+    };
+
+    it('maintains an index of logged activities', function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        return logActivities(storage, 5).then(() => {
+            const lines = fs.readFileSync(path.join(conversationFolder, '.index'), 'utf8').split('\n').filter(l => l);
+            assert.equal(lines.length, 5);
+            assert(lines.every(l => l.endsWith('.json')));
+        });
+    })
+
+    it('pages through activities using the index', function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        return logActivities(storage, 45)
+            .then(() => storage.getTranscriptActivities('test', 'indexed'))
+            .then(page1 => {
+                assert.equal(page1.items.length, 20);
+                assert.equal(page1.items[19].id, 'a19');
+                assert(page1.continuationToken);
+                return storage.getTranscriptActivities('test', 'indexed', page1.continuationToken);
+            })
+            .then(page2 => {
+                assert.equal(page2.items[0].id, 'a20');
+                return storage.getTranscriptActivities('test', 'indexed', page2.continuationToken);
+            })
+            .then(page3 => {
+                assert.equal(page3.items.length, 5);
+                assert.equal(page3.continuationToken, undefined);
+            });
+    })
+
+    it('sees activities logged by another store instance', function () {
+        let reader = new FileTranscriptStore(workingFolder);
+        let writer = new FileTranscriptStore(workingFolder);
+        return logActivities(writer, 2)
+            .then(() => reader.getTranscriptActivities('test', 'indexed'))
+            .then(() => writer.logActivity({ type: 'message', timestamp: new Date(Date.UTC(2018, 1, 1)), id: 'late', channelId: 'test', conversation: { id: 'indexed' } }))
+            .then(() => reader.getTranscriptActivities('test', 'indexed'))
+            .then(result => assert.equal(result.items.map(a => a.id).join(','), 'a0,a1,late'));
+    })
+
+    it('rebuilds a missing index', function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        return logActivities(storage, 3)
+            .then(() => fs.unlinkSync(path.join(conversationFolder, '.index')))
+            .then(() => new FileTranscriptStore(workingFolder).getTranscriptActivities('test', 'indexed', undefined, new Date(Date.UTC(2018, 0, 1, 0, 0, 1))))
+            .then(result => {
+                assert.equal(result.items.map(a => a.id).join(','), 'a1,a2');
+                assert(fs.existsSync(path.join(conversationFolder, '.index')), 'index not rebuilt');
+            });
+    })
+
+    it('streams every activity of a transcript', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        await logActivities(storage, 45);
+        const ids = [];
+        for await (const activity of storage.streamTranscriptActivities('test', 'indexed')) {
+            ids.push(activity.id);
+        }
+        assert.equal(ids.length, 45);
+        assert.equal(ids[0], 'a0');
+        assert.equal(ids[44], 'a44');
+
+        const later = [];
+        for await (const activity of storage.streamTranscriptActivities('test', 'indexed', new Date(Date.UTC(2018, 0, 1, 0, 0, 40)))) {
+            later.push(activity.id);
+        }
+        assert.equal(later.join(','), 'a40,a41,a42,a43,a44');
+    })
+});
+
+describe('FileTranscriptStore prune', function () {
+    this.timeout(10000);
+    beforeEach('cleanup', reset);
+    after('cleanup', reset);
+
+    const fs = require('fs');
+    const day = 24 * 60 * 60 * 1000;
+    const now = new Date(Date.UTC(2018, 6, 1));
+
+    const logConversation = (storage, channelId, conversationId, ages) => Promise.all(ages.map((age, i) => storage.logActivity({
+        type: 'message',
+        timestamp: new Date(now.getTime() - age * day),
+        id: `${ conversationId }-${ i }`,
+        text: 'hello',
+        channelId: channelId,
+        conversation: { id: conversationId }
+    })));
+
+    const exists = (...parts) => fs.existsSync(path.join(workingFolder, ...parts));
+
+    it('deletes activities older than maxAge', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { retention: { maxAge: 30 * day } });
+        await logConversation(storage, 'test', 'old', [60, 45]);
+        await logConversation(storage, 'test', 'mixed', [60, 10]);
+        const result = await storage.prune({ now: now });
+        assert.equal(result.deletedActivities, 3);
+        assert.deepEqual(result.deletedConversations, [{ channelId: 'test', conversationId: 'old', reason: 'maxAge' }]);
+        assert(result.freedBytes > 0);
+        assert(!exists('test', 'old'));
+        const remaining = await storage.getTranscriptActivities('test', 'mixed');
+        assert.equal(remaining.items.map(a => a.id).join(','), 'mixed-1');
+    })
+
+    it('removes the search postings of what it deletes', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { search: true, retention: { maxAge: 30 * day } });
+        await logConversation(storage, 'test', 'old', [60, 45]);
+        await logConversation(storage, 'test', 'mixed', [60, 10]);
+        await storage.prune({ now: now });
+        const searchFolder = path.join(workingFolder, '.search', 'test');
+        const postings = fs.readdirSync(searchFolder).map(f => fs.readFileSync(path.join(searchFolder, f), 'utf8')).join('');
+        assert(!postings.includes('\told\t'), `postings of pruned conversation kept.`);
+        assert(!postings.includes('-mixed-0.json'), `postings of pruned activity kept.`);
+        assert(postings.includes('-mixed-1.json'));
+        const found = await storage.searchTranscripts('test', { text: 'hello' });
+        assert.deepEqual(found.items.map(i => i.activityId), ['mixed-1']);
+    })
+
+    it('applies per-channel limits', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { retention: { maxAge: 100 * day, channels: { sms: { maxAge: 7 * day } } } });
+        await logConversation(storage, 'sms', 'a', [10]);
+        await logConversation(storage, 'test', 'b', [10]);
+        const result = await storage.prune({ now: now });
+        assert.deepEqual(result.deletedConversations.map(c => c.channelId), ['sms']);
+        assert(exists('test', 'b'));
+    })
+
+    it('keeps the most recent conversations per channel', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { retention: { maxConversationsPerChannel: 2 } });
+        await logConversation(storage, 'test', 'a', [3]);
+        await logConversation(storage, 'test', 'b', [1]);
+        await logConversation(storage, 'test', 'c', [2]);
+        const result = await storage.prune({ now: now });
+        assert.deepEqual(result.deletedConversations, [{ channelId: 'test', conversationId: 'a', reason: 'maxConversationsPerChannel' }]);
+        assert(exists('test', 'b') && exists('test', 'c'));
+    })
+
+    it('deletes the least recently active conversations over maxTotalBytes', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        await logConversation(storage, 'test', 'a', [3]);
+        await logConversation(storage, 'other', 'b', [1]);
+        const size = fs.statSync(path.join(workingFolder, 'test', 'a', fs.readdirSync(path.join(workingFolder, 'test', 'a')).find(f => f.endsWith('.json')))).size;
+        storage = new FileTranscriptStore(workingFolder, { retention: { maxTotalBytes: size + 10 } });
+        const result = await storage.prune({ now: now });
+        assert.deepEqual(result.deletedConversations, [{ channelId: 'test', conversationId: 'a', reason: 'maxTotalBytes' }]);
+        assert(exists('other', 'b'));
+    })
+
+    it('only reports what would be deleted in dry-run mode', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { retention: { maxAge: day } });
+        await logConversation(storage, 'test', 'old', [60, 10]);
+        const result = await storage.prune({ dryRun: true, now: now });
+        assert(result.dryRun);
+        assert.equal(result.deletedActivities, 2);
+        assert.equal((await storage.getTranscriptActivities('test', 'old')).items.length, 2);
+    })
+
+    it('skips hidden folders', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { retention: { maxConversationsPerChannel: 0 } });
+        fs.mkdirSync(path.join(workingFolder, '.hidden', 'x'), { recursive: true });
+        await logConversation(storage, 'test', 'a', [1]);
+        const result = await storage.prune({ now: now });
+        assert.equal(result.deletedConversations.length, 1);
+        assert(exists('.hidden', 'x'));
+    })
+});
+
+describe('FileTranscriptStore encryption', function () {
+    this.timeout(10000);
+    beforeEach('cleanup', reset);
+    after('cleanup', reset);
+
+    const crypto = require('crypto');
+    const fs = require('fs');
+    const conversationFolder = path.join(workingFolder, 'test', 'secret');
+
+    const createActivity = (id, seconds) => ({
+        type: 'message',
+        timestamp: new Date(Date.UTC(2018, 0, 1) + seconds * 1000),
+        id: id,
+        text: `text of ${ id }`,
+        channelId: 'test',
+        conversation: { id: 'secret' }
+    });
+    const activityFiles = () => fs.readdirSync(conversationFolder).filter(f => f.endsWith('.json')).sort();
+
+    it('encrypts activity files and reads them back', async function () {
+        const keys = new MemoryTranscriptKeyProvider([{ id: 'k1', key: crypto.randomBytes(32) }]);
+        let storage = new FileTranscriptStore(workingFolder, { keyProvider: keys });
+        for (let i = 0; i < 25; i++) {
+            await storage.logActivity(createActivity(`a${ i }`, i));
+        }
+        const content = fs.readFileSync(path.join(conversationFolder, activityFiles()[0]), 'utf8');
+        assert(!content.includes('text of'), `activity not encrypted.`);
+        assert.equal(JSON.parse(content).kid, 'k1');
+
+        const page1 = await storage.getTranscriptActivities('test', 'secret');
+        const page2 = await storage.getTranscriptActivities('test', 'secret', page1.continuationToken);
+        assert.equal(page1.items[0].text, 'text of a0');
+        assert(page1.items[0].timestamp instanceof Date);
+        assert.equal(page2.items.map(a => a.id).join(','), 'a20,a21,a22,a23,a24');
+        assert.equal((await storage.listTranscripts('test')).items[0].id, 'secret');
+    })
+
+    it('reads files encrypted with previous keys and unencrypted files', async function () {
+        await new FileTranscriptStore(workingFolder).logActivity(createActivity('plain', 0));
+        const keys = new MemoryTranscriptKeyProvider([{ id: 'k1', key: crypto.randomBytes(32) }]);
+        let storage = new FileTranscriptStore(workingFolder, { keyProvider: keys, allowPlaintext: true });
+        await storage.logActivity(createActivity('old', 1));
+        keys.addKey({ id: 'k2', key: crypto.randomBytes(32) });
+        await storage.logActivity(createActivity('new', 2));
+
+        assert.equal(JSON.parse(fs.readFileSync(path.join(conversationFolder, activityFiles()[2]), 'utf8')).kid, 'k2');
+        const result = await storage.getTranscriptActivities('test', 'secret');
+        assert.equal(result.items.map(a => a.text).join(','), 'text of plain,text of old,text of new');
+    })
+
+    it('fails to read unencrypted files unless allowed', async function () {
+        const keys = new MemoryTranscriptKeyProvider([{ id: 'k1', key: crypto.randomBytes(32) }]);
+        await new FileTranscriptStore(workingFolder, { keyProvider: keys }).logActivity(createActivity('a', 0));
+        await new FileTranscriptStore(workingFolder).logActivity(createActivity('planted', 1));
+        await assert.rejects(() => new FileTranscriptStore(workingFolder, { keyProvider: keys }).getTranscriptActivities('test', 'secret'), /is not encrypted/);
+    })
+
+    it('fails to read files that were tampered with or swapped', async function () {
+        const keys = new MemoryTranscriptKeyProvider([{ id: 'k1', key: crypto.randomBytes(32) }]);
+        let storage = new FileTranscriptStore(workingFolder, { keyProvider: keys });
+        await storage.logActivity(createActivity('a', 0));
+        await storage.logActivity(createActivity('b', 1));
+        const [first, second] = activityFiles().map(f => path.join(conversationFolder, f));
+        fs.copyFileSync(first, second);
+        await assert.rejects(() => storage.getTranscriptActivities('test', 'secret'));
+        await assert.rejects(() => new FileTranscriptStore(workingFolder).getTranscriptActivities('test', 'secret'));
+    })
+
+    it('fails to read files encrypted with an unknown key', async function () {
+        await new FileTranscriptStore(workingFolder, {
+            keyProvider: new MemoryTranscriptKeyProvider([{ id: 'k1', key: crypto.randomBytes(32) }])
+        }).logActivity(createActivity('a', 0));
+        let storage = new FileTranscriptStore(workingFolder, {
+            keyProvider: new MemoryTranscriptKeyProvider([{ id: 'k2', key: crypto.randomBytes(32) }])
+        });
+        await assert.rejects(() => storage.getTranscriptActivities('test', 'secret'), /unknown key 'k1'/);
+    })
+
+    it('rejects invalid keys', function () {
+        const keys = new MemoryTranscriptKeyProvider();
+        assert.throws(() => keys.addKey({ id: 'short', key: crypto.randomBytes(16) }));
+        assert.throws(() => keys.addKey({ key: crypto.randomBytes(32) }));
+        return assert.rejects(() => keys.getCurrentKey());
+    })
+});
+
+describe('FileTranscriptStore search', function () {
+    this.timeout(10000);
+    beforeEach('cleanup', reset);
+    after('cleanup', reset);
+
+    const start = Date.UTC(2018, 0, 1);
+    const createActivity = (conversationId, id, seconds, text, fromId, type) => ({
+        type: type || 'message',
+        timestamp: new Date(start + seconds * 1000),
+        id: id,
+        text: text,
+        channelId: 'test',
+        from: { id: fromId || 'bot' },
+        recipient: { id: fromId ? 'bot' : 'user1' },
+        conversation: { id: conversationId }
+    });
+    const logAll = async (storage) => {
+        await storage.logActivity(createActivity('c1', 'a1', 1, 'I want a Refund please', 'user1'));
+        await storage.logActivity(createActivity('c1', 'a2', 2, 'Your refund is on its way'));
+        await storage.logActivity(createActivity('c2', 'b1', 3, 'refund for order 42', 'user2'));
+        await storage.logActivity(createActivity('c2', 'b2', 4, undefined, 'user2', 'typing'));
+    };
+    const ids = (result) => result.items.map(i => `${ i.conversationId }/${ i.activityId }`).join(',');
+
+    it('finds activities by text, user and type', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { search: true });
+        await logAll(storage);
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'REFUND' })), 'c1/a1,c1/a2,c2/b1');
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'refund please' })), 'c1/a1');
+        assert.equal(ids(await storage.searchTranscripts('test', { userId: 'user1' })), 'c1/a1,c1/a2');
+        assert.equal(ids(await storage.searchTranscripts('test', { userId: 'user2', type: 'typing' })), 'c2/b2');
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'missing' })), '');
+        assert.equal(ids(await storage.searchTranscripts('other', { text: 'refund' })), '');
+    })
+
+    it('filters by conversation and time range', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { search: true });
+        await logAll(storage);
+        const result = await storage.searchTranscripts('test', { text: 'refund', conversationId: 'c2' });
+        assert.equal(ids(result), 'c2/b1');
+        assert.equal(result.items[0].timestamp.getTime(), start + 3000);
+        assert.equal(ids(await storage.searchTranscripts('test', {
+            startDate: new Date(start + 2000),
+            endDate: new Date(start + 3000)
+        })), 'c1/a2,c2/b1');
+    })
+
+    it('pages through results', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { search: true });
+        for (let i = 0; i < 25; i++) {
+            await storage.logActivity(createActivity(`c${ i % 3 }`, `a${ i }`, i, 'hello'));
+        }
+        const page1 = await storage.searchTranscripts('test', { text: 'hello' });
+        const page2 = await storage.searchTranscripts('test', { text: 'hello' }, page1.continuationToken);
+        assert.equal(page1.items.length, 20);
+        assert(page1.continuationToken);
+        assert.equal(page2.items.map(i => i.activityId).join(','), 'a20,a21,a22,a23,a24');
+        assert.equal(page2.continuationToken, undefined);
+    })
+
+    it('skips deleted transcripts and rebuilds the index', async function () {
+        await logAll(new FileTranscriptStore(workingFolder));
+        let storage = new FileTranscriptStore(workingFolder, { search: true });
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'refund' })), '');
+        await storage.rebuildSearchIndex();
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'refund' })), 'c1/a1,c1/a2,c2/b1');
+        await storage.deleteTranscript('test', 'c1');
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'refund' })), 'c2/b1');
+        assert.equal((await storage.listTranscripts('test')).items.length, 1);
+    })
+
+    it('removes the entries of deleted transcripts from the index', async function () {
+        const fs = require('fs');
+        const searchFolder = path.join(workingFolder, '.search', 'test');
+        const postings = () => fs.readdirSync(searchFolder).map(f => fs.readFileSync(path.join(searchFolder, f), 'utf8')).join('');
+        let storage = new FileTranscriptStore(workingFolder, { search: true });
+        await logAll(storage);
+        await storage.deleteTranscript('test', 'c1');
+        assert(!postings().includes('\tc1\t'), `postings of deleted conversation kept.`);
+        assert(postings().includes('\tc2\t'));
+        await storage.deleteTranscript('test', 'c2');
+        assert.deepEqual(fs.readdirSync(searchFolder), [], `empty buckets kept.`);
+    })
+
+    it('matches the latest content of updated activities', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { search: true });
+        await storage.logActivity(createActivity('c1', 'a1', 1, 'my secret password', 'user1'));
+        await storage.logActivity(createActivity('c1', 'a1', 2, 'my new message', 'user1', 'messageUpdate'));
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'secret' })), '');
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'new message' })), 'c1/a1');
+        assert.equal(ids(await storage.searchTranscripts('test', { userId: 'user1', type: 'message' })), 'c1/a1');
+    })
+
+    it('skips deleted activities unless asked for', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { search: true });
+        await storage.logActivity(createActivity('c1', 'a1', 1, 'my secret password', 'user1'));
+        await storage.logActivity(createActivity('c1', 'a2', 2, 'kept', 'user1'));
+        await storage.logActivity(createActivity('c1', 'a1', 3, undefined, 'user1', 'messageDelete'));
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'secret' })), '');
+        assert.equal(ids(await storage.searchTranscripts('test', { text: 'secret' }, undefined, { includeDeleted: true })), '');
+        assert.equal(ids(await storage.searchTranscripts('test', { userId: 'user1' })), 'c1/a2');
+        assert.equal(ids(await storage.searchTranscripts('test', { conversationId: 'c1' })), 'c1/a2');
+        assert.equal(ids(await storage.searchTranscripts('test', { userId: 'user1' }, undefined, { includeDeleted: true })), 'c1/a1,c1/a2');
+        assert.equal(ids(await storage.searchTranscripts('test', { type: 'messageDelete' }, undefined, { includeHistory: true })), 'c1/a1');
+    })
+
+    it('needs the search setting for term queries', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        await logAll(storage);
+        await assert.rejects(() => storage.searchTranscripts('test', { text: 'refund' }));
+        assert.equal(ids(await storage.searchTranscripts('test', { conversationId: 'c1' })), 'c1/a1,c1/a2');
+    })
+});
+
+describe('FileTranscriptStore listTranscripts', function () {
+    this.timeout(10000);
+    beforeEach('cleanup', reset);
+    after('cleanup', reset);
+
+    const day = 24 * 60 * 60 * 1000;
+    const start = Date.UTC(2018, 0, 1);
+    const logConversation = async (storage, conversationId, days) => {
+        for (const d of days) {
+            await storage.logActivity({
+                type: 'message',
+                timestamp: new Date(start + d * day),
+                id: `${ conversationId }-${ d }`,
+                channelId: 'test',
+                conversation: { id: conversationId }
+            });
+        }
+    };
+    const ids = (result) => result.items.map(i => i.id).join(',');
+
+    it('returns the created and last updated times and activity counts', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        await logConversation(storage, 'b', [3, 1, 5]);
+        const info = (await storage.listTranscripts('test')).items[0];
+        assert.equal(info.created.getTime(), start + day);
+        assert.equal(info.lastUpdated.getTime(), start + 5 * day);
+        assert.equal(info.activityCount, 3);
+    })
+
+    it('sorts by id, created and last updated', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        await logConversation(storage, 'c', [1, 2]);
+        await logConversation(storage, 'a', [3, 4]);
+        await logConversation(storage, 'b', [0, 9]);
+        assert.equal(ids(await storage.listTranscripts('test')), 'a,b,c');
+        assert.equal(ids(await storage.listTranscripts('test', undefined, { descending: true })), 'c,b,a');
+        assert.equal(ids(await storage.listTranscripts('test', undefined, { sortBy: 'created' })), 'b,c,a');
+        assert.equal(ids(await storage.listTranscripts('test', undefined, { sortBy: 'lastUpdated', descending: true })), 'b,a,c');
+    })
+
+    it('filters by date range', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        await logConversation(storage, 'a', [1, 2]);
+        await logConversation(storage, 'b', [5, 6]);
+        await logConversation(storage, 'c', [2, 8]);
+        assert.equal(ids(await storage.listTranscripts('test', undefined, { startDate: new Date(start + 3 * day) })), 'b,c');
+        assert.equal(ids(await storage.listTranscripts('test', undefined, { endDate: new Date(start + 2 * day) })), 'a,c');
+        assert.equal(ids(await storage.listTranscripts('test', undefined, {
+            startDate: new Date(start + 3 * day),
+            endDate: new Date(start + 4 * day)
+        })), 'c');
+    })
+
+    it('pages deterministically in every order', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        for (let i = 0; i < 25; i++) {
+            await logConversation(storage, `c${ String(i).padStart(2, '0') }`, [25 - i]);
+        }
+        for (const options of [undefined, { descending: true }, { sortBy: 'lastUpdated' }]) {
+            const page1 = await storage.listTranscripts('test', undefined, options);
+            const page2 = await storage.listTranscripts('test', page1.continuationToken, options);
+            assert.equal(page1.items.length, 20);
+            assert.equal(page2.items.length, 5);
+            assert.equal(new Set(page1.items.concat(page2.items).map(i => i.id)).size, 25);
+        }
+        const page1 = await storage.listTranscripts('test');
+        await storage.deleteTranscript('test', page1.items[19].id);
+        assert.equal(ids(await storage.listTranscripts('test', page1.continuationToken)), 'c20,c21,c22,c23,c24');
+    })
+});
+
+describe('FileTranscriptStore paging', function () {
+    this.timeout(10000);
+    beforeEach('cleanup', reset);
+    after('cleanup', reset);
+
+    const start = Date.UTC(2018, 0, 1);
+    const logActivities = async (storage, ids) => {
+        for (let i = 0; i < ids.length; i++) {
+            await storage.logActivity({
+                type: 'message',
+                timestamp: new Date(start + i * 1000),
+                id: ids[i],
+                channelId: 'test',
+                conversation: { id: 'paged' }
+            });
+        }
+    };
+    const readAll = async (storage, options) => {
+        const ids = [];
+        let token;
+        do {
+            const page = await storage.getTranscriptActivities('test', 'paged', token, undefined, options);
+            ids.push(...page.items.map(a => a.id));
+            token = page.continuationToken;
+        } while (token);
+        return ids;
+    };
+
+    it('uses the page size of the store or of the call', async function () {
+        const ids = [...Array(12).keys()].map(i => `a${ i }`);
+        let storage = new FileTranscriptStore(workingFolder, { pageSize: 5 });
+        await logActivities(storage, ids);
+        const page = await storage.getTranscriptActivities('test', 'paged');
+        assert.equal(page.items.length, 5);
+        assert.deepEqual(await readAll(storage), ids);
+        assert.equal((await storage.getTranscriptActivities('test', 'paged', undefined, undefined, { pageSize: 7 })).items.length, 7);
+        assert.equal((await storage.listTranscripts('test', undefined, { pageSize: 1 })).items.length, 1);
+        assert.throws(() => new FileTranscriptStore(workingFolder, { pageSize: 0 }));
+        assert.throws(() => storage.getTranscriptActivities('test', 'paged', undefined, undefined, { pageSize: 1.5 }));
+    })
+
+    it('pages through ids containing separators', async function () {
+        const ids = ['a-1.x', 'a-1', 'b.2-3', 'c--', 'd.', '-e'];
+        let storage = new FileTranscriptStore(workingFolder, { pageSize: 2 });
+        await logActivities(storage, ids);
+        assert.deepEqual(await readAll(storage), ids);
+    })
+
+    it('continues after a deleted anchor activity', async function () {
+        const fs = require('fs');
+        let storage = new FileTranscriptStore(workingFolder, { pageSize: 2 });
+        await logActivities(storage, ['a', 'b', 'c', 'd', 'e']);
+        const page1 = await storage.getTranscriptActivities('test', 'paged');
+        const folder = path.join(workingFolder, 'test', 'paged');
+        fs.unlinkSync(path.join(folder, fs.readdirSync(folder).sort().find(f => f.endsWith('-b.json'))));
+        fs.unlinkSync(path.join(folder, '.index'));
+        const page2 = await storage.getTranscriptActivities('test', 'paged', page1.continuationToken);
+        assert.deepEqual(page2.items.map(a => a.id), ['c', 'd']);
+    })
+
+    it('accepts tokens from earlier versions', async function () {
+        let storage = new FileTranscriptStore(workingFolder, { pageSize: 2 });
+        await logActivities(storage, ['a', 'b', 'c']);
+        assert.deepEqual((await storage.getTranscriptActivities('test', 'paged', 'b')).items.map(a => a.id), ['c']);
+        assert.equal((await storage.listTranscripts('test', 'paged')).items.length, 0);
+        await assert.rejects(async () => storage.getTranscriptActivities('test', 'paged', Buffer.from('{"v":9}').toString('base64')));
+    })
+});
+
+describe('FileTranscriptStore updates and deletes', function () {
+    this.timeout(10000);
+    beforeEach('cleanup', reset);
+    after('cleanup', reset);
+
+    const start = Date.UTC(2018, 0, 1);
+    const createActivity = (type, id, seconds, text) => ({
+        type: type,
+        timestamp: new Date(start + seconds * 1000),
+        id: id,
+        text: text,
+        channelId: 'test',
+        from: { id: 'bot' },
+        recipient: { id: 'user' },
+        conversation: { id: 'changes' }
+    });
+    const read = async (storage, options) => (await storage.getTranscriptActivities('test', 'changes', undefined, undefined, options)).items;
+
+    it('keeps the latest content of updated activities', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        await storage.logActivity(createActivity('message', 'a', 0, 'first'));
+        await storage.logActivity(createActivity('message', 'b', 1, 'second'));
+        await storage.logActivity(createActivity('messageUpdate', 'a', 2, 'first, edited'));
+        await storage.logActivity(createActivity('messageUpdate', 'a', 3, 'first, edited twice'));
+
+        const items = await read(storage);
+        assert.deepEqual(items.map(a => `${ a.type }:${ a.id }:${ a.text }`), ['message:a:first, edited twice', 'message:b:second']);
+        assert.equal(items[0].timestamp.getTime(), start);
+
+        const history = await read(storage, { includeHistory: true });
+        assert.deepEqual(history.map(a => `${ a.type }:${ a.text }`), ['message:first', 'messageUpdate:first, edited', 'messageUpdate:first, edited twice', 'message:second']);
+    })
+
+    it('updates activities of a conversation without an index', async function () {
+        const fs = require('fs');
+        await new FileTranscriptStore(workingFolder).logActivity(createActivity('message', 'a', 0, 'first'));
+        fs.unlinkSync(path.join(workingFolder, 'test', 'changes', '.index'));
+
+        let storage = new FileTranscriptStore(workingFolder);
+        await storage.logActivity(createActivity('messageUpdate', 'a', 1, 'first, edited'));
+        await storage.logActivity(createActivity('message', 'b', 2, 'second'));
+        assert.deepEqual((await read(storage)).map(a => `${ a.id }:${ a.text }`), ['a:first, edited', 'b:second']);
+    })
+
+    it('replaces deleted activities with tombstones', async function () {
+        let storage = new FileTranscriptStore(workingFolder);
+        await storage.logActivity(createActivity('message', 'a', 0, 'secret'));
+        await storage.logActivity(createActivity('message', 'b', 1, 'kept'));
+        await storage.logActivity({ type: 'messageDelete', id: 'a', timestamp: new Date(start + 2000), channelId: 'test', conversation: { id: 'changes' } });
+
+        assert.deepEqual((await read(storage)).map(a => a.id), ['b']);
+        const withDeleted = await read(storage, { includeDeleted: true });
+        assert.equal(withDeleted[0].type, 'messageDelete');
+        assert.equal(withDeleted[0].text, undefined);
+        assert.equal(withDeleted[0].from.id, 'bot');
+        assert.deepEqual((await read(storage, { includeHistory: true })).map(a => a.type), ['message', 'messageDelete', 'message']);
+
+        const streamed = [];
+        for await (const activity of storage.streamTranscriptActivities('test', 'changes')) { streamed.push(activity.id); }
+        assert.deepEqual(streamed, ['b']);
+    })
+
+    it('tracks changes logged by the TranscriptLoggerMiddleware', async function () {
+        const { TestAdapter, TranscriptLoggerMiddleware, TurnContext } = require('../');
+        let storage = new FileTranscriptStore(workingFolder);
+        const adapter = new TestAdapter(async (context) => {
+            const reference = TurnContext.getConversationReference(context.activity);
+            await context.sendActivity({ type: 'message', id: 'reply', text: 'draft' });
+            await context.sendActivity({ type: 'message', id: 'status', text: 'working...' });
+            await context.updateActivity(TurnContext.applyConversationReference({ type: 'message', id: 'reply', text: 'final' }, reference));
+            await context.deleteActivity('status');
+        }, { channelId: 'test', conversation: { id: 'changes' } });
+        adapter.use(new TranscriptLoggerMiddleware(storage));
+        await adapter.receiveActivity('hi');
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+        assert.deepEqual((await read(storage)).map(a => a.text), ['hi', 'final']);
+        assert.deepEqual((await read(storage, { includeDeleted: true })).map(a => a.type), ['message', 'message', 'messageDelete']);
+    })
+
+    it('encrypts history and removes it with expired activities', async function () {
+        const fs = require('fs');
+        const { MemoryTranscriptKeyProvider } = require('../');
+        const keyProvider = new MemoryTranscriptKeyProvider([{ id: 'k1', key: require('crypto').randomBytes(32) }]);
+        let storage = new FileTranscriptStore(workingFolder, { keyProvider: keyProvider, retention: { maxAge: 1000 } });
+        await storage.logActivity(createActivity('message', 'a', 0, 'secret'));
+        await storage.logActivity(createActivity('messageUpdate', 'a', 1, 'secret, edited'));
+        await storage.logActivity(createActivity('message', 'b', 10, 'recent'));
+        const historyFolder = path.join(workingFolder, 'test', 'changes', '.history', 'a');
+        assert(fs.readdirSync(historyFolder).every(f => !fs.readFileSync(path.join(historyFolder, f), 'utf8').includes('secret')));
+        assert.equal((await read(storage, { includeHistory: true }))[1].text, 'secret, edited');
+
+        await storage.prune({ now: new Date(start + 10000) });
+        assert(!fs.existsSync(historyFolder), `history not removed.`);
+        assert.deepEqual((await read(storage)).map(a => a.id), ['b']);
+    })
+});
@@ -0,0 +1,235 @@
+const { FileTranscriptStore, JsonlTranscriptStore, MemoryTranscriptKeyProvider, migrateFileTranscripts } = require('../');
+
+const assert = require('assert');
+const base = require('./transcriptStoreBaseTest');
+const fs = require('fs');
+const path = require('path');
+const os = require('os');
+const rimraf = require('rimraf');
+
+const workingFolder = path.join(os.tmpdir(), 'botbuilder-jsonl-transcript-tests');
+const sourceFolder = path.join(os.tmpdir(), 'botbuilder-jsonl-migration-tests');
+
+const reset = (done) => {
+    // remove working folders
+    rimraf(workingFolder, () => rimraf(sourceFolder, () => done()));
+}
+
+const print = (o) => {
+    return JSON.stringify(o, null, '  ');
+}
+
+const createActivity = (id, timestamp, text) => ({
+    type: 'message',
+    timestamp: timestamp,
+    id: id,
+    text: text || id,
+    channelId: 'test',
+    conversation: { id: 'segments' }
+});
+
+const segmentFiles = () => fs.readdirSync(path.join(workingFolder, 'test', 'segments')).filter(f => f.endsWith('.jsonl')).sort();
+
+describe('JsonlTranscriptStore', function () {
+    this.timeout(10000);
+    before('cleanup', reset);
+    after('cleanup', reset);
+
+    it('bad args', function () {
+        let storage = new JsonlTranscriptStore(workingFolder);
+        return base._badArgs(storage)
+            .then(messages => {
+                assert(messages.every(message => message.startsWith('expected error')));
+            })
+            .catch(reason =>
+                assert(false, `should not throw: ${print(reason)}`))
+    })
+
+    it('log activity', function () {
+        let storage = new JsonlTranscriptStore(workingFolder);
+        return base._logActivity(storage)
+            .catch(reason =>
+                assert(false, `should not throw: ${print(reason)}`))
+    })
+
+    it('logs multiple activities', function () {
+        let storage = new JsonlTranscriptStore(workingFolder);
+        return base._logMultipleActivities(storage)
+            .catch(reason =>
+                assert(false, `should not throw: ${print(reason)}`))
+    })
+
+    it('delete transcript', function () {
+        let storage = new JsonlTranscriptStore(workingFolder);
+        return base._deleteTranscript(storage)
+            .catch(reason =>
+                assert(false, `should not throw: ${print(reason)}`))
+    })
+
+    it('get transcript activities', function () {
+        let storage = new JsonlTranscriptStore(workingFolder);
+        return base._getTranscriptActivities(storage)
+            .catch(reason =>
+                assert(false, `should not throw: ${print(reason)}`))
+    })
+
+    it('get transcript activities with state date', function () {
+        let storage = new JsonlTranscriptStore(workingFolder);
+        return base._getTranscriptActivitiesStartDate(storage)
+            .catch(reason =>
+                assert(false, `should not throw: ${print(reason)}`))
+    })
+
+    it('list transcripts', function () {
+        let storage = new JsonlTranscriptStore(workingFolder);
+        return base._listTranscripts(storage)
+            .catch(reason =>
+                assert(false, `should not throw: ${print(reason)}`))
+    })
+
+    describe('segments', function () {
+        beforeEach('cleanup', reset);
+
+        it('writes one line per activity when logged concurrently', async function () {
+            let storage = new JsonlTranscriptStore(workingFolder);
+            const start = Date.UTC(2018, 0, 1);
+            await Promise.all([...Array(50).keys()].map(i => storage.logActivity(createActivity(`a${ i }`, new Date(start + i)))));
+            const lines = fs.readFileSync(path.join(workingFolder, 'test', 'segments', segmentFiles()[0]), 'utf8').split('\n').filter(l => l);
+            assert.equal(lines.length, 50);
+            lines.forEach(line => JSON.parse(line));
+        })
+
+        it('rotates segments by size', async function () {
+            let storage = new JsonlTranscriptStore(workingFolder, { maxSegmentSize: 300 });
+            const start = Date.UTC(2018, 0, 1);
+            for (let i = 0; i < 10; i++) {
+                await storage.logActivity(createActivity(`a${ i }`, new Date(start + i * 1000)));
+            }
+            const files = segmentFiles();
+            assert(files.length > 1, `segments not rotated: ${ files }`);
+            assert.equal(files[0], '000001.jsonl');
+
+            // A new store instance continues the last segment.
+            await new JsonlTranscriptStore(workingFolder, { maxSegmentSize: 300 }).logActivity(createActivity('a10', new Date(start + 10000)));
+            const result = await storage.getTranscriptActivities('test', 'segments');
+            assert.equal(result.items.map(a => a.id).join(','), 'a0,a1,a2,a3,a4,a5,a6,a7,a8,a9,a10');
+        })
+
+        it('rotates segments by day', async function () {
+            let storage = new JsonlTranscriptStore(workingFolder, { rotateDaily: true });
+            await storage.logActivity(createActivity('a', new Date(Date.UTC(2018, 0, 1, 23))));
+            await storage.logActivity(createActivity('b', new Date(Date.UTC(2018, 0, 2, 1))));
+            await storage.logActivity(createActivity('c', new Date(Date.UTC(2018, 0, 2, 2))));
+            assert.deepEqual(segmentFiles(), ['20180101-000001.jsonl', '20180102-000001.jsonl']);
+        })
+
+        it('continues the last segment of a day', async function () {
+            let storage = new JsonlTranscriptStore(workingFolder, { rotateDaily: true, maxSegmentSize: 300 });
+            for (let i = 0; i < 4; i++) {
+                await storage.logActivity(createActivity(`a${ i }`, new Date(Date.UTC(2018, 0, 1, 1, i))));
+            }
+            await storage.logActivity(createActivity('b', new Date(Date.UTC(2018, 0, 2, 1))));
+            await storage.logActivity(createActivity('a4', new Date(Date.UTC(2018, 0, 1, 2))));
+            await new JsonlTranscriptStore(workingFolder, { rotateDaily: true, maxSegmentSize: 300 }).logActivity(createActivity('a5', new Date(Date.UTC(2018, 0, 1, 3))));
+            const files = segmentFiles().filter(f => f.startsWith('20180101-'));
+            assert(files.length > 1, `segments not rotated: ${ files }`);
+            files.forEach(f => assert(fs.statSync(path.join(workingFolder, 'test', 'segments', f)).size <= 300, `${ f } over the maximum size`));
+            const result = await storage.getTranscriptActivities('test', 'segments');
+            assert.equal(result.items.map(a => a.id).join(','), 'a0,a1,a2,a3,a4,a5,b');
+        })
+
+        it('ignores a partially written line', async function () {
+            let storage = new JsonlTranscriptStore(workingFolder);
+            await storage.logActivity(createActivity('a', new Date(Date.UTC(2018, 0, 1))));
+            fs.appendFileSync(path.join(workingFolder, 'test', 'segments', segmentFiles()[0]), '{"type":"mess');
+            const result = await storage.getTranscriptActivities('test', 'segments');
+            assert.equal(result.items.length, 1);
+        })
+    });
+
+    describe('paging', function () {
+        beforeEach('cleanup', reset);
+
+        it('pages with opaque tokens when activity ids repeat', async function () {
+            let storage = new JsonlTranscriptStore(workingFolder, { rotateDaily: true });
+            const start = Date.UTC(2018, 0, 1, 20);
+            for (let i = 0; i < 45; i++) {
+                await storage.logActivity(createActivity('same', new Date(start + i * 600000), `t${ i }`));
+            }
+            const texts = [];
+            let continuationToken;
+            do {
+                const page = await storage.getTranscriptActivities('test', 'segments', continuationToken);
+                page.items.forEach(a => texts.push(a.text));
+                continuationToken = page.continuationToken;
+                if (continuationToken) { assert.notEqual(continuationToken, 'same'); }
+            } while (continuationToken);
+            assert.equal(texts.join(','), [...Array(45).keys()].map(i => `t${ i }`).join(','));
+        })
+
+        it('rejects an unsupported token version', async function () {
+            let storage = new JsonlTranscriptStore(workingFolder);
+            const token = Buffer.from(JSON.stringify({ v: 99, t: 0, s: '000001.jsonl', l: 0 })).toString('base64');
+            await assert.rejects(storage.getTranscriptActivities('test', 'segments', token), /unsupported continuation token version '99'/);
+        })
+    });
+
+    describe('migrateFileTranscripts', function () {
+        beforeEach('cleanup', reset);
+
+        it('copies per-activity transcripts into segments', async function () {
+            const source = new FileTranscriptStore(sourceFolder);
+            const start = Date.UTC(2018, 0, 1);
+            for (let i = 0; i < 25; i++) {
+                await source.logActivity(createActivity(`a${ i }`, new Date(start + i * 1000)));
+            }
+            const target = new JsonlTranscriptStore(workingFolder);
+            const result = await migrateFileTranscripts(sourceFolder, target);
+            assert.deepEqual(result, { conversations: 1, activities: 25, skipped: 0 });
+
+            const page1 = await target.getTranscriptActivities('test', 'segments');
+            const page2 = await target.getTranscriptActivities('test', 'segments', page1.continuationToken);
+            assert.equal(page1.items[0].id, 'a0');
+            assert.equal(page2.items.length, 5);
+            assert.equal(page2.items[4].id, 'a24');
+            assert.equal((await source.getTranscriptActivities('test', 'segments')).items.length, 20);
+        })
+
+        it('deletes the source files when asked to', async function () {
+            const source = new FileTranscriptStore(sourceFolder);
+            await source.logActivity(createActivity('a', new Date(Date.UTC(2018, 0, 1))));
+            await source.logActivity(Object.assign(createActivity('a', new Date(Date.UTC(2018, 0, 1))), { type: 'messageUpdate', text: 'edited' }));
+            await migrateFileTranscripts(sourceFolder, new JsonlTranscriptStore(workingFolder), { deleteSource: true });
+            assert.deepEqual(fs.readdirSync(sourceFolder), []);
+        })
+
+        it('skips activities that were already migrated', async function () {
+            const source = new FileTranscriptStore(sourceFolder);
+            const start = Date.UTC(2018, 0, 1);
+            for (let i = 0; i < 25; i++) {
+                await source.logActivity(createActivity(`a${ i }`, new Date(start + i * 1000)));
+            }
+            const target = new JsonlTranscriptStore(workingFolder);
+            await migrateFileTranscripts(sourceFolder, target);
+            await source.logActivity(createActivity('a25', new Date(start + 25000)));
+            const result = await migrateFileTranscripts(sourceFolder, target);
+            assert.deepEqual(result, { conversations: 1, activities: 1, skipped: 25 });
+
+            const page2 = await target.getTranscriptActivities('test', 'segments', (await target.getTranscriptActivities('test', 'segments')).continuationToken);
+            assert.equal(page2.items.map(a => a.id).join(','), 'a20,a21,a22,a23,a24,a25');
+        })
+
+        it('decrypts encrypted source files', async function () {
+            const keyProvider = new MemoryTranscriptKeyProvider([{ id: 'k1', key: require('crypto').randomBytes(32) }]);
+            await new FileTranscriptStore(sourceFolder, { keyProvider: keyProvider }).logActivity(createActivity('a', new Date(Date.UTC(2018, 0, 1))));
+            const target = new JsonlTranscriptStore(workingFolder);
+            await migrateFileTranscripts(sourceFolder, target, { keyProvider: keyProvider });
+            assert.equal((await target.getTranscriptActivities('test', 'segments')).items[0].text, 'a');
+        })
+
+        it('handles a missing source folder', async function () {
+            const result = await migrateFileTranscripts(sourceFolder, new JsonlTranscriptStore(workingFolder));
+            assert.deepEqual(result, { conversations: 0, activities: 0, skipped: 0 });
+        })
+    });
+});
@@ -0,0 +1,139 @@
+const assert = require('assert');
+const { ClaimsIdentity, MicrosoftAppCredentials } = require('botframework-connector');
+const { BotFrameworkAdapter, MultiTenantCredentialProvider, OfflineConnector, TurnContext } = require('../');
+
+const reference = {
+    channelId: 'test',
+    serviceUrl: 'https://example.org/channel',
+    user: { id: 'user', name: 'User Name' },
+    bot: { id: '28:app2', name: 'Bot Name' },
+    conversation: { id: 'convo1' }
+};
+
+class TenantAdapter extends BotFrameworkAdapter {
+    constructor(settings, claims) {
+        super(settings);
+        this.claims = claims;
+        this.appIds = [];
+    }
+
+    authenticateRequest(request, authHeader) {
+        return Promise.resolve(this.claims ? new ClaimsIdentity(this.claims, true) : undefined);
+    }
+
+    createConnectorClient(serviceUrl, appId) {
+        const client = super.createConnectorClient(serviceUrl, appId);
+        this.appIds.push(client.credentials.appId);
+        return client;
+    }
+}
+
+class MockResponse {
+    status(status) { this.statusCode = status; }
+    send(body) { this.body = body; }
+    end() { this.ended = true; }
+}
+
+describe(`MultiTenantCredentialProvider`, function () {
+    this.timeout(5000);
+
+    it(`should look up passwords from a map.`, async function () {
+        const provider = new MultiTenantCredentialProvider({ app1: 'password1', app2: 'password2' });
+        assert.equal(await provider.getAppPassword('app2'), 'password2');
+        assert(await provider.isValidAppId('app1'));
+        assert(!(await provider.isValidAppId('app3')));
+        assert(!(await provider.isValidAppId('toString')), `inherited properties treated as app ids.`);
+        assert(!(await provider.isAuthenticationDisabled()));
+    });
+
+    it(`should cache passwords until they're refreshed.`, async function () {
+        let calls = 0;
+        let password = 'password1';
+        const provider = new MultiTenantCredentialProvider(async (appId) => { calls++; return password; });
+        await Promise.all([provider.getAppPassword('app1'), provider.getAppPassword('app1')]);
+        assert.equal(calls, 1);
+
+        password = 'password2';
+        assert.equal(await provider.getAppPassword('app1'), 'password1');
+        provider.refresh('app1');
+        assert.equal(await provider.getAppPassword('app1'), 'password2');
+        assert.equal(calls, 2);
+    });
+
+    it(`should look up passwords again after the refreshInterval.`, async function () {
+        let calls = 0;
+        const provider = new MultiTenantCredentialProvider(async (appId) => `password${ ++calls }`, { refreshInterval: 20 });
+        assert.equal(await provider.getAppPassword('app1'), 'password1');
+        await new Promise(resolve => setTimeout(resolve, 30));
+        assert.equal(await provider.getAppPassword('app1'), 'password2');
+    });
+
+    it(`should not cache failed lookups.`, async function () {
+        let fail = true;
+        const provider = new MultiTenantCredentialProvider(async (appId) => {
+            if (fail) { throw new Error('vault unavailable'); }
+            return 'password1';
+        });
+        await assert.rejects(() => provider.getAppPassword('app1'), /vault unavailable/);
+        fail = false;
+        assert.equal(await provider.getAppPassword('app1'), 'password1');
+    });
+
+    it(`should validate its arguments.`, function () {
+        assert.throws(() => new MultiTenantCredentialProvider());
+        assert.throws(() => new MultiTenantCredentialProvider({}, { refreshInterval: -1 }), /refreshInterval must be a non-negative number/);
+        assert.doesNotThrow(() => new MultiTenantCredentialProvider({}, { refreshInterval: 0 }));
+    });
+});
+
+describe(`BotFrameworkAdapter with a credentialProvider`, function () {
+    this.timeout(5000);
+
+    const credentialProvider = new MultiTenantCredentialProvider({ app1: 'password1', app2: 'password2' });
+
+    it(`should reply using the registration found in the request claims.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new TenantAdapter({ credentialProvider: credentialProvider, offlineConnector: connector }, [{ type: 'aud', value: 'app1' }]);
+        const request = { body: TurnContext.applyConversationReference({ type: 'message', text: 'hi' }, reference, true), headers: {} };
+        await adapter.processActivity(request, new MockResponse(), (context) => context.sendActivity('hello'));
+        assert.deepEqual(adapter.appIds, ['app1']);
+        assert.equal(connector.callsTo('sendToConversation').length, 1);
+    });
+
+    it(`should fall back to the recipient of the request.`, async function () {
+        const adapter = new TenantAdapter({ credentialProvider: credentialProvider, offlineConnector: new OfflineConnector() }, [{ type: 'aud', value: 'https://api.botframework.com' }]);
+        const request = { body: TurnContext.applyConversationReference({ type: 'message', text: 'hi' }, reference, true), headers: {} };
+        await adapter.processActivity(request, new MockResponse(), (context) => context.sendActivity('hello'));
+        assert.deepEqual(adapter.appIds, ['app2']);
+    });
+
+    it(`should use the bot of the conversation reference for proactive calls.`, async function () {
+        const adapter = new TenantAdapter({ credentialProvider: credentialProvider, offlineConnector: new OfflineConnector() });
+        await adapter.continueConversation(reference, (context) => context.sendActivity('hello'));
+        await adapter.createConversation(Object.assign({}, reference, { bot: { id: 'app1' } }), (context) => context.sendActivity('hello'));
+        assert.deepEqual(adapter.appIds, ['app2', 'app1', 'app1']);
+    });
+
+    it(`should use the default credentials for unknown registrations.`, async function () {
+        const adapter = new TenantAdapter({ appId: 'default', appPassword: 'secret', credentialProvider: credentialProvider, offlineConnector: new OfflineConnector() });
+        await adapter.continueConversation(Object.assign({}, reference, { bot: { id: 'app3' } }), (context) => context.sendActivity('hello'));
+        await adapter.getConversations(reference.serviceUrl);
+        assert.deepEqual(adapter.appIds, ['default', 'default']);
+    });
+
+    it(`should share credentials per app id and read their password from the provider.`, async function () {
+        const adapter = new TenantAdapter({ credentialProvider: credentialProvider, offlineConnector: new OfflineConnector() });
+        const first = adapter.createConnectorClient(reference.serviceUrl, 'app1').credentials;
+        const second = adapter.createConnectorClient('https://example.org/other', 'app1').credentials;
+        assert.strictEqual(first, second);
+        assert(first instanceof MicrosoftAppCredentials);
+
+        MicrosoftAppCredentials.cache.set(first.tokenCacheKey, { access_token: 'token', expiration_time: new Date(Date.now() + 60000) });
+        try {
+            assert.equal(await first.getToken(), 'token');
+            assert.equal(first.appPassword, 'password1');
+        } finally {
+            MicrosoftAppCredentials.cache.delete(first.tokenCacheKey);
+        }
+    });
+});
@@ -0,0 +1,129 @@
+const assert = require('assert');
+const { BotFrameworkAdapter, OfflineConnector, TurnContext } = require('../');
+
+const reference = {
+    activityId: '1234',
+    channelId: 'test',
+    serviceUrl: 'https://example.org/channel',
+    user: { id: 'user', name: 'User Name' },
+    bot: { id: 'bot', name: 'Bot Name' },
+    conversation: { id: 'convo1' }
+};
+
+const incomingMessage = TurnContext.applyConversationReference({ type: 'message', text: 'test' }, reference, true);
+
+const proactiveReference = Object.assign({}, reference, { activityId: undefined });
+
+describe(`OfflineConnector`, function () {
+    this.timeout(5000);
+
+    it(`should record proactive sends without touching the network.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        let responses;
+        await adapter.continueConversation(proactiveReference, async (context) => {
+            responses = await context.sendActivities([{ text: 'one' }, { text: 'two' }]);
+        });
+        const calls = connector.callsTo('sendToConversation');
+        assert(calls.length === 2, `invalid number of sends: ${ calls.length }`);
+        assert(calls[0].serviceUrl === reference.serviceUrl, `invalid serviceUrl recorded.`);
+        assert(calls[0].conversationId === 'convo1', `invalid conversationId recorded.`);
+        assert(calls[1].activity.text === 'two', `invalid activity recorded.`);
+        assert(responses[0].id && responses[0].id !== responses[1].id, `unique ids not returned.`);
+    });
+
+    it(`should return scripted responses in order.`, async function () {
+        const connector = new OfflineConnector()
+            .respondWith('replyToActivity', { id: 'first' })
+            .respondWith('replyToActivity', (call) => ({ id: `echo:${ call.activity.text }` }));
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        const context = new TurnContext(adapter, incomingMessage);
+        const first = await context.sendActivity('a');
+        const second = await context.sendActivity('b');
+        assert(first.id === 'first', `first scripted response not returned.`);
+        assert(second.id === 'echo:b', `second scripted response not returned.`);
+        assert(connector.callsTo('replyToActivity')[0].activityId === '1234', `replyToId not recorded.`);
+    });
+
+    it(`should retry a throttled send.`, async function () {
+        const connector = new OfflineConnector().throttle('sendToConversation', 0);
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector, retryPolicy: { initialDelay: 1, jitter: 0 } });
+        await adapter.continueConversation(proactiveReference, async (context) => {
+            await context.sendActivity('hi');
+        });
+        const calls = connector.callsTo('sendToConversation');
+        assert(calls.length === 2, `send not retried.`);
+    });
+
+    it(`should not retry a send or a new conversation after a server error.`, async function () {
+        const connector = new OfflineConnector().failWith('sendToConversation', 503).failWith('createConversation', 500);
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector, retryPolicy: { initialDelay: 1, jitter: 0 } });
+        await assert.rejects(() => adapter.continueConversation(proactiveReference, async (context) => {
+            await context.sendActivity('hi');
+        }), (err) => err.statusCode === 503);
+        await assert.rejects(() => adapter.createConversation(proactiveReference, async () => {}), (err) => err.statusCode === 500);
+        assert(connector.callsTo('sendToConversation').length === 1, `send retried.`);
+        assert(connector.callsTo('createConversation').length === 1, `createConversation retried.`);
+    });
+
+    it(`should surface scripted errors with a status code.`, async function () {
+        const connector = new OfflineConnector().failWith('deleteActivity', 404);
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        const context = new TurnContext(adapter, incomingMessage);
+        try {
+            await context.deleteActivity('5678');
+            assert(false, `error not raised.`);
+        } catch (err) {
+            assert(err.statusCode === 404, `invalid status code: ${ err.statusCode }`);
+            assert(err.response.status === 404, `response missing.`);
+        }
+    });
+
+    it(`should script OAuth token calls.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        const context = new TurnContext(adapter, incomingMessage);
+        assert(await adapter.getUserToken(context, 'graph') === undefined, `token returned by default.`);
+
+        connector.respondWith('getToken', { connectionName: 'graph', token: 'abc' });
+        const token = await adapter.getUserToken(context, 'graph', '123456');
+        assert(token.token === 'abc', `scripted token not returned.`);
+        assert(connector.callsTo('getToken')[1].args[0] === 'user', `user id not recorded.`);
+
+        connector.respondWith('getSignInUrl', 'https://example.org/signin');
+        assert(await adapter.getSignInLink(context, 'graph') === 'https://example.org/signin', `sign in link not returned.`);
+
+        await adapter.signOutUser(context, 'graph');
+        assert(connector.callsTo('signOut').length === 1, `signOut not recorded.`);
+    });
+
+    it(`should record member management calls.`, async function () {
+        const connector = new OfflineConnector()
+            .respondWith('getConversationMembers', [{ id: 'user' }, { id: 'bot' }]);
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        const context = new TurnContext(adapter, incomingMessage);
+        const members = await adapter.getConversationMembers(context);
+        assert(members.length === 2, `scripted members not returned.`);
+        await adapter.deleteConversationMember(context, 'user');
+        const call = connector.callsTo('deleteConversationMember')[0];
+        assert(call.conversationId === 'convo1' && call.activityId === 'user', `member deletion not recorded.`);
+    });
+
+    it(`should record emulateOAuthCards() calls.`, async function () {
+        const connector = new OfflineConnector();
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        await adapter.emulateOAuthCards('http://localhost:3978', true);
+        const call = connector.callsTo('emulateOAuthCards')[0];
+        assert(call.serviceUrl === 'http://localhost:3978' && call.args[0] === true, `call not recorded.`);
+    });
+
+    it(`should reset recorded calls and scripted responses.`, async function () {
+        const connector = new OfflineConnector().respondWith('getToken', { token: 'abc' });
+        const adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        const context = new TurnContext(adapter, incomingMessage);
+        await adapter.getConversationMembers(context);
+        connector.reset();
+        assert(connector.calls.length === 0, `calls not cleared.`);
+        assert(await adapter.getUserToken(context, 'graph') === undefined, `scripted responses not cleared.`);
+    });
+});
@@ -0,0 +1,136 @@
+const assert = require('assert');
+const { MemoryTranscriptStore, RedactingTranscriptStore } = require('../');
+
+function createActivity(properties) {
+    return Object.assign({
+        type: 'message',
+        id: '1',
+        timestamp: new Date(Date.UTC(2018, 0, 1)),
+        channelId: 'test',
+        from: { id: 'user', name: 'Jane Doe' },
+        recipient: { id: 'bot' },
+        conversation: { id: 'convo1' }
+    }, properties);
+}
+
+describe(`RedactingTranscriptStore`, function () {
+    it(`should fail to create a store without a store to wrap.`, function () {
+        assert.throws(() => new RedactingTranscriptStore());
+        assert.throws(() => new RedactingTranscriptStore(new MemoryTranscriptStore(), { detectors: ['bogus'] }));
+    });
+
+    it(`should mask built-in detections.`, function () {
+        const store = new RedactingTranscriptStore(new MemoryTranscriptStore());
+        const redacted = store.redact(createActivity({
+            text: 'mail jane@example.com or call +1 425-555-0100, card 4111 1111 1111 1111, order 1234567890123'
+        }));
+        assert.equal(redacted.text, 'mail **************** or call ** ************, card **** **** **** ****, order 1234567890123');
+    });
+
+    it(`should redact tokens and sensitive fields in values and attachments.`, function () {
+        const store = new RedactingTranscriptStore(new MemoryTranscriptStore());
+        const redacted = store.redact(createActivity({
+            type: 'invoke',
+            value: { connectionName: 'graph', token: 'abc123' },
+            attachments: [{ contentType: 'text/plain', content: { text: 'Authorization: Bearer abc.def' } }]
+        }));
+        assert.equal(redacted.value.token, '******');
+        assert.equal(redacted.value.connectionName, 'graph');
+        assert.equal(redacted.attachments[0].content.text, 'Authorization: ****** *******');
+    });
+
+    it(`should keep the fields needed to file the activity.`, function () {
+        const store = new RedactingTranscriptStore(new MemoryTranscriptStore(), { denyFields: ['*'], action: 'drop' });
+        const activity = createActivity({ text: 'hello' });
+        const redacted = store.redact(activity);
+        assert.deepEqual(Object.keys(redacted).sort(), ['channelId', 'conversation', 'id', 'timestamp', 'type']);
+        assert(redacted.timestamp instanceof Date, `timestamp not kept as a date.`);
+        assert.equal(activity.text, 'hello', `original activity changed.`);
+    });
+
+    it(`should honor allow and deny lists.`, function () {
+        const store = new RedactingTranscriptStore(new MemoryTranscriptStore(), {
+            allowFields: ['channelData.support'],
+            denyFields: ['from.name', 'channelData']
+        });
+        const redacted = store.redact(createActivity({
+            text: 'hi',
+            channelData: { tenant: 'contoso', support: { email: 'help@example.com' } }
+        }));
+        assert.equal(redacted.from.name, '**** ***');
+        assert.equal(redacted.channelData.tenant, '*******');
+        assert.equal(redacted.channelData.support.email, 'help@example.com');
+        assert.equal(redacted.text, 'hi');
+    });
+
+    it(`should hash and drop values.`, function () {
+        const hashing = new RedactingTranscriptStore(new MemoryTranscriptStore(), { action: 'hash', hashKey: 'key' });
+        const first = hashing.redact(createActivity({ text: 'jane@example.com' })).text;
+        const second = hashing.redact(createActivity({ text: 'jane@example.com' })).text;
+        assert(/^#[0-9a-f]{64}$/.test(first), `invalid hash: ${ first }`);
+        assert.equal(first, second, `hashes not stable.`);
+        const otherKey = new RedactingTranscriptStore(new MemoryTranscriptStore(), { action: 'hash', hashKey: Buffer.from('other') });
+        assert.notEqual(otherKey.redact(createActivity({ text: 'jane@example.com' })).text, first, `hash not keyed.`);
+
+        const dropping = new RedactingTranscriptStore(new MemoryTranscriptStore(), { action: 'drop', denyFields: ['channelData'] });
+        const dropped = dropping.redact(createActivity({ text: 'mail jane@example.com', channelData: { a: 1 } }));
+        assert.equal(dropped.text, 'mail ');
+        assert(!('channelData' in dropped), `field not dropped.`);
+    });
+
+    it(`should need a key to hash values.`, function () {
+        assert.throws(() => new RedactingTranscriptStore(new MemoryTranscriptStore(), { action: 'hash' }), /hashKey/);
+        assert.throws(() => new RedactingTranscriptStore(new MemoryTranscriptStore(), { action: 'hash', hashKey: '' }), /hashKey/);
+        assert.throws(() => new RedactingTranscriptStore(new MemoryTranscriptStore(), { rules: [{ name: 'order', pattern: /ORD-\d{4}/, action: 'hash' }] }), /hashKey/);
+    });
+
+    it(`should apply custom rules.`, function () {
+        const store = new RedactingTranscriptStore(new MemoryTranscriptStore(), {
+            hashKey: 'key',
+            detectors: [],
+            rules: [
+                { name: 'order', pattern: /ORD-\d{4}/, action: 'hash' },
+                (value, path) => path === 'text' ? value.replace('secret', '[x]') : value
+            ]
+        });
+        const redacted = store.redact(createActivity({ text: 'ORD-1234 secret jane@example.com', speak: 'secret' }));
+        assert(/^#[0-9a-f]{64} \[x\] jane@example.com$/.test(redacted.text), `invalid text: ${ redacted.text }`);
+        assert.equal(redacted.speak, 'secret');
+    });
+
+    it(`should log redacted activities to the wrapped store.`, async function () {
+        const inner = new MemoryTranscriptStore();
+        const store = new RedactingTranscriptStore(inner);
+        await store.logActivity(createActivity({ text: 'jane@example.com' }));
+        const result = await store.getTranscriptActivities('test', 'convo1');
+        assert.equal(result.items[0].text, '****************');
+        assert.equal((await store.listTranscripts('test')).items.length, 1);
+        await store.deleteTranscript('test', 'convo1');
+        assert.equal((await inner.listTranscripts('test')).items.length, 0);
+    });
+
+    it(`should pass read options to the wrapped store.`, async function () {
+        const os = require('os');
+        const path = require('path');
+        const rimraf = require('rimraf');
+        const { FileTranscriptStore } = require('../');
+        const folder = path.join(os.tmpdir(), 'botbuilder-redacting-tests');
+        rimraf.sync(folder);
+        try {
+            const store = new RedactingTranscriptStore(new FileTranscriptStore(folder));
+            await store.logActivity(createActivity({ id: '1', text: 'one' }));
+            await store.logActivity(createActivity({ id: '2', text: 'two', timestamp: new Date(Date.UTC(2018, 0, 2)) }));
+            await store.logActivity(createActivity({ type: 'messageDelete', id: '2', timestamp: new Date(Date.UTC(2018, 0, 3)) }));
+            const page = await store.getTranscriptActivities('test', 'convo1', undefined, undefined, { pageSize: 1 });
+            assert.equal(page.items.length, 1);
+            assert(page.continuationToken, `page size not passed.`);
+            const all = await store.getTranscriptActivities('test', 'convo1', undefined, undefined, { includeDeleted: true });
+            assert.deepEqual(all.items.map(a => a.type), ['message', 'messageDelete']);
+            await store.logActivity(createActivity({ id: '3', text: 'three', conversation: { id: 'convo2' } }));
+            const listed = await store.listTranscripts('test', undefined, { pageSize: 1, sortBy: 'id', descending: true });
+            assert.deepEqual(listed.items.map(t => t.id), ['convo2']);
+        } finally {
+            rimraf.sync(folder);
+        }
+    });
+});
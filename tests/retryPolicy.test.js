@@ -0,0 +1,102 @@
+const assert = require('assert');
+const { RetryPolicy } = require('../');
+
+function httpError(statusCode, headers) {
+    const err = new Error(`status ${ statusCode }`);
+    err.statusCode = statusCode;
+    err.response = { status: statusCode, headers: { get: (name) => (headers || {})[name] } };
+    return err;
+}
+
+function failingOperation(errors, result) {
+    const op = () => {
+        op.calls++;
+        return errors.length ? Promise.reject(errors.shift()) : Promise.resolve(result);
+    };
+    op.calls = 0;
+    return op;
+}
+
+describe(`RetryPolicy`, function () {
+    this.timeout(5000);
+
+    it(`should return the result of a successful operation.`, async function () {
+        const policy = new RetryPolicy();
+        const op = failingOperation([], 'ok');
+        const result = await policy.execute(op);
+        assert(result === 'ok', `invalid result returned.`);
+        assert(op.calls === 1, `operation called ${ op.calls } times.`);
+    });
+
+    it(`should retry a 429 and a 5xx.`, async function () {
+        const policy = new RetryPolicy({ initialDelay: 1 });
+        const op = failingOperation([httpError(429), httpError(503)], 'ok');
+        const result = await policy.execute(op);
+        assert(result === 'ok', `invalid result returned.`);
+        assert(op.calls === 3, `operation called ${ op.calls } times.`);
+    });
+
+    it(`should only retry a 429 or a send error for a non-idempotent operation.`, async function () {
+        const policy = new RetryPolicy({ initialDelay: 1 });
+        const sendError = Object.assign(new Error('socket hang up'), { code: 'REQUEST_SEND_ERROR' });
+        const retried = failingOperation([httpError(429), sendError], 'ok');
+        assert(await policy.execute(retried, false) === 'ok', `invalid result returned.`);
+        assert(retried.calls === 3, `operation called ${ retried.calls } times.`);
+
+        const op = failingOperation([httpError(502)], 'ok');
+        await assert.rejects(() => policy.execute(op, false), (err) => err.statusCode === 502);
+        assert(op.calls === 1, `operation called ${ op.calls } times.`);
+
+        const optIn = failingOperation([httpError(502)], 'ok');
+        assert(await new RetryPolicy({ initialDelay: 1, retryNonIdempotent: true }).execute(optIn, false) === 'ok', `invalid result returned.`);
+        assert(optIn.calls === 2, `operation called ${ optIn.calls } times.`);
+    });
+
+    it(`should not retry a 4xx other than 429.`, async function () {
+        const policy = new RetryPolicy({ initialDelay: 1 });
+        const op = failingOperation([httpError(404)], 'ok');
+        try {
+            await policy.execute(op);
+        } catch (err) {
+            assert(err.statusCode === 404, `unexpected error returned.`);
+            assert(op.calls === 1, `operation called ${ op.calls } times.`);
+            return;
+        }
+        assert(false, `should have thrown an error`);
+    });
+
+    it(`should stop after maxAttempts.`, async function () {
+        const policy = new RetryPolicy({ maxAttempts: 2, initialDelay: 1 });
+        const op = failingOperation([httpError(500), httpError(500), httpError(500)], 'ok');
+        try {
+            await policy.execute(op);
+        } catch (err) {
+            assert(err.statusCode === 500, `unexpected error returned.`);
+            assert(op.calls === 2, `operation called ${ op.calls } times.`);
+            return;
+        }
+        assert(false, `should have thrown an error`);
+    });
+
+    it(`should wait for the delay requested by a Retry-After header.`, async function () {
+        const policy = new RetryPolicy({ initialDelay: 1 });
+        const op = failingOperation([httpError(429, { 'retry-after': '0.3' })], 'ok');
+        const start = new Date().getTime();
+        await policy.execute(op);
+        const end = new Date().getTime();
+        assert((end - start) >= 250, `didn't wait for Retry-After.`);
+    });
+
+    it(`should cap delays at maxDelay.`, async function () {
+        const policy = new RetryPolicy({ initialDelay: 1, maxDelay: 10 });
+        const op = failingOperation([httpError(429, { 'retry-after': '60' })], 'ok');
+        const start = new Date().getTime();
+        await policy.execute(op);
+        const end = new Date().getTime();
+        assert((end - start) < 1000, `didn't cap Retry-After.`);
+    });
+
+    it(`should fail to create a policy with less than one attempt.`, function () {
+        assert.throws(() => new RetryPolicy({ maxAttempts: 0 }));
+    });
+});
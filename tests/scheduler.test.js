@@ -0,0 +1,182 @@
+const assert = require('assert');
+const path = require('path');
+const os = require('os');
+const rimraf = require('rimraf');
+const { BotFrameworkAdapter, CronExpression, FileJobStore, MemoryJobStore, OfflineConnector, Scheduler } = require('../');
+
+const workingFolder = path.join(os.tmpdir(), 'botbuilder-scheduler-tests');
+
+const reference = {
+    channelId: 'test',
+    serviceUrl: 'https://example.org/channel',
+    user: { id: 'user', name: 'User Name' },
+    bot: { id: 'bot', name: 'Bot Name' },
+    conversation: { id: 'convo1' }
+};
+
+const silentLogger = { warn: () => {}, error: () => {} };
+
+function wait(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe(`CronExpression`, function () {
+    it(`should find the next matching minute.`, function () {
+        const next = new CronExpression('*/15 * * * *').next(new Date(2020, 0, 1, 10, 7, 30));
+        assert(next.getTime() === new Date(2020, 0, 1, 10, 15).getTime(), `invalid time: ${ next }`);
+    });
+
+    it(`should roll over hours, days and months.`, function () {
+        const next = new CronExpression('30 9 1 3 *').next(new Date(2020, 0, 15, 12, 0));
+        assert(next.getTime() === new Date(2020, 2, 1, 9, 30).getTime(), `invalid time: ${ next }`);
+    });
+
+    it(`should support weekday ranges.`, function () {
+        // January 4th 2020 is a Saturday.
+        const next = new CronExpression('0 9 * * 1-5').next(new Date(2020, 0, 4, 8, 0));
+        assert(next.getTime() === new Date(2020, 0, 6, 9, 0).getTime(), `invalid time: ${ next }`);
+    });
+
+    it(`should match either day of month or day of week when both are set.`, function () {
+        // January 5th 2020 is a Sunday.
+        const next = new CronExpression('0 0 20 * 0').next(new Date(2020, 0, 1, 0, 0));
+        assert(next.getTime() === new Date(2020, 0, 5, 0, 0).getTime(), `invalid time: ${ next }`);
+    });
+
+    it(`should reject invalid expressions.`, function () {
+        assert.throws(() => new CronExpression('* * * *'));
+        assert.throws(() => new CronExpression('60 * * * *'));
+        assert.throws(() => new CronExpression('a * * * *'));
+        assert.throws(() => new CronExpression('0 0 30 2 *').next(new Date()));
+    });
+});
+
+describe(`Scheduler`, function () {
+    this.timeout(5000);
+
+    let adapter;
+    afterEach(function () {
+        if (adapter) { adapter.scheduler.stop(); }
+        adapter = undefined;
+    });
+
+    it(`should run a delayed job once.`, async function () {
+        const connector = new OfflineConnector();
+        adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        const job = await adapter.schedule(reference, 20, async (context) => {
+            await context.sendActivity('reminder');
+        });
+        assert(job.id && job.nextRun > Date.now() - 1000, `invalid job returned.`);
+        assert((await adapter.scheduler.list()).length === 1, `job not listed.`);
+        await wait(100);
+        const calls = connector.callsTo('sendToConversation');
+        assert(calls.length === 1 && calls[0].activity.text === 'reminder', `job not run.`);
+        assert((await adapter.scheduler.list()).length === 0, `job not removed after running.`);
+    });
+
+    it(`should not run a job again while it's running.`, async function () {
+        adapter = new BotFrameworkAdapter({ offlineConnector: new OfflineConnector() });
+        let runs = 0;
+        await adapter.schedule(reference, 0, async () => {
+            runs++;
+            await wait(300);
+        });
+        await wait(50);
+        assert.equal(runs, 1, `job not started.`);
+        await adapter.schedule(reference, 60000, async () => {});
+        await adapter.scheduler.cancel('unknown');
+        await wait(400);
+        assert.equal(runs, 1, `job run again while running.`);
+        assert.equal((await adapter.scheduler.list()).length, 1);
+    });
+
+    it(`should run other jobs while a slow job is running.`, async function () {
+        adapter = new BotFrameworkAdapter({ offlineConnector: new OfflineConnector() });
+        const start = Date.now();
+        let ranAt;
+        await adapter.schedule(reference, 0, () => wait(500));
+        await adapter.schedule(reference, 50, async () => { ranAt = Date.now() - start; });
+        await wait(200);
+        assert(ranAt !== undefined && ranAt < 200, `job delayed by a slow job: ${ ranAt }`);
+    });
+
+    it(`should pass job data to named handlers.`, async function () {
+        const connector = new OfflineConnector();
+        adapter = new BotFrameworkAdapter({ offlineConnector: connector });
+        adapter.scheduler.registerHandler('reminder', (context, job) => context.sendActivity(job.data.text));
+        await adapter.schedule(reference, new Date(Date.now() + 10), 'reminder', { text: 'stretch' });
+        await wait(100);
+        assert(connector.callsTo('sendToConversation')[0].activity.text === 'stretch', `data not passed.`);
+    });
+
+    it(`should reject unknown handlers and invalid times.`, async function () {
+        adapter = new BotFrameworkAdapter({ offlineConnector: new OfflineConnector() });
+        await assert.rejects(() => adapter.schedule(reference, 10, 'missing'));
+        await assert.rejects(() => adapter.schedule(reference, new Date('bogus'), () => Promise.resolve()));
+        await assert.rejects(() => adapter.schedule(reference, 'bogus', () => Promise.resolve()));
+        for (const when of [NaN, Infinity, -1]) {
+            await assert.rejects(() => adapter.schedule(reference, when, () => Promise.resolve()), /invalid time/);
+        }
+        assert.equal((await adapter.scheduler.list()).length, 0);
+    });
+
+    it(`should cancel a job.`, async function () {
+        let ran = false;
+        adapter = new BotFrameworkAdapter({ offlineConnector: new OfflineConnector() });
+        const job = await adapter.schedule(reference, 20, async () => { ran = true; });
+        assert(await adapter.scheduler.cancel(job.id) === true, `job not found.`);
+        assert(await adapter.scheduler.cancel(job.id) === false, `cancelled job found.`);
+        await wait(60);
+        assert(!ran, `cancelled job ran.`);
+    });
+
+    it(`should reschedule recurring jobs.`, async function () {
+        const store = new MemoryJobStore();
+        adapter = new BotFrameworkAdapter({ offlineConnector: new OfflineConnector(), jobStore: store });
+        adapter.scheduler.registerHandler('digest', () => Promise.resolve());
+        const job = await adapter.schedule(reference, '0 9 * * *', 'digest');
+        const next = new Date(job.nextRun);
+        assert(next.getHours() === 9 && next.getMinutes() === 0 && job.nextRun > Date.now(), `invalid next run.`);
+        assert((await store.listJobs())[0].cron === '0 9 * * *', `cron not saved.`);
+    });
+
+    it(`should keep failed jobs from stopping the scheduler.`, async function () {
+        let ran = 0;
+        adapter = new BotFrameworkAdapter({ offlineConnector: new OfflineConnector(), logger: silentLogger });
+        await adapter.schedule(reference, 10, async () => { throw new Error('failed'); });
+        await adapter.schedule(reference, 10, async () => { ran++; });
+        await wait(100);
+        assert(ran === 1, `second job not run.`);
+        assert((await adapter.scheduler.list()).length === 0, `failed job not removed.`);
+    });
+
+    describe(`with a FileJobStore`, function () {
+        beforeEach(function (done) {
+            rimraf(workingFolder, () => done());
+        });
+
+        after(function (done) {
+            rimraf(workingFolder, () => done());
+        });
+
+        it(`should run saved jobs after a restart.`, async function () {
+            const first = new BotFrameworkAdapter({ offlineConnector: new OfflineConnector(), jobStore: new FileJobStore(workingFolder) });
+            first.scheduler.registerHandler('reminder', (context, job) => context.sendActivity(job.data));
+            await first.schedule(reference, 50, 'reminder', 'saved');
+            first.scheduler.stop();
+
+            const connector = new OfflineConnector();
+            adapter = new BotFrameworkAdapter({ offlineConnector: connector, jobStore: new FileJobStore(workingFolder) });
+            adapter.scheduler.registerHandler('reminder', (context, job) => context.sendActivity(job.data));
+            await adapter.scheduler.start();
+            assert((await adapter.scheduler.list()).length === 1, `saved job not loaded.`);
+            await wait(150);
+            assert(connector.callsTo('sendToConversation')[0].activity.text === 'saved', `saved job not run.`);
+            assert((await new FileJobStore(workingFolder).listJobs()).length === 0, `job file not deleted.`);
+        });
+    });
+
+    it(`should fail to create a scheduler without an adapter.`, function () {
+        assert.throws(() => new Scheduler());
+    });
+});
@@ -0,0 +1,67 @@
+const assert = require('assert');
+const { SendQueue } = require('../');
+
+function delay(ms) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe(`SendQueue`, function () {
+    this.timeout(5000);
+
+    it(`should resolve with the value returned by the send.`, async function () {
+        const queue = new SendQueue();
+        const result = await queue.enqueue('convo1', () => Promise.resolve({ id: '1234' }));
+        assert(result.id === '1234', `invalid result returned.`);
+    });
+
+    it(`should reject with the error raised by the send.`, async function () {
+        const queue = new SendQueue();
+        try {
+            await queue.enqueue('convo1', () => Promise.reject(new Error('failed')));
+        } catch (err) {
+            assert(err.message === 'failed', `unexpected error returned.`);
+            return;
+        }
+        assert(false, `should have thrown an error`);
+    });
+
+    it(`should keep order and pace sends within a conversation.`, async function () {
+        const queue = new SendQueue({ messagesPerSecond: 10 });
+        const sent = [];
+        const start = new Date().getTime();
+        await Promise.all([1, 2, 3].map(i => queue.enqueue('convo1', () => {
+            sent.push({ i: i, at: new Date().getTime() - start });
+            return delay(5 * (4 - i));
+        })));
+        assert.deepEqual(sent.map(s => s.i), [1, 2, 3], `sends out of order.`);
+        assert(sent[2].at >= 190, `sends weren't paced.`);
+    });
+
+    it(`should forget idle conversations once their pacing delay has passed.`, async function () {
+        const queue = new SendQueue({ messagesPerSecond: 20 });
+        await queue.enqueue('convo1', () => Promise.resolve());
+        assert.equal(queue.queues.size, 1, `queue removed before its pacing delay passed.`);
+        await delay(100);
+        assert.equal(queue.queues.size, 0, `idle queue kept.`);
+    });
+
+    it(`should send to different conversations in parallel.`, async function () {
+        const queue = new SendQueue({ messagesPerSecond: 1 });
+        const start = new Date().getTime();
+        await Promise.all(['convo1', 'convo2', 'convo3'].map(key => queue.enqueue(key, () => delay(10))));
+        assert((new Date().getTime() - start) < 500, `conversations weren't sent in parallel.`);
+    });
+
+    it(`should limit the number of sends in flight.`, async function () {
+        const queue = new SendQueue({ messagesPerSecond: 100, maxConcurrency: 2 });
+        let active = 0;
+        let maxActive = 0;
+        await Promise.all(['convo1', 'convo2', 'convo3', 'convo4'].map(key => queue.enqueue(key, () => {
+            active++;
+            maxActive = Math.max(maxActive, active);
+            return delay(20).then(() => active--);
+        })));
+        assert(maxActive === 2, `${ maxActive } sends were in flight.`);
+        assert(queue.size === 0, `queue not drained.`);
+    });
+});
@@ -0,0 +1,140 @@
+const assert = require('assert');
+const chatdown = require('chatdown');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const rimraf = require('rimraf');
+const { MemoryTranscriptStore, exportTranscript, exportTranscriptFile, formatTranscript, importTranscript, importTranscriptFile, readTranscript } = require('../');
+
+const workingFolder = path.join(os.tmpdir(), 'botbuilder-transcript-export-tests');
+
+const user = { id: 'user1', name: 'Jane Doe', role: 'user' };
+const bot = { id: 'bot1', name: 'Help Bot', role: 'bot' };
+const start = Date.UTC(2018, 0, 1);
+
+function createActivity(id, seconds, from, properties) {
+    return Object.assign({
+        type: 'message',
+        id: id,
+        timestamp: new Date(start + seconds * 1000),
+        channelId: 'test',
+        conversation: { id: 'convo1' },
+        from: from,
+        recipient: from === bot ? user : bot
+    }, properties);
+}
+
+async function createStore() {
+    const store = new MemoryTranscriptStore();
+    const activities = [
+        createActivity('1', 0, user, { type: 'conversationUpdate', membersAdded: [bot] }),
+        createActivity('2', 1, user, { text: 'show me <b>cards</b>' }),
+        createActivity('3', 2, bot, { type: 'typing' }),
+        createActivity('4', 3, bot, {
+            text: 'Here you go\nPick one',
+            suggestedActions: { actions: [{ type: 'imBack', title: 'Red', value: 'red' }, { type: 'imBack', title: 'Blue', value: 'blue' }] },
+            attachments: [
+                { contentType: 'image/png', contentUrl: 'https://example.org/cat.png', name: 'cat' },
+                { contentType: 'application/vnd.microsoft.card.hero', content: { title: 'Cat', text: 'A cat', buttons: [{ type: 'imBack', title: 'More', value: 'more' }] } },
+                { contentType: 'application/vnd.microsoft.card.adaptive', content: { type: 'AdaptiveCard', body: [{ type: 'TextBlock', text: 'Adaptive text' }] } },
+                { contentType: 'image/png', contentUrl: 'javascript:alert(1)' }
+            ]
+        })
+    ];
+    for (const activity of activities) {
+        await store.logActivity(activity);
+    }
+    return store;
+}
+
+describe(`transcript export`, function () {
+    this.timeout(5000);
+
+    beforeEach(function (done) {
+        rimraf(workingFolder, () => fs.mkdir(workingFolder, { recursive: true }, () => done()));
+    });
+
+    after(function (done) {
+        rimraf(workingFolder, () => done());
+    });
+
+    it(`should read every page of a transcript.`, async function () {
+        const store = new MemoryTranscriptStore();
+        for (let i = 0; i < 45; i++) {
+            await store.logActivity(createActivity(`${ i }`, i, user, { text: `${ i }` }));
+        }
+        const activities = await readTranscript(store, 'test', 'convo1');
+        assert.equal(activities.length, 45);
+        assert.equal(activities[44].text, '44');
+    });
+
+    it(`should export and import .transcript files.`, async function () {
+        const store = await createStore();
+        const text = await exportTranscript(store, 'test', 'convo1', 'transcript');
+        const parsed = JSON.parse(text);
+        assert.equal(parsed.length, 4);
+        assert.equal(parsed[1].text, 'show me <b>cards</b>');
+
+        const target = new MemoryTranscriptStore();
+        assert.equal(await importTranscript(target, text, { conversationId: 'copy' }), 4);
+        const imported = await readTranscript(target, 'test', 'copy');
+        assert.deepEqual(imported.map(a => a.id), ['1', '2', '3', '4']);
+        assert(imported[0].timestamp instanceof Date, `timestamp not parsed.`);
+        assert.equal(imported[0].timestamp.getTime(), start);
+    });
+
+    it(`should export .chat files chatdown can read.`, async function () {
+        const text = formatTranscript(await readTranscript(await createStore(), 'test', 'convo1'), 'chat');
+        assert(text.startsWith('user=Jane_Doe\nbot=Help_Bot\nchannelId=test\n'), `invalid header: ${ text }`);
+
+        const activities = (await chatdown(text, {})).filter(a => a.type !== 'conversationUpdate');
+        assert.deepEqual(activities.map(a => a.type), ['message', 'typing', 'message']);
+        assert.equal(activities[0].text, 'show me <b>cards</b>');
+        assert.equal(activities[0].from.name, 'Jane_Doe');
+        const reply = activities[2];
+        assert.equal(reply.from.name, 'Help_Bot');
+        assert(reply.text.startsWith('Here you go\nPick one'), `invalid text: ${ reply.text }`);
+        assert.deepEqual(reply.suggestedActions.actions.map(a => a.title), ['Red', 'Blue']);
+        assert.equal(reply.attachments[1].content.title, 'Cat');
+        assert.equal(reply.attachments.length, 2, `attachments without a file or URL not skipped.`);
+    });
+
+    it(`should save attachments next to exported .chat files.`, async function () {
+        const file = path.join(workingFolder, 'convo.chat');
+        await exportTranscriptFile(await createStore(), 'test', 'convo1', file);
+        const text = fs.readFileSync(file, 'utf8');
+        assert(text.includes('[Attachment=convo.attachments/1.json application/vnd.microsoft.card.adaptive]'), `attachment not referenced.`);
+        const card = JSON.parse(fs.readFileSync(path.join(workingFolder, 'convo.attachments', '1.json'), 'utf8'));
+        assert.equal(card.body[0].text, 'Adaptive text');
+    });
+
+    it(`should export readable HTML pages.`, async function () {
+        const html = await exportTranscript(await createStore(), 'test', 'convo1', 'html');
+        assert(html.startsWith('<!DOCTYPE html>'), `not an HTML page.`);
+        assert(html.includes('show me &lt;b&gt;cards&lt;/b&gt;'), `text not escaped.`);
+        assert(html.includes('Here you go<br>Pick one'), `line breaks not kept.`);
+        assert(html.includes('<img class="image" src="https://example.org/cat.png" alt="cat">'), `image not rendered.`);
+        assert(html.includes('<div><b>Cat</b></div>'), `hero card not rendered.`);
+        assert(html.includes('Adaptive text'), `adaptive card not rendered.`);
+        assert(html.includes('<span class="button">Red</span>'), `suggested actions not rendered.`);
+        assert(!/(src|href)="javascript:/.test(html), `unsafe URL rendered.`);
+        assert(html.includes('class="activity user"') && html.includes('class="activity bot"'), `speakers not told apart.`);
+    });
+
+    it(`should write and read files by extension.`, async function () {
+        const file = path.join(workingFolder, 'convo.transcript');
+        await exportTranscriptFile(await createStore(), 'test', 'convo1', file);
+        const target = new MemoryTranscriptStore();
+        assert.equal(await importTranscriptFile(target, file, { channelId: 'emulator' }), 4);
+        assert.equal((await readTranscript(target, 'emulator', 'convo1')).length, 4);
+        await assert.rejects(() => exportTranscriptFile(target, 'emulator', 'convo1', path.join(workingFolder, 'convo.txt')));
+    });
+
+    it(`should reject invalid transcripts.`, async function () {
+        const store = new MemoryTranscriptStore();
+        await assert.rejects(() => importTranscript(store, '{}'));
+        await assert.rejects(() => importTranscript(store, [{ type: 'message', id: '1' }]));
+        await assert.rejects(() => importTranscript(undefined, []));
+        assert.throws(() => formatTranscript([], 'pdf'));
+    });
+});
@@ -0,0 +1,100 @@
+const assert = require('assert');
+const { MemoryTranscriptStore, replayActivities, replayTranscript } = require('../');
+
+const user = { id: 'user1', name: 'User' };
+const bot = { id: 'bot1', name: 'Bot' };
+let nextId = 0;
+
+function userSays(text) {
+    return { type: 'message', id: `${ nextId++ }`, timestamp: new Date(Date.UTC(2018, 0, 1) + nextId * 1000), text: text, from: user, recipient: bot, channelId: 'test', conversation: { id: 'convo1' } };
+}
+
+function botSays(text, properties) {
+    return Object.assign({ type: 'message', id: `${ nextId++ }`, timestamp: new Date(Date.UTC(2018, 0, 1) + nextId * 1000), text: text, from: bot, recipient: user, channelId: 'test', conversation: { id: 'convo1' } }, properties);
+}
+
+const recording = [
+    userSays('hi'),
+    botSays(undefined, { type: 'typing' }),
+    botSays('Hello! What size pizza?', { inputHint: 'expectingInput' }),
+    userSays('large'),
+    botSays('One large pizza coming up.'),
+    botSays('It will be there in 30 minutes.')
+];
+
+async function pizzaBot(context) {
+    if (context.activity.text === 'hi') {
+        await context.sendActivity({ type: 'typing' });
+        await context.sendActivity({ type: 'message', text: 'Hello! What size pizza?', inputHint: 'expectingInput' });
+    } else {
+        await context.sendActivity({ type: 'message', text: `One ${ context.activity.text } pizza coming up.` });
+        await context.sendActivity({ type: 'message', text: 'It will be there in 30 minutes.' });
+    }
+}
+
+describe(`transcript replay`, function () {
+    it(`should pass when the bot sends the recorded replies.`, async function () {
+        const result = await replayActivities(recording, pizzaBot);
+        assert(result.passed, result.report);
+        assert.equal(result.turns.length, 2);
+        assert.equal(result.turns[1].actual.length, 2);
+        assert(result.report.endsWith('2 of 2 turns matched.'), result.report);
+    });
+
+    it(`should replay a conversation from a store.`, async function () {
+        const store = new MemoryTranscriptStore();
+        for (const activity of recording) {
+            await store.logActivity(activity);
+        }
+        const result = await replayTranscript(store, 'test', 'convo1', pizzaBot);
+        assert(result.passed, result.report);
+    });
+
+    it(`should report changed, missing and unexpected activities.`, async function () {
+        const result = await replayActivities(recording, async (context) => {
+            if (context.activity.text === 'hi') {
+                await context.sendActivity({ type: 'message', text: 'Hi! Which size?', inputHint: 'expectingInput' });
+                await context.sendActivity('Extra message');
+            } else {
+                await context.sendActivity(`One ${ context.activity.text } pizza coming up.`);
+            }
+        });
+        assert(!result.passed);
+        assert.deepEqual(result.turns[0].differences.map(d => `${ d.index }:${ d.path }`), ['0:text', '1:']);
+        assert.equal(result.turns[1].differences.find(d => !d.path).expected.text, 'It will be there in 30 minutes.');
+        assert(result.report.includes('~ activity 1 text:'), result.report);
+        assert(result.report.includes('+ activity 2 unexpected: message "Extra message"'), result.report);
+        assert(result.report.includes('- activity 2 missing: message "It will be there in 30 minutes."'), result.report);
+        assert(result.report.endsWith('0 of 2 turns matched.'), result.report);
+    });
+
+    it(`should match fuzzy text.`, async function () {
+        const changed = recording.map(a => a.text === 'It will be there in 30 minutes.' ? Object.assign({}, a, { text: 'it will be  there in 35 minutes' }) : a);
+        assert(!(await replayActivities(changed, pizzaBot)).passed);
+        assert((await replayActivities(changed, pizzaBot, { rules: { textSimilarity: 0.9 } })).passed);
+        assert(!(await replayActivities(changed, pizzaBot, { rules: { textSimilarity: 0.9, normalizeText: false } })).passed);
+    });
+
+    it(`should apply ignore rules.`, async function () {
+        const changed = recording.map(a => a.text === 'One large pizza coming up.' ? Object.assign({}, a, { channelData: { order: 1 } }) : a);
+        assert(!(await replayActivities(changed, pizzaBot)).passed);
+        assert((await replayActivities(changed, pizzaBot, { rules: { ignore: ['channelData'] } })).passed);
+        const withoutTyping = recording.filter(a => a.type !== 'typing');
+        assert((await replayActivities(withoutTyping, pizzaBot)).passed);
+        assert(!(await replayActivities(withoutTyping, pizzaBot, { rules: { ignoreTypes: [] } })).passed, `typing activities not compared.`);
+    });
+
+    it(`should report errors thrown by the bot.`, async function () {
+        const result = await replayActivities(recording, async () => { throw new Error('bot failed'); });
+        assert(!result.passed);
+        assert.equal(result.turns[0].error.message, 'bot failed');
+        assert(result.report.includes('! error: bot failed'), result.report);
+    });
+
+    it(`should run middleware added to the adapter.`, async function () {
+        let calls = 0;
+        const result = await replayActivities(recording, pizzaBot, { middleware: [async (context, next) => { calls++; await next(); }] });
+        assert(result.passed, result.report);
+        assert.equal(calls, 2);
+    });
+});